@@ -17,10 +17,45 @@
  */
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { useDegreePlanStore } from '@/lib/store';
+import { useDegreePlanStore, getMissingCorequisites, formatCourseCode, getPlansWithActive, explainUnmetPrerequisites, getCreditLimit } from '@/lib/store';
+import type { PrerequisiteExplanation as PrerequisiteExplanationDetails } from '@/lib/store';
 import { Course as ImportedCourse } from '@/lib/pdfParser';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRouter } from 'next/navigation';
+import HistoryPanel from '@/components/HistoryPanel';
+import SaveStatus from '@/components/SaveStatus';
+import PlanSwitcher from '@/components/PlanSwitcher';
+import PlanCompareView from '@/components/PlanCompareView';
+import DegreeProgressPanel from '@/components/DegreeProgressPanel';
+import AutoFillModal from '@/components/AutoFillModal';
+import PathOptimizerModal from '@/components/PathOptimizerModal';
+import FailureSimulationModal from '@/components/FailureSimulationModal';
+import GpaPanel from '@/components/GpaPanel';
+import PrerequisiteGraph from '@/components/PrerequisiteGraph';
+import ScheduleBuilder from '@/components/ScheduleBuilder';
+import PrerequisiteExplanation from '@/components/PrerequisiteExplanation';
+import CriticalPathSummary from '@/components/CriticalPathSummary';
+import { buildDegreePlanDocx, DegreePlanDocumentInput } from '@/lib/docxExport';
+import { buildDegreePlanPdf } from '@/lib/pdfExport';
+import { createPlanFile, getCatalogVersion, getPlansFromFile, readPlanFile, resolveLegacySemesters } from '@/lib/planFile';
+import { buildShareUrl, encodeSharedPlan } from '@/lib/shareLink';
+import { getDegreeRequirements } from '@/lib/degreeAudit';
+import { analyzeCriticalPath, CriticalPathAnalysis } from '@/lib/criticalPath';
+import { COURSE_STATUSES, CourseRecord, getAttemptNumber, getCountedCredits, getCourseRecord, isSemesterLocked, LETTER_GRADES } from '@/lib/courseStatus';
+import {
+  compactCourseCode,
+  arePrerequisitesSatisfied,
+  createPrerequisiteContext,
+  explainCondition,
+  formatPrerequisite,
+  getCoursePrerequisites,
+  getInsufficientGrades,
+  getPrerequisiteAlternatives,
+  getPrerequisiteConditions,
+  getStudentConditions,
+  InsufficientGrade
+} from '@/lib/prerequisites';
+import { saveAs } from 'file-saver';
 
 // Define a local Prerequisite type
 type Prerequisite = {
@@ -38,6 +73,18 @@ type Course = {
   sections: { instructor: string; schedule: string; }[];
 };
 
+// Data transfer type used when dragging a course between semesters
+const COURSE_DRAG_TYPE = 'application/x-aui-course';
+
+// Text color of each course status in the status picker
+const STATUS_COLORS: Record<CourseRecord['status'], string> = {
+  'planned': 'text-gray-300',
+  'in-progress': 'text-blue-300',
+  'completed': 'text-green-300',
+  'failed': 'text-red-300',
+  'withdrawn': 'text-yellow-300'
+};
+
 // TotalCredits component that displays the progress toward graduation
 function TotalCredits() {
   // Get semester plans and user info from the global store
@@ -51,9 +98,9 @@ function TotalCredits() {
     totalCreditsToGraduate: 136
   };
 
-  // Calculate the total credits across all semesters
+  // Calculate the credits of passing courses across all semesters (failed and withdrawn attempts left out)
   const totalCredits = useMemo(() =>
-    semesterPlans.reduce((total, semester) => total + semester.credits, 0),
+    semesterPlans.reduce((total, semester) => total + getCountedCredits(semester), 0),
     [semesterPlans]
   );
 
@@ -104,7 +151,7 @@ function Header({ isImportModalOpen, setIsImportModalOpen, isImporting, setIsImp
   setIsImporting: (importing: boolean) => void;
 }) {
   // Get user information and semester plans from the global store
-  const { userInfo, semesterPlans, setUserInfo, resetPlan, addCourse } = useDegreePlanStore();
+  const { userInfo, semesterPlans, courseData, importPlan, loadPlanFile } = useDegreePlanStore();
 
   // Use default userInfo if not set (for testing or direct access)
   const defaultUserInfo = userInfo || {
@@ -124,12 +171,33 @@ function Header({ isImportModalOpen, setIsImportModalOpen, isImporting, setIsImp
     }
   }, [defaultUserInfo.major]);
 
+  // State for the change history panel
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // State for the plan comparison view
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+
+  // State for the degree progress panel
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
+
+  // State for the auto-fill suggestion modal
+  const [isAutoFillOpen, setIsAutoFillOpen] = useState(false);
+
+  // State for the graduation path optimizer
+  const [isOptimizerOpen, setIsOptimizerOpen] = useState(false);
+
+  // State for the share link modal
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [shareUrl, setShareUrl] = useState('');
+  const [shareError, setShareError] = useState('');
+  const [shareCopied, setShareCopied] = useState(false);
+
   // State for file import modal
   const [importError, setImportError] = useState('');
   const [importSuccess, setImportSuccess] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Function to handle file import
+  // Function to handle file import (plan files and legacy text exports)
   const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     setImportError('');
     setImportSuccess('');
@@ -137,375 +205,104 @@ function Header({ isImportModalOpen, setIsImportModalOpen, isImporting, setIsImp
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Check if it's a text file
-    if (file.type !== 'text/plain') {
-      setImportError('Please upload a text (.txt) file');
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+
+    // Check the file extension
+    if (!/\.(json|txt)$/i.test(file.name)) {
+      setImportError('Please upload a plan file (.json) or a text export (.txt)');
       return;
     }
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const content = event.target?.result as string;
-
-        // Parse the file content
-        const parsedData = parseDegreePlanFile(content);
+      const result = readPlanFile(event.target?.result as string);
+
+      if (!result.ok) {
+        // Show the first problems with the path of each bad field
+        const shown = result.errors.slice(0, 8);
+        const more = result.errors.length - shown.length;
+        setImportError(
+          `This file could not be imported:\n${shown.map(error => `• ${error}`).join('\n')}` +
+          (more > 0 ? `\n…and ${more} more problem${more === 1 ? '' : 's'}` : '')
+        );
+        return;
+      }
 
-        if (!parsedData) {
-          setImportError('Invalid file format. Please upload a file exported from this application.');
+      if (result.kind === 'json') {
+        // Restore the plans exactly as they were saved
+        loadPlanFile(result.file.userInfo, getPlansFromFile(result.file), result.file.activePlanId);
+        const currentCatalog = getCatalogVersion(courseData);
+        const catalogChanged = result.file.catalogVersion && currentCatalog && result.file.catalogVersion !== currentCatalog;
+        setImportSuccess(catalogChanged
+          ? 'Plan file imported. It was made with a different course catalog, so some course details may be out of date.'
+          : 'Plan file imported successfully!');
+      } else {
+        // Text exports only hold codes and names, so take the course details from the catalog
+        if (!courseData) {
+          setImportError('The course catalog is still loading. Please try again in a moment.');
           return;
         }
+        const { semesters, missingCodes } = resolveLegacySemesters(result.semesters, courseData);
 
-        console.log('Parsed data:', parsedData);
-
-        // Store user info in localStorage to persist through reload
-        localStorage.setItem('importedUserInfo', JSON.stringify(parsedData.userInfo));
-        localStorage.setItem('importedSemesters', JSON.stringify(parsedData.semesters));
-
-        // Update user info and courses
-        setUserInfo(parsedData.userInfo);
-
-        // Reset the plan first to clear existing courses
-        resetPlan();
-
-        // Add courses to each semester
-        parsedData.semesters.forEach(sem => {
-          sem.courses.forEach(course => {
-            addCourse(sem.name, course);
-          });
-        });
+        // Replace user info and courses in a single undoable step
+        importPlan(result.userInfo, semesters);
+        setImportSuccess(missingCodes.length > 0
+          ? `Degree plan imported. These courses are not in the current catalog and were left out: ${missingCodes.join(', ')}`
+          : 'Degree plan imported successfully!');
+      }
 
-        setImportSuccess('Degree plan imported successfully!');
-        setIsImporting(false);
+      setIsImporting(false);
 
-        // Close the modal after a delay
-        setTimeout(() => {
-          setIsImportModalOpen(false);
-          setImportSuccess('');
-        }, 3000);
-      } catch (error) {
-        console.error('Error parsing file:', error);
-        setImportError('Failed to parse the file. Please ensure it has the correct format.');
-      }
+      // Close the modal after a delay
+      setTimeout(() => {
+        setIsImportModalOpen(false);
+        setImportSuccess('');
+      }, 3000);
     };
 
     reader.readAsText(file);
   };
 
-  // Function to parse the degree plan file
-  const parseDegreePlanFile = (content: string): {
-    userInfo: any,
-    semesters: Array<{ name: string, courses: Course[] }>
-  } | null => {
-    try {
-      // Extract student information
-      const nameMatch = content.match(/Name:\s*(.+)/);
-      const idMatch = content.match(/ID:\s*(.+)/);
-      const majorMatch = content.match(/Major:\s*(.+)/);
-
-      if (!nameMatch || !idMatch || !majorMatch) {
-        console.error('Missing required student information');
-        return null;
-      }
-
-      const name = nameMatch[1].trim();
-      const studentId = idMatch[1].trim();
-      const majorFullName = majorMatch[1].trim();
-
-      // Convert major full name to code
-      let major = 'CS';
-      if (majorFullName.includes('Business')) major = 'BA';
-      else if (majorFullName.includes('International')) major = 'IS';
-
-      // Extract total credits
-      const totalCreditsMatch = content.match(/Credits Required for Graduation:\s*(\d+)/);
-      const totalCreditsToGraduate = totalCreditsMatch ? parseInt(totalCreditsMatch[1]) : 136;
-
-      // Extract academic years and semesters
-      const academicYearSections = content.split(/=+\s*ACADEMIC YEAR:/);
-
-      // Skip the first section (it's the header)
-      const semesters: Array<{ name: string, courses: Course[] }> = [];
-      const processedSemesters = new Set<string>(); // Track processed semesters to avoid duplicates
-
-      // Debug output
-      console.log('Found academic year sections:', academicYearSections.length - 1);
-
-      for (let i = 1; i < academicYearSections.length; i++) {
-        const yearSection = academicYearSections[i];
-        console.log(`Processing academic year section ${i}:`, yearSection.substring(0, 100) + '...');
-
-        // Extract semester sections using regex
-        const semesterMatches = [...yearSection.matchAll(/\n-{3,}\s*([A-Za-z]+\s+\d{4})\s*\n-{3,}/g)];
-
-        if (semesterMatches.length === 0) {
-          console.log(`No semester matches found in year section ${i}`);
-          continue;
-        }
-
-        console.log(`Found ${semesterMatches.length} semesters in year ${i}`);
-
-        // Process each semester
-        for (let j = 0; j < semesterMatches.length; j++) {
-          const semesterName = semesterMatches[j][1].trim();
-
-          // Skip if this semester has already been processed
-          if (processedSemesters.has(semesterName)) {
-            console.log(`Skipping duplicate semester: ${semesterName}`);
-            continue;
-          }
-
-          console.log(`Processing semester: ${semesterName}`);
-          processedSemesters.add(semesterName);
-
-          // Get the content for this semester
-          const startIndex = semesterMatches[j].index! + semesterMatches[j][0].length;
-          const endIndex = j < semesterMatches.length - 1 ? semesterMatches[j+1].index : undefined;
-          const semesterContent = yearSection.substring(startIndex, endIndex);
-
-          // Process this semester's content
-          const courses = extractCoursesFromSemesterContent(semesterContent);
-
-          // Add the semester even if it has no courses
-          semesters.push({
-            name: semesterName,
-            courses
-          });
-          console.log(`Added semester ${semesterName} with ${courses.length} courses`);
-        }
-      }
-
-      // Helper function to extract courses from semester content
-      function extractCoursesFromSemesterContent(content: string): Course[] {
-        const courses: Course[] = [];
-        const lines = content.split('\n');
-
-        // Clean up the content by removing any lines with just "=" characters
-        const cleanedLines = lines.filter(line => !line.trim().match(/^=+$/));
-
-        // Find the header line (contains "Course ID" or similar)
-        const headerLineIndex = cleanedLines.findIndex(line =>
-          line.includes('Course ID') || line.includes('Course Title') || line.includes('SCH'));
-
-        if (headerLineIndex === -1) {
-          console.log('No header line found in semester content');
-          return [];
-        }
-
-        // Skip the header and separator lines
-        for (let i = headerLineIndex + 2; i < cleanedLines.length; i++) {
-          const line = cleanedLines[i].trim();
-
-          // Skip empty lines, separator lines, and total lines
-          if (!line || line.startsWith('-') || line.includes('Total SCH:')) continue;
-
-          // Skip placeholder lines for empty semesters
-          if (line.startsWith('NONE') || line.includes('No courses added')) continue;
-
-          // Parse course information
-          let courseCode, courseName, credits;
-
-          if (line.includes('\t')) {
-            // Tab-separated format
-            const parts = line.split('\t').filter(part => part.trim());
-            courseCode = parts[0]?.trim();
-            courseName = parts[1]?.trim();
-            credits = parts[2]?.trim() || parts[parts.length - 1]?.trim();
-          } else {
-            // Space-separated format with fixed widths
-            courseCode = line.substring(0, 15).trim();
-            courseName = line.substring(15, 55).trim();
-            credits = line.substring(55).trim();
-          }
-
-          if (courseCode && courseName && credits) {
-            // Ensure credits is a valid number
-            const parsedCredits = parseInt(credits);
-            if (!isNaN(parsedCredits)) {
-              courses.push({
-                course_code: courseCode,
-                course_name: courseName,
-                credits: parsedCredits.toString(),
-                prerequisites: [],
-                corequisites: [],
-                sections: []
-              });
-            }
-          }
-        }
-
-        return courses;
-      }
-
-      // Extract start and end dates from semester names
-      const allSemesterNames = semesters.map(s => s.name);
-      const firstSemester = allSemesterNames[0] || 'Fall 2024';
-      const lastSemester = allSemesterNames[allSemesterNames.length - 1] || 'Spring 2028';
-
-      const [startSemester, startYearStr] = firstSemester.split(' ');
-      const [endSemester, endYearStr] = lastSemester.split(' ');
-
-      const startYear = parseInt(startYearStr);
-      const endYear = parseInt(endYearStr);
+  // Function to download every plan as a lossless plan file
+  const exportPlanFile = () => {
+    if (!userInfo) return;
+    const state = useDegreePlanStore.getState();
+    const planFile = createPlanFile(userInfo, getPlansWithActive(state), state.activePlanId, courseData);
+    const blob = new Blob([JSON.stringify(planFile, null, 2)], { type: 'application/json' });
+    saveAs(blob, `${exportFileName}.json`);
+  };
 
-      console.log('Parsed semesters:', semesters);
+  // Function to build a read-only link to the current plan and show it in the share modal
+  const openShareModal = async () => {
+    if (!userInfo) return;
+    setIsShareOpen(true);
+    setShareUrl('');
+    setShareError('');
+    setShareCopied(false);
 
-      return {
-        userInfo: {
-          name,
-          studentId,
-          major,
-          startSemester,
-          startYear,
-          endSemester,
-          endYear,
-          totalCreditsToGraduate
-        },
-        semesters
-      };
+    try {
+      const encoded = await encodeSharedPlan(userInfo, semesterPlans);
+      setShareUrl(buildShareUrl(window.location.origin, encoded));
     } catch (error) {
-      console.error('Error parsing file:', error);
-      return null;
+      console.error('Error creating share link:', error);
+      setShareError('This browser cannot create plan links. Export a plan file instead.');
     }
   };
 
-  // Function to generate and download the degree plan document
-  const savePlan = () => {
-    // Create document content
-    const generateDocContent = () => {
-      // Extract user information for the document
-      const studentName = defaultUserInfo.name;
-      const studentId = defaultUserInfo.studentId;
-      const major = majorFullName;
-      const school = major === 'Computer Science' ? 'SSE' :
-                    major === 'Business Administration' ? 'SBA' : 'SHSS';
-
-      // Calculate total credits across all semesters
-      const totalCredits = semesterPlans.reduce((total, semester) => total + semester.credits, 0);
-
-      // Get all possible semesters from user's start to end date
-      const allPossibleSemesters = getAllSemesters();
-
-      // Group semesters by academic year for organized display
-      const semestersByYear: Record<string, Array<{
-        term: string;
-        year: number;
-        courses: Course[];
-        credits: number;
-        name: string;
-      }>> = {};
-
-      // Initialize all possible semesters with empty courses
-      allPossibleSemesters.forEach(semesterName => {
-        const parts = semesterName.split(' ');
-        const term = parts[0]; // Fall, Spring, Summer
-        const year = parseInt(parts[1]);
-
-        // Determine academic year (Fall starts the academic year)
-        let academicYear;
-        if (term === 'Fall') {
-          academicYear = `${year}/${year + 1}`;
-        } else {
-          academicYear = `${year - 1}/${year}`;
-        }
-
-        // Initialize the academic year array if it doesn't exist
-        if (!semestersByYear[academicYear]) {
-          semestersByYear[academicYear] = [];
-        }
-
-        // Find if this semester exists in the plan
-        const existingSemester = semesterPlans.find(s => s.semester === semesterName);
-
-        // Add this semester to its academic year (either with courses or empty)
-        semestersByYear[academicYear].push({
-          term,
-          year,
-          name: semesterName,
-          courses: existingSemester ? existingSemester.courses : [],
-          credits: existingSemester ? existingSemester.credits : 0
-        });
-      });
-
-      // Sort semesters within each academic year (Fall, Spring, Summer)
-      const termOrder: Record<string, number> = { 'Fall': 0, 'Spring': 1, 'Summer': 2 };
-      Object.keys(semestersByYear).forEach(year => {
-        semestersByYear[year].sort((a, b) => termOrder[a.term] - termOrder[b.term]);
-      });
-
-      // Generate document content with formatting
-      let content = `
-=======================================================================
-                      DEGREE PLAN TEMPLATE
-=======================================================================
-Use this template as your roadmap to graduation.
-
------------------------------------------------------------------------
-                     STUDENT INFORMATION
------------------------------------------------------------------------
-Name: ${studentName}
-ID: ${studentId}
-Major: ${major}
-School: ${school}
-
-`;
-
-      // Add academic years and semesters to the document
-      Object.keys(semestersByYear).sort().forEach(academicYear => {
-        content += `=======================================================================
-                   ACADEMIC YEAR: ${academicYear}
-=======================================================================\n`;
-
-        // Add each semester in this academic year
-        semestersByYear[academicYear].forEach(semester => {
-          content += `\n-----------------------------------------------------------------------
-                        ${semester.term} ${semester.year}
------------------------------------------------------------------------\n`;
-          content += 'Course ID\t\tCourse Title\t\t\t\tSCH\n';
-          content += '-----------------------------------------------------------------------\n';
-
-          // Add each course in this semester
-          if (semester.courses.length > 0) {
-            semester.courses.forEach(course => {
-              // Pad course code and name for better formatting
-              const paddedCode = course.course_code.padEnd(15, ' ');
-              const paddedName = course.course_name.padEnd(40, ' ');
-              content += `${paddedCode}${paddedName}${course.credits}\n`;
-            });
-          } else {
-            // Add a placeholder for empty semesters
-            content += 'NONE\t\tNo courses added\t\t\t\t0\n';
-          }
-
-          content += '-----------------------------------------------------------------------\n';
-          content += `Total SCH: ${semester.credits}\n`;
-        });
-
-        // Calculate academic year total credits
-        const yearTotal = semestersByYear[academicYear].reduce((total, sem) => total + sem.credits, 0);
-        content += `\nTotal SCH for ${academicYear}: ${yearTotal}\n\n`;
-      });
-
-      // Add degree summary section
-      content += `
-=======================================================================
-                        DEGREE SUMMARY
-=======================================================================
-Total Credits Completed: ${totalCredits}
-Credits Required for Graduation: ${defaultUserInfo.totalCreditsToGraduate}
-Remaining Credits: ${Math.max(0, defaultUserInfo.totalCreditsToGraduate - totalCredits)}
-
-=======================================================================
-                  MINIMUM DEGREE REQUIREMENTS
-=======================================================================
-SBA: 120 SCH
-SHSS: 120 SCH
-SSE: 134-136 SCH (depending on program)
-`;
-
-      return content;
-    };
+  // Function to copy the share link to the clipboard
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setShareCopied(true);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      setShareError('The link could not be copied. Select it and copy it manually.');
+    }
+  };
 
+  // Collect the student information and plan used by the Word and PDF exports
+  const getDocumentInput = async (): Promise<DegreePlanDocumentInput> => {
     // Helper function to get all possible semesters between start and end dates
     const getAllSemesters = () => {
       if (!userInfo) return [];
@@ -545,25 +342,45 @@ SSE: 134-136 SCH (depending on program)
       return allSemesters;
     };
 
-    // Generate the document content
-    const docContent = generateDocContent();
+    // School of the student's major
+    const school = majorFullName === 'Computer Science' ? 'SSE' :
+                  majorFullName === 'Business Administration' ? 'SBA' : 'SHSS';
 
-    // Create a Blob with the content for downloading
-    const blob = new Blob([docContent], { type: 'text/plain' });
+    // Load the AUI logo for the title block (the document is still created without it)
+    let logo: ArrayBuffer | null = null;
+    try {
+      const response = await fetch('/aui-logo.png');
+      if (response.ok) logo = await response.arrayBuffer();
+    } catch (error) {
+      console.error('Error loading logo:', error);
+    }
+
+    return {
+      studentName: defaultUserInfo.name,
+      studentId: defaultUserInfo.studentId,
+      major: majorFullName,
+      school,
+      totalCreditsToGraduate: defaultUserInfo.totalCreditsToGraduate,
+      semesterNames: getAllSemesters(),
+      semesterPlans,
+      requirements: getDegreeRequirements(defaultUserInfo.major, defaultUserInfo.totalCreditsToGraduate),
+      logo
+    };
+  };
 
-    // Create a download link
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${defaultUserInfo.name.replace(/\s+/g, '_')}_${defaultUserInfo.studentId}_DegreePlan.txt`;
+  // Base name of downloaded plan files (e.g., "Jane_Doe_S12345_DegreePlan")
+  const exportFileName = `${defaultUserInfo.name.replace(/\s+/g, '_')}_${defaultUserInfo.studentId}_DegreePlan`;
 
-    // Append to the document, click, and remove
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Function to generate and download the degree plan as a Word document
+  const savePlan = async () => {
+    const blob = await buildDegreePlanDocx(await getDocumentInput());
+    saveAs(blob, `${exportFileName}.docx`);
+  };
 
-    // Release the URL object to free memory
-    URL.revokeObjectURL(url);
+  // Function to generate and download a printable PDF of the degree plan for advisor sign-off
+  const exportPdf = async () => {
+    const blob = await buildDegreePlanPdf(await getDocumentInput());
+    saveAs(blob, `${exportFileName}.pdf`);
   };
 
   return (
@@ -597,6 +414,7 @@ SSE: 134-136 SCH (depending on program)
                   <span className="text-gray-600">•</span>
                   <span className="text-sm text-gray-400">{defaultUserInfo.name}</span>
                 </div>
+                <SaveStatus />
               </div>
             </motion.div>
 
@@ -608,6 +426,56 @@ SSE: 134-136 SCH (depending on program)
             >
               <TotalCredits />
 
+              {/* Cumulative GPA and projection */}
+              <GpaPanel />
+
+              {/* Named plan switcher */}
+              <PlanSwitcher onCompare={() => setIsCompareOpen(true)} />
+
+              {/* Degree progress button */}
+              <button
+                onClick={() => setIsProgressOpen(true)}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                <span>Progress</span>
+              </button>
+
+              {/* Auto-fill button */}
+              <button
+                onClick={() => setIsAutoFillOpen(true)}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                </svg>
+                <span>Auto-fill</span>
+              </button>
+
+              {/* Path optimizer button */}
+              <button
+                onClick={() => setIsOptimizerOpen(true)}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                <span>Optimize</span>
+              </button>
+
+              {/* History button */}
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>History</span>
+              </button>
+
               {/* Import Plan button */}
               <button
                 onClick={() => setIsImportModalOpen(true)}
@@ -619,6 +487,41 @@ SSE: 134-136 SCH (depending on program)
                 <span>Import Plan</span>
             </button>
 
+              {/* Share link button */}
+              <button
+                onClick={openShareModal}
+                disabled={!userInfo}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                <span>Share</span>
+              </button>
+
+              {/* Export plan file button */}
+              <button
+                onClick={exportPlanFile}
+                disabled={!userInfo}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                </svg>
+                <span>Export JSON</span>
+              </button>
+
+              {/* Export PDF button */}
+              <button
+                onClick={exportPdf}
+                className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                </svg>
+                <span>Export PDF</span>
+              </button>
+
               {/* Save Plan button */}
               <button
                 onClick={savePlan}
@@ -634,6 +537,88 @@ SSE: 134-136 SCH (depending on program)
         </nav>
       </header>
 
+      {/* Change history panel */}
+      <HistoryPanel isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} />
+
+      {/* Degree progress panel */}
+      <DegreeProgressPanel isOpen={isProgressOpen} onClose={() => setIsProgressOpen(false)} />
+
+      {/* Auto-fill suggestion */}
+      <AutoFillModal isOpen={isAutoFillOpen} onClose={() => setIsAutoFillOpen(false)} />
+      <PathOptimizerModal isOpen={isOptimizerOpen} onClose={() => setIsOptimizerOpen(false)} />
+
+      {/* Plan comparison view */}
+      <PlanCompareView isOpen={isCompareOpen} onClose={() => setIsCompareOpen(false)} />
+
+      {/* Share Modal */}
+      <AnimatePresence>
+        {isShareOpen && (
+          <>
+            {/* Modal backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+              onClick={() => setIsShareOpen(false)}
+            />
+
+            {/* Modal content */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="fixed inset-0 z-[60] flex items-center justify-center pointer-events-none"
+            >
+              <div className="relative bg-[#1e293b] border border-white/10 rounded-xl p-6 max-w-md w-full mx-4 pointer-events-auto">
+                <h3 className="text-xl font-bold text-white mb-4">Share Degree Plan</h3>
+
+                <p className="text-gray-300 mb-6">
+                  Anyone with this link can view your current plan and copy it into their own planner.
+                  The plan is stored in the link itself, so later changes are not included.
+                </p>
+
+                {/* Error message */}
+                {shareError && (
+                  <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {shareError}
+                  </div>
+                )}
+
+                {/* Link and copy button */}
+                {!shareError && (
+                  <div className="flex items-center space-x-2 mb-4">
+                    <input
+                      type="text"
+                      readOnly
+                      value={shareUrl || 'Creating link...'}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-[#0f172a] border border-white/10 text-gray-300 text-sm"
+                    />
+                    <button
+                      onClick={copyShareUrl}
+                      disabled={!shareUrl}
+                      className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+                    >
+                      {shareCopied ? 'Copied!' : 'Copy'}
+                    </button>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => setIsShareOpen(false)}
+                    className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
       {/* Import Modal */}
       <AnimatePresence>
         {isImportModalOpen && (
@@ -659,13 +644,13 @@ SSE: 134-136 SCH (depending on program)
                 <h3 className="text-xl font-bold text-white mb-4">Import Degree Plan</h3>
 
                 <p className="text-gray-300 mb-6">
-                  Upload a degree plan file that you previously exported from this application.
-                  This will replace your current plan with the imported one.
+                  Upload a plan file (.json) you exported from this application, or a text export
+                  from an older version. This will replace your current plans with the imported ones.
                 </p>
 
                 {/* Error message */}
                 {importError && (
-                  <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                  <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm whitespace-pre-line break-words max-h-60 overflow-y-auto">
                     {importError}
         </div>
                 )}
@@ -680,7 +665,7 @@ SSE: 134-136 SCH (depending on program)
                 {/* File input (hidden) */}
                 <input
                   type="file"
-                  accept=".txt"
+                  accept=".json,.txt"
                   ref={fileInputRef}
                   onChange={handleFileImport}
                   className="hidden"
@@ -717,10 +702,32 @@ SSE: 134-136 SCH (depending on program)
 // CourseNode component that displays a single course in a semester
 function CourseNode({
   course,           // The course object to display
-  onRemove          // Function to call when removing the course
+  semester,         // The semester the course is planned in (used as the drag source)
+  onRemove,         // Function to call when removing the course
+  isPinned,         // Whether the optimizer must keep the course in this semester
+  onTogglePin,      // Function to call when pinning or unpinning the course
+  record,           // Status and grade of the course
+  onRecordChange,   // Function to call when the student records a new status or grade
+  locked,           // Whether the semester is locked (no moving or removing)
+  attempt,          // Which attempt at the course this is (1 unless it is a retake)
+  onSimulateFailure, // Function to call to see what failing the course would change
+  gradeIssues,      // Prerequisites completed below their minimum grade that leave the course unsatisfied
+  criticalPath,     // Earliest-term analysis of the plan (null until the catalog is loaded)
+  highlightCritical // Whether to mark courses on the critical path
 }: {
   course: Course;
+  semester: string;
   onRemove: () => void;
+  isPinned: boolean;
+  onTogglePin: () => void;
+  record: CourseRecord;
+  onRecordChange: (record: CourseRecord) => void;
+  locked: boolean;
+  attempt: number;
+  onSimulateFailure: () => void;
+  gradeIssues: InsufficientGrade[];
+  criticalPath: CriticalPathAnalysis | null;
+  highlightCritical: boolean;
 }) {
   // State to track if the course details are expanded
   const [expanded, setExpanded] = useState(false);
@@ -728,21 +735,103 @@ function CourseNode({
   // Calculate the total credits for this course
   const credits = parseInt(course.credits);
 
+  // Ways to satisfy the course's prerequisites (empty when it has none)
+  const prerequisiteAlternatives = useMemo(() => {
+    const expression = getCoursePrerequisites(course);
+    return expression ? getPrerequisiteAlternatives(expression) : [];
+  }, [course]);
+
+  // Earliest and latest terms of the course, and whether it is planned later than graduation allows
+  const timing = criticalPath?.courses.get(compactCourseCode(course.course_code)) ?? null;
+  const plannedIndex = criticalPath ? criticalPath.terms.findIndex(term => term.name === semester) : -1;
+  const delaysGraduation = timing !== null && plannedIndex > timing.latestIndex;
+  const isHighlighted = highlightCritical && timing !== null && (timing.isCritical || delaysGraduation);
+
   return (
     <motion.div
       // Animation for the course node (fades in and slides up)
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, scale: 0.95 }}
-      className="relative overflow-hidden rounded-xl bg-white/5 border border-white/10 transition-all duration-300"
+      className={`relative overflow-hidden rounded-xl bg-white/5 border transition-all duration-300 ${
+        isHighlighted ? 'border-orange-500/50 ring-1 ring-orange-500/30' : 'border-white/10'
+      }`}
     >
-      {/* Main course information (always visible) */}
-      <div className="p-4">
+      {/* Main course information (always visible, drag handle for moving between semesters) */}
+      <div
+        className={`p-4 ${locked ? '' : 'cursor-grab active:cursor-grabbing'}`}
+        draggable={!locked}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(COURSE_DRAG_TYPE, JSON.stringify({ from: semester, courseCode: course.course_code }));
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+      >
         <div className="flex justify-between">
         <div>
             {/* Course code and name */}
-            <h4 className="font-semibold text-white">{course.course_code}</h4>
+            <h4 className="font-semibold text-white">
+              {course.course_code}
+              {attempt > 1 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-500/20 text-purple-300 border border-purple-500/30">
+                  Attempt {attempt}
+                </span>
+              )}
+            </h4>
             <p className="text-sm text-gray-400 mt-1">{course.course_name}</p>
+
+            {/* Status and grade (grades only apply to completed and failed courses) */}
+            <div className="flex items-center space-x-2 mt-2">
+              <select
+                value={record.status}
+                onChange={(e) => onRecordChange({ ...record, status: e.target.value as CourseRecord['status'] })}
+                onClick={(e) => e.stopPropagation()}
+                className={`px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-xs focus:outline-none ${STATUS_COLORS[record.status]}`}
+              >
+                {COURSE_STATUSES.map(status => (
+                  <option key={status.value} value={status.value} className="bg-[#1e293b] text-white">{status.label}</option>
+                ))}
+              </select>
+              {(record.status === 'completed' || record.status === 'failed') && (
+                <select
+                  value={record.grade ?? ''}
+                  onChange={(e) => onRecordChange({ ...record, grade: e.target.value || undefined })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-xs text-white focus:outline-none"
+                >
+                  <option value="" className="bg-[#1e293b]">Grade</option>
+                  {LETTER_GRADES.map(grade => (
+                    <option key={grade} value={grade} className="bg-[#1e293b]">{grade}</option>
+                  ))}
+                </select>
+              )}
+
+              {/* Failure simulation (only for courses whose outcome is still open) */}
+              {!locked && (record.status === 'planned' || record.status === 'in-progress') && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSimulateFailure();
+                  }}
+                  className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                >
+                  What if I fail?
+                </button>
+              )}
+            </div>
+
+            {/* Prerequisites passed below the grade this course requires */}
+            {gradeIssues.map(issue => (
+              <p key={issue.code} className="mt-2 text-xs text-red-300">
+                {issue.code}: earned {issue.grade}, needs {issue.minimumGrade} or better. Schedule a retake before this course.
+              </p>
+            ))}
+
+            {/* Critical path marker */}
+            {isHighlighted && (
+              <span className="inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-500/20 text-orange-300 border border-orange-500/30">
+                {delaysGraduation ? 'Delays earliest graduation' : 'Critical path'}
+              </span>
+            )}
           </div>
 
           <div className="flex items-start space-x-2">
@@ -751,18 +840,39 @@ function CourseNode({
               {credits} {credits === 1 ? 'Credit' : 'Credits'}
             </span>
 
-            {/* Remove button */}
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onRemove();
-              }}
-              className="p-1 rounded-full bg-white/5 hover:bg-red-500/20 hover:text-red-400 transition-colors"
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+            {/* Pin and remove buttons (locked semesters keep their courses) */}
+            {!locked && (
+              <>
+                {/* Pin button (pinned courses stay in this semester when the plan is optimized) */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTogglePin();
+                  }}
+                  title={isPinned ? `Unpin from ${semester}` : `Pin to ${semester}`}
+                  className={`p-1 rounded-full transition-colors ${
+                    isPinned ? 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30' : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill={isPinned ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                </button>
+
+                {/* Remove button */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove();
+                  }}
+                  className="p-1 rounded-full bg-white/5 hover:bg-red-500/20 hover:text-red-400 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </>
+            )}
           </div>
         </div>
 
@@ -786,22 +896,37 @@ function CourseNode({
       {/* Expanded details section (only visible when expanded) */}
       {expanded && (
         <div className="px-4 pb-4 pt-2 border-t border-white/5 bg-white/2">
-          {/* Prerequisites section */}
-          {course.prerequisites && course.prerequisites.length > 0 && (
+          {/* Earliest possible term and how long the course can wait */}
+          {timing && (
+            <div className="mb-3">
+              <h5 className="text-xs font-medium text-gray-400 mb-1">Timing:</h5>
+              <div className="text-xs text-gray-500">
+                Earliest {timing.term}
+                {timing.waitsFor.length > 0 && ` (after ${timing.waitsFor.join(', ')})`}
+                {' · '}
+                {timing.isCritical
+                  ? <span className="text-orange-300">no slack: taking it later delays graduation</span>
+                  : `can wait until ${criticalPath!.terms[timing.latestIndex].name} (${timing.slack} ${timing.slack === 1 ? 'term' : 'terms'} of slack)`}
+              </div>
+            </div>
+          )}
+
+          {/* Prerequisites section (each line is one way to satisfy them) */}
+          {prerequisiteAlternatives.length > 0 && (
             <div className="mb-3">
               <h5 className="text-xs font-medium text-gray-400 mb-1">Prerequisites:</h5>
               <div className="text-xs text-gray-500">
-                {course.prerequisites.map((group, i) => (
+                {prerequisiteAlternatives.map((alternative, i) => (
                   <div key={i} className="mb-1 last:mb-0">
                     {/* Display prerequisites with AND/OR logic */}
-                    {group.map((prereq, j) => (
+                    {alternative.map((leaf, j) => (
                       <React.Fragment key={j}>
-                        <span className="text-blue-400">{(prereq as Prerequisite).value}</span>
-                        {j < group.length - 1 && <span className="text-green-400 mx-1">OR</span>}
+                        <span className={leaf.type === 'course' ? 'text-blue-400' : 'text-gray-300'}>{formatPrerequisite(leaf)}</span>
+                        {j < alternative.length - 1 && <span className="text-purple-400 mx-1">AND</span>}
                       </React.Fragment>
                     ))}
-                    {i < course.prerequisites.length - 1 && (
-                      <span className="text-purple-400 mx-1">AND</span>
+                    {i < prerequisiteAlternatives.length - 1 && (
+                      <span className="text-green-400 mx-1">OR</span>
                     )}
                   </div>
                 ))}
@@ -853,130 +978,46 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAllCourses, setShowAllCourses] = useState(false);
-  const [debugMode, setDebugMode] = useState(false);
+  // Course whose missing prerequisites are being explained (null when none is expanded)
+  const [explainedCourse, setExplainedCourse] = useState<string | null>(null);
 
   // Get the store state and actions
-  const { courseData, semesterPlans, addCourse } = useDegreePlanStore();
+  const { courseData, semesterPlans, userInfo, addCourse, addCourseWithCorequisites, toggleInstructorPermission } = useDegreePlanStore();
 
-  // Get all courses that have been added to the plan in previous semesters
-  // This is used to check if prerequisites are satisfied
-  const addedCourses = useMemo(() => {
-    if (!semesterPlans) return [];
-
-    // Get all courses from all semesters
-    const allCourses = semesterPlans.flatMap(plan => plan.courses.map(course => course.course_code));
-
-    // Get all courses from semesters that come before the current semester
-    // and include courses from the current semester as well
+  // Semesters before this one
+  // Prerequisites must be taken in an earlier semester, as the store requires
+  const earlierSemesters = useMemo(() => {
     const currentSemesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
-    if (currentSemesterIndex === -1) return allCourses; // If semester not found, use all courses
-
-    // Include all semesters up to and including the current one
-    const relevantSemesters = semesterPlans.slice(0, currentSemesterIndex + 1);
-    return relevantSemesters.flatMap(semester => semester.courses.map(course => course.course_code));
+    return currentSemesterIndex === -1 ? semesterPlans : semesterPlans.slice(0, currentSemesterIndex);
   }, [semesterPlans, semester]);
 
+  // What the student has done by this semester: courses, class standing, placements and permissions
+  const prerequisiteContext = useMemo(
+    () => createPrerequisiteContext(earlierSemesters, userInfo),
+    [earlierSemesters, userInfo]
+  );
+  const studentConditions = useMemo(
+    () => getStudentConditions(earlierSemesters, userInfo),
+    [earlierSemesters, userInfo]
+  );
+
+  // Check if the student has instructor permission for a course (which waives its prerequisites)
+  const hasInstructorPermission = useCallback((course: Course) => {
+    return prerequisiteContext.instructorPermissions?.has(compactCourseCode(course.course_code)) ?? false;
+  }, [prerequisiteContext]);
+
   // Get courses that are already in the current semester
   const currentSemesterCourses = useMemo(() => {
     const currentSemester = semesterPlans.find(plan => plan.semester === semester);
     return currentSemester ? currentSemester.courses.map(course => course.course_code) : [];
   }, [semesterPlans, semester]);
 
-  // Check if prerequisites for a course are satisfied based on previously added courses
-  const arePrerequisitesSatisfied = useCallback((course: Course) => {
-    // If the course has no prerequisites or empty prerequisites array, it's available
-    if (!course.prerequisites || course.prerequisites.length === 0) {
-      if (debugMode) console.log(`Course ${course.course_code} has no prerequisites`);
-      return true;
-    }
-
-    // If the prerequisites array contains an empty array, it means no prerequisites
-    if (course.prerequisites.some(group => Array.isArray(group) && group.length === 0)) {
-      if (debugMode) console.log(`Course ${course.course_code} has an empty prerequisite group`);
-      return true;
-    }
-
-    if (debugMode) {
-      console.log(`Checking prerequisites for ${course.course_code}:`);
-      console.log(`Prerequisites:`, course.prerequisites);
-      console.log(`Added courses:`, addedCourses);
-    }
-
-    // Helper function to normalize course codes for comparison
-    const normalizeCourseCode = (code: string) => {
-      if (!code) return '';
-      // Remove spaces, hyphens, and convert to uppercase
-      return code.replace(/[\s-]+/g, '').toUpperCase();
-    };
-
-    // Helper function to check if two course codes match
-    const courseCodesMatch = (code1: string, code2: string) => {
-      return normalizeCourseCode(code1) === normalizeCourseCode(code2);
-    };
-
-    // Get normalized versions of added courses for comparison
-    const normalizedAddedCourses = addedCourses.map(normalizeCourseCode);
-
-    if (debugMode) {
-      console.log(`Normalized added courses:`, normalizedAddedCourses);
-    }
-
-    // Special case for CSC 2302 which requires CSC 1401
-    if (course.course_code === "CSC 2302") {
-      const hasCSC1401 = addedCourses.some(code => courseCodesMatch(code, "CSC1401"));
-
-      if (debugMode) {
-        console.log(`Special check for CSC 2302 - Has CSC1401: ${hasCSC1401}`);
-      }
-
-      if (hasCSC1401) return true;
-    }
-
-    // Prerequisites are in the format of AND of ORs
-    // Each outer array element is an AND condition
-    // Each inner array element is an OR condition
-    const result = course.prerequisites.every(orGroup => {
-      // Handle case where orGroup is not an array (direct prerequisite object)
-      if (!Array.isArray(orGroup)) {
-        const prereqValue = (orGroup as unknown as Prerequisite).value;
-        const normalizedPrereqValue = normalizeCourseCode(prereqValue);
-        const isSatisfied = addedCourses.some(code => courseCodesMatch(code, prereqValue));
-        if (debugMode) console.log(`  Direct prerequisite ${prereqValue} (normalized: ${normalizedPrereqValue}) satisfied: ${isSatisfied}`);
-        return isSatisfied;
-      }
-
-      // If this is an empty group, it's satisfied
-      if (orGroup.length === 0) {
-        if (debugMode) console.log(`  Empty prerequisite group - automatically satisfied`);
-        return true;
-      }
-
-      // If any of the OR conditions are met, this prerequisite group is satisfied
-      const groupResult = orGroup.some(prereq => {
-        // Handle different formats of prerequisites
-        let prereqValue;
-        if (typeof prereq === 'string') {
-          prereqValue = prereq;
-        } else if (prereq && typeof prereq === 'object') {
-          prereqValue = (prereq as unknown as Prerequisite).value;
-        } else {
-          if (debugMode) console.log(`  Invalid prerequisite format:`, prereq);
-          return false; // Invalid prerequisite format
-        }
-
-        // Check if the prerequisite course is in the added courses
-        const isSatisfied = addedCourses.some(code => courseCodesMatch(code, prereqValue));
-        if (debugMode) console.log(`  Prerequisite ${prereqValue} satisfied: ${isSatisfied}`);
-        return isSatisfied;
-      });
-
-      if (debugMode) console.log(`  Prerequisite group satisfied: ${groupResult}`);
-      return groupResult;
-    });
-
-    if (debugMode) console.log(`All prerequisites satisfied for ${course.course_code}: ${result}`);
-    return result;
-  }, [addedCourses, debugMode]);
+  // Check if prerequisites for a course are satisfied by what the student has done before this semester
+  // (the same check the store runs when the course is added)
+  const prerequisitesMet = useCallback(
+    (course: Course) => arePrerequisitesSatisfied(course, prerequisiteContext),
+    [prerequisiteContext]
+  );
 
   // Filter courses based on search term and prerequisites
   const filteredCourses = useMemo(() => {
@@ -994,39 +1035,31 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
     // Filter out courses that are already in the current semester
     filtered = filtered.filter(course => !currentSemesterCourses.includes(course.course_code));
 
-    // Then filter by prerequisites if not showing all courses
+    // Then keep only courses whose prerequisites are satisfied if not showing all courses
     if (!showAllCourses) {
-      filtered = filtered.filter(course => {
-        // Show courses with no prerequisites
-        if (!course.prerequisites || course.prerequisites.length === 0) {
-          return true;
-        }
-
-        // Show courses with empty prerequisite arrays
-        if (course.prerequisites.some(group =>
-          Array.isArray(group) && group.length === 0 ||
-          (group && typeof group === 'object' && Object.keys(group).length === 0)
-        )) {
-          return true;
-        }
-
-        // Show courses with satisfied prerequisites
-        return arePrerequisitesSatisfied(course);
-      });
+      filtered = filtered.filter(prerequisitesMet);
     }
 
     return filtered;
-  }, [courseData, searchTerm, showAllCourses, arePrerequisitesSatisfied, currentSemesterCourses]);
+  }, [courseData, searchTerm, showAllCourses, prerequisitesMet, currentSemesterCourses]);
 
-  // Function to add a course and close the modal
-  const handleAddCourse = (course: Course) => {
-    addCourse(semester, course);
+  // Get the corequisites of a course that are not yet planned in this semester or earlier
+  const getUnplannedCorequisites = useCallback((course: Course) => {
+    return getMissingCorequisites(semesterPlans, semester, course);
+  }, [semesterPlans, semester]);
+
+  // Function to add a course (optionally with its missing corequisites) and close the modal
+  const handleAddCourse = (course: Course, withCorequisites = false) => {
+    if (withCorequisites) {
+      addCourseWithCorequisites(semester, course);
+    } else {
+      addCourse(semester, course);
+    }
 
     // Log the course being added for debugging
     console.log(`Adding course ${course.course_code} to ${semester}`);
-    console.log(`Current added courses:`, addedCourses);
 
-    // Force an immediate update of the addedCourses list
+    // Force an immediate update of the list of earlier courses
     // This ensures that prerequisites are re-evaluated immediately
     const event = new CustomEvent('course-added', {
       detail: { courseCode: course.course_code, semester }
@@ -1039,24 +1072,6 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
     }, 100);
   };
 
-  // Function to test prerequisites for a specific course (for debugging)
-  const testPrerequisites = (courseCode: string) => {
-    if (!courseData) return;
-
-    const course = courseData.find(c => c.course_code === courseCode);
-    if (!course) {
-      console.log(`Course ${courseCode} not found`);
-      return;
-    }
-
-    console.log(`Testing prerequisites for ${courseCode}:`);
-    console.log(`Prerequisites:`, course.prerequisites);
-    console.log(`Added courses:`, addedCourses);
-
-    const result = arePrerequisitesSatisfied(course);
-    console.log(`Prerequisites satisfied: ${result}`);
-  };
-
   // Listen for course-added events to update prerequisites status
   useEffect(() => {
     const handleCourseAdded = (event: Event) => {
@@ -1129,50 +1144,23 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
                   </label>
               </div>
 
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    id="debugMode"
-                    checked={debugMode}
-                    onChange={() => setDebugMode(!debugMode)}
-                    className="rounded text-blue-500 focus:ring-blue-500 bg-white/5 border-white/10"
-                  />
-                  <label htmlFor="debugMode" className="text-white/70 text-sm">
-                    Debug mode
-                  </label>
-                </div>
-
                 <div className="text-white/70 text-sm">
                   {!showAllCourses && <span>Showing available courses only</span>}
                 </div>
               </div>
-
-              {debugMode && (
-                <div className="p-2 bg-gray-800 rounded-lg">
-                  <div className="text-white/70 text-sm mb-2">Debug Tools:</div>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => testPrerequisites('CSC 2302')}
-                      className="px-2 py-1 bg-blue-500/20 text-blue-300 rounded text-xs"
-                    >
-                      Test CSC 2302
-                    </button>
-                    <button
-                      onClick={() => console.log('Added courses:', addedCourses)}
-                      className="px-2 py-1 bg-green-500/20 text-green-300 rounded text-xs"
-                    >
-                      Log Added Courses
-                    </button>
-                  </div>
-                </div>
-              )}
             </div>
 
             {/* Course list */}
             <div className="overflow-y-auto max-h-[50vh] p-6 space-y-3 custom-scrollbar">
-                  {filteredCourses.map((course) => (
+                  {filteredCourses.map((course) => {
+                    const missingCorequisites = getUnplannedCorequisites(course);
+                    const conditions = getPrerequisiteConditions(getCoursePrerequisites(course))
+                      .map(condition => explainCondition(condition, studentConditions));
+                    const permissionGranted = hasInstructorPermission(course);
+
+                    return (
+                    <div key={course.course_code} className="space-y-2">
                     <motion.button
-                      key={course.course_code}
                       whileHover={{ scale: 1.02 }}
                   onClick={() => handleAddCourse(course)}
                   className="w-full group relative overflow-hidden rounded-xl bg-white/5 border border-white/10 p-4 hover:bg-white/10 hover:border-white/20 transition-all duration-300"
@@ -1184,25 +1172,92 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
                     <div className="flex-1 text-left">
                       <div className="font-semibold text-white">{course.course_code}</div>
                       <div className="text-sm text-gray-400 mt-1">{course.course_name}</div>
+
+                      {/* Standing, placement and other non-course conditions */}
+                      {conditions.length > 0 && (
+                        <ul className="mt-2 space-y-0.5 text-xs">
+                          {conditions.map(({ condition, met, reason }) => (
+                            <li key={formatPrerequisite(condition)} className={met ? 'text-green-300' : 'text-red-300'}>
+                              {met ? '✓' : '✗'} {formatPrerequisite(condition)}: <span className="text-gray-400">{reason}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {permissionGranted && (
+                        <div className="mt-2 text-xs text-blue-300">Instructor permission granted — prerequisites waived</div>
+                      )}
                         </div>
                     <div className="flex-shrink-0 ml-4 flex flex-col items-end space-y-2">
                       <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-blue-500/20 via-purple-500/20 to-pink-500/20 text-white border border-white/10">
                             {course.credits} Credits
                           </span>
-                          {course.prerequisites && course.prerequisites.length > 0 &&
-                        course.prerequisites.some(group => Array.isArray(group) ? group.length > 0 : group) && (
+                          {getCoursePrerequisites(course) && (
                           <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
-                            arePrerequisitesSatisfied(course)
+                            prerequisitesMet(course)
                               ? "bg-green-500/20 text-green-300 border-green-500/30"
                               : "bg-red-500/20 text-red-300 border-red-500/30"
                           } border`}>
-                            {arePrerequisitesSatisfied(course) ? "Prerequisites Met" : "Prerequisites Not Met"}
+                            {prerequisitesMet(course) ? "Prerequisites Met" : "Prerequisites Not Met"}
+                            </span>
+                          )}
+                          {missingCorequisites.length > 0 && (
+                            <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-300 border border-yellow-500/30">
+                              Corequisite: {missingCorequisites.map(formatCourseCode).join(', ')}
                             </span>
                           )}
                         </div>
                       </div>
                     </motion.button>
-                  ))}
+
+                    {/* Offer to add the missing corequisites in the same action */}
+                    {missingCorequisites.length > 0 && (
+                      <button
+                        onClick={() => handleAddCourse(course, true)}
+                        className="w-full px-4 py-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 text-sm hover:bg-yellow-500/20 transition-colors"
+                      >
+                        Add {course.course_code} together with {missingCorequisites.map(formatCourseCode).join(', ')}
+                      </button>
+                    )}
+
+                    {/* Explain what is missing and where it could be planned */}
+                    {!prerequisitesMet(course) && (
+                      <div className="rounded-lg border border-red-500/20 bg-red-500/5">
+                        <button
+                          onClick={() => setExplainedCourse(explainedCourse === course.course_code ? null : course.course_code)}
+                          className="w-full px-4 py-2 flex items-center justify-between text-sm text-red-300 hover:text-red-200 transition-colors"
+                        >
+                          <span>Why can&apos;t I take this?</span>
+                          <svg
+                            className={`w-4 h-4 transition-transform ${explainedCourse === course.course_code ? 'rotate-180' : ''}`}
+                            fill="none" viewBox="0 0 24 24" stroke="currentColor"
+                          >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                          </svg>
+                        </button>
+                        {explainedCourse === course.course_code && (
+                          <div className="px-4 pb-4">
+                            <PrerequisiteExplanation
+                              explanation={explainUnmetPrerequisites(semesterPlans, semester, course, userInfo, courseData)}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Record instructor permission for a course with prerequisites */}
+                    {getCoursePrerequisites(course) && (permissionGranted || !prerequisitesMet(course)) && (
+                      <button
+                        onClick={() => toggleInstructorPermission(course.course_code)}
+                        className="w-full px-4 py-2 rounded-lg bg-blue-500/10 border border-blue-500/30 text-blue-300 text-sm hover:bg-blue-500/20 transition-colors"
+                      >
+                        {permissionGranted
+                          ? `Withdraw instructor permission for ${course.course_code}`
+                          : `I have instructor permission for ${course.course_code}`}
+                      </button>
+                    )}
+                    </div>
+                    );
+                  })}
 
               {/* Empty state when no courses match the search */}
               {filteredCourses.length === 0 && (
@@ -1230,14 +1285,17 @@ function AddCourseButton({ semester, type }: { semester: string; type: 'regular'
 }
 
 // ErrorMessage component that displays validation errors to the user
-function ErrorMessage({ message }: { message: string }) {
+// Prerequisite errors come with an explanation that can be expanded
+function ErrorMessage({ message, explanation }: { message: string; explanation: PrerequisiteExplanationDetails | null }) {
   // State to track if the error message is visible
   const [visible, setVisible] = useState(true);
+  const [showDetails, setShowDetails] = useState(false);
 
-  // Automatically hide the error message after 5 seconds
+  // Automatically hide the error message after 5 seconds (unless the details are open)
   useEffect(() => {
     // Reset visibility when message changes
     setVisible(true);
+    if (showDetails) return;
 
     // Set a timeout to hide the message
     const timer = setTimeout(() => {
@@ -1246,7 +1304,12 @@ function ErrorMessage({ message }: { message: string }) {
 
     // Clean up the timeout when component unmounts or message changes
     return () => clearTimeout(timer);
-  }, [message]);
+  }, [message, explanation, showDetails]);
+
+  // Close the details along with a new message
+  useEffect(() => {
+    setShowDetails(false);
+  }, [message, explanation]);
 
   // If not visible, don't render anything
   if (!visible) return null;
@@ -1260,15 +1323,15 @@ function ErrorMessage({ message }: { message: string }) {
       className="fixed inset-0 flex items-center justify-center z-50"
     >
       <div className="absolute inset-0 bg-black/20 backdrop-blur-sm" onClick={() => setVisible(false)} />
-      <div className="relative bg-red-500/20 backdrop-blur-md border border-red-500/30 rounded-xl px-6 py-4 shadow-xl max-w-md mx-auto">
+      <div className={`relative bg-red-500/20 backdrop-blur-md border border-red-500/30 rounded-xl px-6 py-4 shadow-xl mx-auto ${showDetails ? 'max-w-2xl' : 'max-w-md'}`}>
         <div className="flex items-center space-x-3">
           {/* Error icon */}
           <svg className="w-6 h-6 text-red-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
 
-          {/* Error message text */}
-          <p className="text-white">{message}</p>
+          {/* Error message text (may span several lines when listing violations) */}
+          <p className="text-white whitespace-pre-line">{message}</p>
 
           {/* Close button */}
                 <button
@@ -1280,26 +1343,93 @@ function ErrorMessage({ message }: { message: string }) {
                   </svg>
                 </button>
             </div>
+
+        {/* Why the prerequisites are not satisfied */}
+        {explanation && (
+          <div className="mt-3">
+            <button
+              onClick={() => setShowDetails(!showDetails)}
+              className="text-sm text-red-200 underline hover:text-white transition-colors"
+            >
+              {showDetails ? 'Hide details' : "Why can't I take this?"}
+            </button>
+            {showDetails && (
+              <div className="mt-3 max-h-[50vh] overflow-y-auto custom-scrollbar">
+                <PrerequisiteExplanation explanation={explanation} />
+              </div>
+            )}
+          </div>
+        )}
           </div>
         </motion.div>
   );
 }
 
 // SemesterGroup component that displays a semester with its courses
-function SemesterGroup({ semester, type }: {
+function SemesterGroup({ semester, type, criticalPath, highlightCritical, onSimulateFailure }: {
   semester: string;       // The semester name (e.g., "Fall 2024")
   type: 'regular' | 'summer'; // The type of semester (affects credit limits)
+  criticalPath: CriticalPathAnalysis | null; // Earliest-term analysis shown on the courses
+  highlightCritical: boolean; // Whether to mark courses on the critical path
+  onSimulateFailure: (semester: string, courseCode: string) => void; // Opens the failure simulation for a course
 }) {
   // Get state and actions from the global store
-  const { semesterPlans, removeCourse } = useDegreePlanStore();
+  const {
+    semesterPlans,
+    removeCourse,
+    moveCourse,
+    togglePinnedCourse,
+    setCourseRecord,
+    setSemesterLocked,
+    userInfo
+  } = useDegreePlanStore();
+
+  // State to highlight the semester while a course is dragged over it
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // State for the weekly schedule builder
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
 
   // Find the semester plan that matches this semester
   const semesterPlan = useMemo(() => {
     return semesterPlans.find(plan => plan.semester === semester);
   }, [semesterPlans, semester]);
 
+  // Locked semesters (ended ones, unless the student unlocked them) take no edits
+  const locked = semesterPlan ? isSemesterLocked(semesterPlan) : false;
+
+  // Courses whose prerequisites fail only because a grade is below the minimum, by course code
+  const gradeIssues = useMemo(() => {
+    const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+    const context = createPrerequisiteContext(semesterPlans.slice(0, Math.max(semesterIndex, 0)), userInfo);
+    return new Map((semesterPlan?.courses ?? []).map(course => [
+      course.course_code,
+      arePrerequisitesSatisfied(course, context) ? [] : getInsufficientGrades(getCoursePrerequisites(course), context)
+    ]));
+  }, [semesterPlans, semesterPlan, semester, userInfo]);
+
+  // Accept only courses dragged from other semesters of this plan
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (locked || !e.dataTransfer.types.includes(COURSE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  // Move the dropped course into this semester (the store validates the move)
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    const data = e.dataTransfer.getData(COURSE_DRAG_TYPE);
+    if (!data) return;
+
+    const { from, courseCode } = JSON.parse(data) as { from: string; courseCode: string };
+    moveCourse(from, semester, courseCode);
+  };
+
   // Calculate the credit limit based on semester type
-  const creditLimit = type === 'summer' ? 10 : 22;
+  const creditLimit = getCreditLimit(type);
 
   // Calculate the percentage of credits used
   const creditPercentage = semesterPlan
@@ -1314,7 +1444,14 @@ function SemesterGroup({ semester, type }: {
   };
 
   return (
-    <div className="rounded-xl bg-white/5 border border-white/10 overflow-hidden shadow-xl">
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`rounded-xl bg-white/5 border overflow-hidden shadow-xl transition-colors duration-300 ${
+        isDragOver ? 'border-blue-400/60 bg-blue-500/10' : 'border-white/10'
+      }`}
+    >
       {/* Semester header */}
       <div className="p-6 border-b border-white/10">
         <div className="flex justify-between items-start">
@@ -1340,11 +1477,51 @@ function SemesterGroup({ semester, type }: {
         </div>
           </div>
 
-          {/* Add Course button */}
-        <AddCourseButton semester={semester} type={type} />
+          <div className="flex items-center space-x-2">
+            {/* Lock button */}
+            <button
+              onClick={() => setSemesterLocked(semester, !locked)}
+              title={locked ? `Unlock ${semester} to change its courses` : `Lock ${semester} against edits`}
+              className={`p-2 rounded-lg border transition-colors ${
+                locked
+                  ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300 hover:bg-yellow-500/20'
+                  : 'bg-white/5 border-white/10 text-gray-300 hover:text-white hover:bg-white/10'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d={locked
+                    ? 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z'
+                    : 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'}
+                />
+              </svg>
+            </button>
+
+            {/* Weekly schedule button */}
+            {semesterPlan && semesterPlan.courses.length > 0 && (
+              <button
+                onClick={() => setIsScheduleOpen(true)}
+                title="Weekly schedule"
+                className="p-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </button>
+            )}
+
+            {/* Add Course button (hidden while the semester is locked) */}
+            {!locked && <AddCourseButton semester={semester} type={type} />}
+          </div>
       </div>
       </div>
 
+      {/* Weekly schedule builder */}
+      <ScheduleBuilder semester={semester} isOpen={isScheduleOpen} onClose={() => setIsScheduleOpen(false)} />
+
       {/* Course list */}
       <div className="p-6 space-y-4">
       <AnimatePresence>
@@ -1353,7 +1530,18 @@ function SemesterGroup({ semester, type }: {
           <CourseNode
             key={course.course_code}
             course={course}
+            semester={semester}
             onRemove={() => removeCourse(semester, course.course_code)}
+            isPinned={semesterPlan.pinnedCourses?.includes(course.course_code) ?? false}
+            onTogglePin={() => togglePinnedCourse(semester, course.course_code)}
+            record={getCourseRecord(semesterPlan, course.course_code)}
+            onRecordChange={(record) => setCourseRecord(semester, course.course_code, record)}
+            locked={locked}
+            attempt={getAttemptNumber(semesterPlans, semester, course.course_code)}
+            onSimulateFailure={() => onSimulateFailure(semester, course.course_code)}
+            gradeIssues={gradeIssues.get(course.course_code) ?? []}
+            criticalPath={criticalPath}
+            highlightCritical={highlightCritical}
           />
         ))}
       </AnimatePresence>
@@ -1379,11 +1567,14 @@ function SemesterGroup({ semester, type }: {
 }
 
 // YearGroup component that displays a full academic year with its semesters
-function YearGroup({ year, semesters, index, refreshKey }: {
+function YearGroup({ year, semesters, index, refreshKey, criticalPath, highlightCritical, onSimulateFailure }: {
   year: number;           // The year number (e.g., 1, 2, 3, 4)
   semesters: any[];       // Array of semesters in this academic year
   index: number;          // Index for animation delay
   refreshKey: number;     // Key to force re-renders
+  criticalPath: CriticalPathAnalysis | null; // Earliest-term analysis shown on the courses
+  highlightCritical: boolean; // Whether to mark courses on the critical path
+  onSimulateFailure: (semester: string, courseCode: string) => void; // Opens the failure simulation for a course
 }) {
   return (
     <motion.div
@@ -1425,6 +1616,9 @@ function YearGroup({ year, semesters, index, refreshKey }: {
               semester={semester.name}
               type={semester.type}
               key={`${semester.name}-${refreshKey}`}
+              criticalPath={criticalPath}
+              highlightCritical={highlightCritical}
+              onSimulateFailure={onSimulateFailure}
             />
           </motion.div>
           ))}
@@ -1435,10 +1629,28 @@ function YearGroup({ year, semesters, index, refreshKey }: {
 
 export default function DegreePlanPage() {
   const router = useRouter();
-  const { courseData, error, resetPlan, semesterPlans, userInfo, setCourseData, setUserInfo } = useDegreePlanStore();
+  const { courseData, error, errorExplanation, resetPlan, semesterPlans, userInfo, setCourseData, setUserInfo } = useDegreePlanStore();
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0); // Add a refresh key to force re-renders
+  const [view, setView] = useState<'semesters' | 'graph'>('semesters'); // Semester list or prerequisite graph
+
+  // Critical path options: summer terms count when the plan already uses them
+  const [includeSummer, setIncludeSummer] = useState(
+    () => semesterPlans.some(plan => plan.type === 'summer' && plan.courses.length > 0)
+  );
+  const [highlightCritical, setHighlightCritical] = useState(true);
+
+  // Course whose failure is being simulated (null when the simulation is closed)
+  const [failureTarget, setFailureTarget] = useState<{ semester: string; courseCode: string } | null>(null);
+
+  // Earliest terms and critical path of the required and planned courses
+  const criticalPath = useMemo(() => {
+    if (!courseData) return null;
+    const requiredCodes = getDegreeRequirements(userInfo?.major ?? 'CS', userInfo?.totalCreditsToGraduate)
+      .categories.flatMap(category => category.required);
+    return analyzeCriticalPath(courseData, semesterPlans, userInfo, requiredCodes, { includeSummer });
+  }, [courseData, semesterPlans, userInfo, includeSummer]);
 
   // Add custom scrollbar styles
   useEffect(() => {
@@ -1486,6 +1698,32 @@ export default function DegreePlanPage() {
     };
   }, []);
 
+  // Keyboard shortcuts for undo (Ctrl/Cmd+Z) and redo (Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields to their own undo behaviour
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      const { undo, redo } = useDegreePlanStore.getState();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
   // Check for import query parameter and open import modal if present
   useEffect(() => {
     const searchParams = new URLSearchParams(window.location.search);
@@ -1497,33 +1735,25 @@ export default function DegreePlanPage() {
     }
   }, [router]);
 
-  // Check for imported data in localStorage
+  // Check for imported data left in localStorage by earlier versions of the app
+  // (plans are now persisted by the store itself)
   useEffect(() => {
-    const { addCourse } = useDegreePlanStore.getState();
+    const { importPlan } = useDegreePlanStore.getState();
     const importedUserInfo = localStorage.getItem('importedUserInfo');
     const importedSemesters = localStorage.getItem('importedSemesters');
 
     if (importedUserInfo && !userInfo) {
       try {
         const parsedUserInfo = JSON.parse(importedUserInfo);
-        setUserInfo(parsedUserInfo);
 
-        // If we have imported semesters, add them to the plan
+        // If we have imported semesters, load them together with the user info
         if (importedSemesters) {
-          const parsedSemesters = JSON.parse(importedSemesters);
-
-          // Reset the plan first
-          resetPlan();
-
-          // Add courses to each semester
-          parsedSemesters.forEach((sem: any) => {
-            sem.courses.forEach((course: any) => {
-              addCourse(sem.name, course);
-            });
-          });
+          importPlan(parsedUserInfo, JSON.parse(importedSemesters));
 
           // Clear localStorage after use
           localStorage.removeItem('importedSemesters');
+        } else {
+          setUserInfo(parsedUserInfo);
         }
 
         localStorage.removeItem('importedUserInfo');
@@ -1531,7 +1761,7 @@ export default function DegreePlanPage() {
         console.error('Error parsing imported data:', error);
       }
     }
-  }, [userInfo, setUserInfo, resetPlan]);
+  }, [userInfo, setUserInfo]);
 
   // Redirect to user-info page if userInfo is not set and not importing
   useEffect(() => {
@@ -1748,21 +1978,69 @@ export default function DegreePlanPage() {
               </div>
             </div>
           ) : (
-            displayYears.map((year, index) => (
-              <YearGroup
-                key={year.year}
-                year={year.year}
-                semesters={year.semesters}
-                index={index}
-                refreshKey={refreshKey}
-              />
-            ))
+            <>
+              {/* View toggle */}
+              <div className="flex justify-end mb-6">
+                <div className="flex rounded-lg bg-white/5 border border-white/10 p-1">
+                  {(['semesters', 'graph'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-4 py-1.5 rounded-md text-sm transition-colors ${
+                        view === option ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {option === 'semesters' ? 'Semesters' : 'Prerequisite Graph'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {view === 'graph' ? (
+                <PrerequisiteGraph />
+              ) : (
+                <>
+                  <CriticalPathSummary
+                    analysis={criticalPath}
+                    includeSummer={includeSummer}
+                    onIncludeSummerChange={setIncludeSummer}
+                    highlight={highlightCritical}
+                    onHighlightChange={setHighlightCritical}
+                  />
+                  {displayYears.map((year, index) => (
+                    <YearGroup
+                      key={year.year}
+                      year={year.year}
+                      semesters={year.semesters}
+                      index={index}
+                      refreshKey={refreshKey}
+                      criticalPath={criticalPath}
+                      highlightCritical={highlightCritical}
+                      onSimulateFailure={(semester, courseCode) => setFailureTarget({ semester, courseCode })}
+                    />
+                  ))}
+                </>
+              )}
+            </>
           )}
         </div>
       </main>
 
+      {/* Failure simulation for a planned course */}
+      <FailureSimulationModal
+        isOpen={failureTarget !== null}
+        onClose={() => setFailureTarget(null)}
+        semester={failureTarget?.semester ?? ''}
+        courseCode={failureTarget?.courseCode ?? ''}
+      />
+
       {/* Error message */}
-      {error && <ErrorMessage message={error} />}
+      {error && (
+        <ErrorMessage
+          message={error}
+          explanation={errorExplanation}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * Shared Plan Viewer Page
+ *
+ * This page shows a degree plan received as a link (see lib/shareLink.ts).
+ * It features:
+ * - A read-only view of the shared student's information and semesters by academic year
+ * - The status and grade of courses the student has already taken
+ * - A notice listing courses of the link that the current catalog does not contain
+ * - A "Fork into my planner" button that copies the plan into the visitor's own planner
+ *
+ * The plan is read from the URL fragment, so nothing about it reaches the server.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { useDegreePlanStore, createPlansForUser } from '@/lib/store';
+import type { Course, SemesterPlan } from '@/lib/store';
+import { decodeSharedPlan, getEncodedPlanFromHash, SharedPlan } from '@/lib/shareLink';
+import { groupSemestersByAcademicYear } from '@/lib/docxExport';
+import { COURSE_STATUSES } from '@/lib/courseStatus';
+
+// Full names of the majors
+const MAJOR_NAMES: Record<string, string> = {
+  CS: 'Computer Science',
+  BA: 'Business Administration',
+  IS: 'International Studies'
+};
+
+export default function SharePage() {
+  const router = useRouter();
+  const { courseData, setCourseData, userInfo, semesterPlans, importPlan } = useDegreePlanStore();
+
+  // Decoded plan, or the reason it could not be shown
+  const [sharedPlan, setSharedPlan] = useState<SharedPlan | null>(null);
+  const [error, setError] = useState('');
+
+  // Load the course catalog if the planner has not loaded it yet
+  useEffect(() => {
+    if (courseData) return;
+    const loadCourseData = async () => {
+      try {
+        const data = (await import('../../../jz_scraper_final.json')).default;
+        if (Array.isArray(data)) {
+          setCourseData(data);
+        } else {
+          throw new Error('Invalid course data format');
+        }
+      } catch (err) {
+        console.error('Error loading course data:', err);
+        setError('The course catalog could not be loaded. Please refresh the page.');
+      }
+    };
+    loadCourseData();
+  }, [courseData, setCourseData]);
+
+  // Decode the plan in the URL fragment (again whenever the fragment changes)
+  useEffect(() => {
+    if (!courseData) return;
+    const catalog: Course[] = courseData;
+
+    const readHash = async () => {
+      const encoded = getEncodedPlanFromHash(window.location.hash);
+      if (!encoded) {
+        setSharedPlan(null);
+        setError('This link does not contain a plan. Ask for the full link to be sent again.');
+        return;
+      }
+
+      try {
+        setSharedPlan(await decodeSharedPlan(encoded, catalog));
+        setError('');
+      } catch (err) {
+        setSharedPlan(null);
+        setError(err instanceof Error ? err.message : 'This plan link could not be opened.');
+      }
+    };
+
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => window.removeEventListener('hashchange', readHash);
+  }, [courseData]);
+
+  // Semesters of the shared timeline with their courses, grouped by academic year
+  const academicYears = useMemo(() => {
+    if (!sharedPlan) return [];
+
+    const plans: SemesterPlan[] = createPlansForUser(sharedPlan.userInfo).map(plan => {
+      const courses = sharedPlan.semesters.find(semester => semester.name === plan.semester)?.courses ?? [];
+      return {
+        ...plan,
+        courses,
+        credits: courses.reduce((total, course) => total + (parseInt(course.credits) || 0), 0)
+      };
+    });
+
+    return groupSemestersByAcademicYear(plans.map(plan => plan.semester), plans);
+  }, [sharedPlan]);
+
+  const totalCredits = academicYears.reduce((total, year) => total + year.credits, 0);
+
+  // Status and grade shown next to a course that is not just planned (e.g., "Failed F")
+  const getRecordLabel = (semesterName: string, courseCode: string) => {
+    const record = sharedPlan?.semesters.find(semester => semester.name === semesterName)?.courseRecords?.[courseCode];
+    if (!record || record.status === 'planned') return null;
+    const label = COURSE_STATUSES.find(status => status.value === record.status)?.label ?? record.status;
+    return record.grade ? `${label} ${record.grade}` : label;
+  };
+
+  // Copy the shared plan into the visitor's planner (undoable from the planner's history)
+  const forkPlan = () => {
+    if (!sharedPlan) return;
+
+    const hasOwnPlan = userInfo && semesterPlans.some(plan => plan.courses.length > 0);
+    if (hasOwnPlan && !window.confirm(
+      'This replaces your current plan and student information with the shared plan. You can undo it from the planner\'s history. Continue?'
+    )) {
+      return;
+    }
+
+    importPlan(sharedPlan.userInfo, sharedPlan.semesters);
+    router.push('/degree-plan');
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-white relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 bg-gradient-radial from-[#1e293b] to-transparent opacity-40" />
+      <div className="absolute inset-0 bg-[url('/grid.svg')] opacity-10" />
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-white/10">
+        <nav className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-20">
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex items-center space-x-4"
+            >
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 p-0.5">
+                <div className="w-full h-full rounded-xl bg-[#0f172a] flex items-center justify-center">
+                  <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                  </svg>
+                </div>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400">
+                  AUI Track
+                </span>
+                <span className="text-sm text-gray-400">Shared plan (read-only)</span>
+              </div>
+            </motion.div>
+
+            {/* Fork button */}
+            {sharedPlan && (
+              <motion.button
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                onClick={forkPlan}
+                className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white flex items-center space-x-2 hover:opacity-90 transition-opacity"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                </svg>
+                <span>Fork into my planner</span>
+              </motion.button>
+            )}
+          </div>
+        </nav>
+      </header>
+
+      <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Error message */}
+        {error && (
+          <div className="max-w-xl mx-auto mt-16 p-6 rounded-xl bg-red-500/20 border border-red-500/30 text-red-400 text-center">
+            {error}
+          </div>
+        )}
+
+        {/* Loading message */}
+        {!error && !sharedPlan && (
+          <p className="text-center text-gray-400 mt-16">Opening shared plan...</p>
+        )}
+
+        {sharedPlan && (
+          <>
+            {/* Student information */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="rounded-xl bg-white/5 border border-white/10 p-6 mb-6 flex flex-wrap items-center justify-between gap-4"
+            >
+              <div>
+                <h1 className="text-2xl font-bold text-white">{sharedPlan.userInfo.name}</h1>
+                <p className="text-gray-400">
+                  {MAJOR_NAMES[sharedPlan.userInfo.major] ?? sharedPlan.userInfo.major}
+                  {' • '}
+                  {academicYears.length > 0 && `${academicYears[0].semesters[0].name} - ${academicYears[academicYears.length - 1].semesters.slice(-1)[0].name}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <span className="text-2xl font-bold text-white">{totalCredits}</span>
+                <span className="text-gray-400"> / {sharedPlan.userInfo.totalCreditsToGraduate} credits planned</span>
+              </div>
+            </motion.div>
+
+            {/* Courses the catalog does not know */}
+            {sharedPlan.missingCodes.length > 0 && (
+              <div className="mb-6 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300 text-sm">
+                These courses are not in the current catalog and are not shown: {sharedPlan.missingCodes.join(', ')}
+              </div>
+            )}
+
+            {/* Semesters by academic year */}
+            <div className="space-y-8">
+              {academicYears.map(year => (
+                <section key={year.academicYear}>
+                  <div className="flex items-center justify-between mb-3">
+                    <h2 className="text-lg font-semibold text-white">Academic Year {year.academicYear}</h2>
+                    <span className="text-sm text-gray-400">{year.credits} credits</span>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {year.semesters.map(semester => (
+                      <div key={semester.name} className="rounded-xl bg-[#1e293b] border border-white/10 p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <h3 className="font-medium text-white">{semester.name}</h3>
+                          <span className="text-xs text-gray-400">{semester.credits} credits</span>
+                        </div>
+
+                        {semester.courses.length === 0 ? (
+                          <p className="text-sm text-gray-500 italic">No courses planned</p>
+                        ) : (
+                          <ul className="space-y-2">
+                            {semester.courses.map(course => {
+                              const recordLabel = getRecordLabel(semester.name, course.course_code);
+                              return (
+                                <li key={course.course_code} className="flex items-start justify-between gap-2 p-2 rounded-lg bg-white/5">
+                                  <div className="min-w-0">
+                                    <p className="text-sm font-medium text-white">{course.course_code}</p>
+                                    <p className="text-xs text-gray-400 truncate">{course.course_name}</p>
+                                  </div>
+                                  <div className="text-right">
+                                    <span className="block text-xs text-gray-400 whitespace-nowrap">{parseInt(course.credits) || 0} cr</span>
+                                    {recordLabel && (
+                                      <span className="block text-xs text-blue-300 whitespace-nowrap">{recordLabel}</span>
+                                    )}
+                                  </div>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 import { useDegreePlanStore } from '@/lib/store';
+import { PLACEMENT_OPTIONS } from '@/lib/prerequisites';
 
 /**
  * UserInfoPage component
@@ -32,8 +33,8 @@ export default function UserInfoPage() {
   // Get the router for navigation
   const router = useRouter();
 
-  // Get the setUserInfo action from the global store
-  const { setUserInfo } = useDegreePlanStore();
+  // Get the saved user info and the actions to update it from the global store
+  const { userInfo, updateUserInfo } = useDegreePlanStore();
 
   // State for personal information
   const [name, setName] = useState('');
@@ -46,6 +47,9 @@ export default function UserInfoPage() {
   const [endSemester, setEndSemester] = useState('Spring');
   const [endYear, setEndYear] = useState(2028);
 
+  // State for placement results (kept from the saved user info)
+  const [placements, setPlacements] = useState<string[]>(userInfo?.placements ?? []);
+
   // State for form navigation and validation
   const [step, setStep] = useState(1);
   const [error, setError] = useState('');
@@ -92,8 +96,8 @@ export default function UserInfoPage() {
         major === 'BA' ? 128 :
         major === 'IS' ? 111 : 136;
 
-      // Save user info to store
-      setUserInfo({
+      // Save user info to store; a changed timeline also refits the semesters of every plan
+      updateUserInfo({
         name,
         studentId,
         major,
@@ -101,7 +105,9 @@ export default function UserInfoPage() {
         startYear,
         endSemester,
         endYear,
-        totalCreditsToGraduate
+        totalCreditsToGraduate,
+        placements,
+        instructorPermissions: userInfo?.instructorPermissions
       });
 
       // Navigate to degree planner
@@ -261,6 +267,29 @@ export default function UserInfoPage() {
                       </select>
                     </div>
                   </div>
+
+                  {/* Placement results (some courses require them instead of a prerequisite course) */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Placement Results
+                    </label>
+                    <p className="text-xs text-gray-500 mb-2">Check every placement you received. Leave empty if none apply.</p>
+                    <div className="space-y-1">
+                      {PLACEMENT_OPTIONS.map(option => (
+                        <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={placements.includes(option.value)}
+                            onChange={(e) => setPlacements(e.target.checked
+                              ? [...placements, option.value]
+                              : placements.filter(value => value !== option.value))}
+                            className="rounded border-white/20 bg-white/5"
+                          />
+                          <span>{option.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               )}
 
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+import type { ImportedSemester } from '@/lib/store';
+import {
+  getMajorRequirements,
+  suggestDegreePlan,
+  SPECIALIZATION_TRACKS,
+  SuggestedSemester
+} from '@/lib/planSuggestion';
+
+interface AutoFillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Key identifying a suggested course within its semester
+const selectionKey = (semester: string, courseCode: string) => `${semester}|${courseCode}`;
+
+// Modal that suggests courses for the empty parts of the plan
+// The student can accept the whole suggestion, keep only the checked courses, or reject it
+export default function AutoFillModal({ isOpen, onClose }: AutoFillModalProps) {
+  const { semesterPlans, courseData, userInfo, applySuggestedCourses } = useDegreePlanStore();
+
+  const requirements = getMajorRequirements(userInfo?.major ?? 'CS');
+
+  // Generator options
+  const [includeSummer, setIncludeSummer] = useState(() => semesterPlans.some(plan => plan.type === 'summer'));
+  const [specialization, setSpecialization] = useState<string | null>(null);
+
+  // Run the generator whenever the modal opens or the options change
+  const suggestion = useMemo(() => {
+    if (!isOpen || !courseData || !requirements) return null;
+    return suggestDegreePlan(semesterPlans, courseData, requirements, { includeSummer, specialization });
+  }, [isOpen, semesterPlans, courseData, requirements, includeSummer, specialization]);
+
+  // Suggested courses the student wants to keep (all of them by default)
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    if (!suggestion) return;
+    setSelected(new Set(
+      suggestion.semesters.flatMap(sem => sem.courses.map(course => selectionKey(sem.semester, course.course_code)))
+    ));
+  }, [suggestion]);
+
+  const totalSuggested = suggestion?.semesters.reduce((total, sem) => total + sem.courses.length, 0) ?? 0;
+
+  // Toggle a single suggested course
+  const toggleCourse = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelected(next);
+  };
+
+  // Toggle every course of a suggested semester at once
+  const toggleSemester = (sem: SuggestedSemester) => {
+    const keys = sem.courses.map(course => selectionKey(sem.semester, course.course_code));
+    const allSelected = keys.every(key => selected.has(key));
+    const next = new Set(selected);
+    keys.forEach(key => (allSelected ? next.delete(key) : next.add(key)));
+    setSelected(next);
+  };
+
+  // Add the chosen courses to the plan and close the modal
+  const applySuggestion = (keepAll: boolean) => {
+    if (!suggestion) return;
+    const semesters: ImportedSemester[] = suggestion.semesters.map(sem => ({
+      name: sem.semester,
+      courses: sem.courses.filter(course =>
+        keepAll || selected.has(selectionKey(sem.semester, course.course_code))
+      )
+    }));
+    applySuggestedCourses(semesters);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+            onClick={onClose}
+          />
+
+          {/* Modal content */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="relative bg-[#1e293b] border border-white/10 rounded-xl w-full max-w-3xl max-h-[85vh] flex flex-col pointer-events-auto">
+              {/* Header */}
+              <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-white">Auto-fill My Plan</h3>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Suggested courses for your timeline. Uncheck anything you don&apos;t want to keep.
+                  </p>
+                </div>
+                <button onClick={onClose} className="text-white/50 hover:text-white">
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Generator options */}
+              <div className="px-6 py-4 border-b border-white/10 flex flex-wrap items-center gap-4">
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={includeSummer}
+                    onChange={(e) => setIncludeSummer(e.target.checked)}
+                    className="rounded border-white/20 bg-white/5"
+                  />
+                  <span>Use summer semesters</span>
+                </label>
+                <select
+                  value={specialization ?? ''}
+                  onChange={(e) => setSpecialization(e.target.value || null)}
+                  className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="" className="bg-[#1e293b]">No specialization</option>
+                  {SPECIALIZATION_TRACKS.map(track => (
+                    <option key={track.id} value={track.id} className="bg-[#1e293b]">{track.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Suggested semesters */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+                {!requirements && (
+                  <p className="text-center text-gray-400 py-8">Auto-fill is not available for this major yet.</p>
+                )}
+                {requirements && !courseData && (
+                  <p className="text-center text-gray-400 py-8">The course catalog is still loading.</p>
+                )}
+                {suggestion && totalSuggested === 0 && suggestion.notInCatalog.length === 0 && (
+                  <p className="text-center text-gray-400 py-8">Your plan already includes every suggested course.</p>
+                )}
+
+                {/* Generated courses that could not be suggested */}
+                {suggestion && suggestion.notInCatalog.length > 0 && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300 text-sm">
+                    {suggestion.notInCatalog.length} suggested {suggestion.notInCatalog.length === 1 ? 'course is' : 'courses are'} not
+                    in the course catalog and cannot be added automatically: {suggestion.notInCatalog.join(', ')}.
+                    Look for an equivalent course in the catalog.
+                  </div>
+                )}
+
+                {suggestion?.semesters.map(sem => {
+                  const keys = sem.courses.map(course => selectionKey(sem.semester, course.course_code));
+                  return (
+                    <div key={sem.semester} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                      <div className="flex justify-between items-center mb-3">
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={keys.length > 0 && keys.every(key => selected.has(key))}
+                            disabled={keys.length === 0}
+                            onChange={() => toggleSemester(sem)}
+                            className="rounded border-white/20 bg-white/5"
+                          />
+                          <span className="text-sm font-semibold text-white">{sem.semester}</span>
+                        </label>
+                        <span className="text-xs text-gray-400">{sem.credits} Credits</span>
+                      </div>
+                      <div className="space-y-2">
+                        {sem.notInCatalog.map(code => (
+                          <div key={code} className="flex items-center space-x-3 text-sm text-yellow-300/80">
+                            <span className="w-4 text-center">!</span>
+                            <span className="font-medium">{code}</span>
+                            <span className="truncate">Not in the course catalog</span>
+                          </div>
+                        ))}
+                        {sem.courses.map(course => {
+                          const key = selectionKey(sem.semester, course.course_code);
+                          return (
+                            <label key={key} className="flex items-center space-x-3 text-sm text-gray-300">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(key)}
+                                onChange={() => toggleCourse(key)}
+                                className="rounded border-white/20 bg-white/5"
+                              />
+                              <span className="text-white font-medium">{course.course_code}</span>
+                              <span className="truncate">{course.course_name}</span>
+                              <span className="ml-auto text-xs text-gray-500">{parseInt(course.credits)} cr</span>
+                            </label>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {suggestion && suggestion.unscheduled.length > 0 && (
+                  <p className="text-xs text-yellow-400">
+                    No semester left in your timeline for: {suggestion.unscheduled.join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Accept / keep selected / reject */}
+              <div className="p-6 border-t border-white/10 flex justify-end space-x-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors"
+                >
+                  Reject
+                </button>
+                <button
+                  onClick={() => applySuggestion(false)}
+                  disabled={selected.size === 0}
+                  className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Keep selected ({selected.size})
+                </button>
+                <button
+                  onClick={() => applySuggestion(true)}
+                  disabled={totalSuggested === 0}
+                  className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Accept all
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,85 @@
+import type { CriticalPathAnalysis } from '@/lib/criticalPath';
+
+interface CriticalPathSummaryProps {
+  analysis: CriticalPathAnalysis | null;
+  includeSummer: boolean;
+  onIncludeSummerChange: (includeSummer: boolean) => void;
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+}
+
+// Card above the semesters showing the earliest possible graduation and the chains that set it
+export default function CriticalPathSummary({
+  analysis,
+  includeSummer,
+  onIncludeSummerChange,
+  highlight,
+  onHighlightChange
+}: CriticalPathSummaryProps) {
+  if (!analysis) return null;
+
+  return (
+    <div className="mb-8 rounded-xl bg-white/5 border border-white/10 p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Critical Path</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {analysis.minimumGraduationTerm
+              ? <>Prerequisite chains allow finishing the required and planned courses by <span className="text-white font-medium">{analysis.minimumGraduationTerm}</span></>
+              : 'No required or planned courses to analyze yet'}
+            {analysis.creditBoundTerm && (
+              <> · at the credit caps, the total credits need until <span className="text-white font-medium">{analysis.creditBoundTerm}</span></>
+            )}
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-4 text-sm text-gray-300">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeSummer}
+              onChange={(e) => onIncludeSummerChange(e.target.checked)}
+              className="rounded border-white/20 bg-white/5"
+            />
+            <span>Use summer semesters</span>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={highlight}
+              onChange={(e) => onHighlightChange(e.target.checked)}
+              className="rounded border-white/20 bg-white/5"
+            />
+            <span>Highlight on plan</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Chains that set the earliest graduation (delaying any of their courses delays it) */}
+      {analysis.chains.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {analysis.chains.slice(0, 3).map(chain => (
+            <div key={chain.join('-')} className="flex flex-wrap items-center gap-1.5 text-xs">
+              {chain.map((code, i) => (
+                <span key={code} className="flex items-center">
+                  <span className="px-2 py-0.5 rounded-md bg-orange-500/20 border border-orange-500/30 text-orange-200">{code}</span>
+                  {i < chain.length - 1 && <span className="text-gray-500 ml-1.5">→</span>}
+                </span>
+              ))}
+            </div>
+          ))}
+          {analysis.chains.length > 3 && (
+            <p className="text-xs text-gray-500">and {analysis.chains.length - 3} more critical chains</p>
+          )}
+        </div>
+      )}
+
+      {/* Courses no term of the timeline can hold */}
+      {analysis.unreachable.length > 0 && (
+        <p className="mt-3 text-xs text-yellow-300">
+          Cannot be scheduled with your prerequisites and conditions: {analysis.unreachable.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+import { auditDegreePlan, getDegreeRequirements, CategoryAudit } from '@/lib/degreeAudit';
+
+interface DegreeProgressPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Progress bar shared by the overall total and each category
+const ProgressBar = ({ value, max, complete }: { value: number; max: number; complete: boolean }) => (
+  <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+    <div
+      className={`h-full rounded-full ${complete ? 'bg-green-500' : 'bg-gradient-to-r from-blue-500 to-purple-500'}`}
+      style={{ width: `${max > 0 ? Math.min(100, (value / max) * 100) : 0}%` }}
+    />
+  </div>
+);
+
+// Card showing the audit of one requirement category
+const CategoryCard = ({ category }: { category: CategoryAudit }) => (
+  <div className={`p-4 rounded-lg border ${category.isComplete ? 'bg-green-500/5 border-green-500/20' : 'bg-white/5 border-white/10'}`}>
+    <div className="flex justify-between items-center mb-2">
+      <span className="text-sm font-semibold text-white">{category.name}</span>
+      <span className={`text-xs ${category.isComplete ? 'text-green-400' : 'text-gray-400'}`}>
+        {category.satisfiedCredits}/{category.requiredCredits} Credits
+      </span>
+    </div>
+    <ProgressBar value={category.satisfiedCredits} max={category.requiredCredits} complete={category.isComplete} />
+
+    {/* Courses counted toward the category */}
+    {category.appliedCourses.length > 0 && (
+      <div className="flex flex-wrap gap-1.5 mt-3">
+        {category.appliedCourses.map(code => (
+          <span key={code} className="px-2 py-0.5 rounded-md bg-white/10 text-xs text-gray-200">{code}</span>
+        ))}
+      </div>
+    )}
+
+    {/* Required courses missing from the plan */}
+    {category.missingRequired.length > 0 && (
+      <p className="text-xs text-red-400 mt-2">Missing: {category.missingRequired.join(', ')}</p>
+    )}
+
+    {/* Courses that could still complete the category */}
+    {!category.isComplete && category.remainingOptions.length > category.missingRequired.length && (
+      <p className="text-xs text-gray-400 mt-2">
+        Options: {category.remainingOptions.filter(code => !category.missingRequired.includes(code)).join(', ')}
+      </p>
+    )}
+
+    {/* Courses also counted in another category */}
+    {category.doubleCounted.map(course => (
+      <p
+        key={`${course.courseCode}-${course.otherCategory}`}
+        className={`text-xs mt-2 ${course.allowed ? 'text-gray-400' : 'text-yellow-400'}`}
+      >
+        {course.courseCode} also counts toward {course.otherCategory}
+        {course.allowed ? '' : ' (double counting not allowed)'}
+      </p>
+    ))}
+  </div>
+);
+
+// Side panel showing how the plan satisfies each degree requirement
+export default function DegreeProgressPanel({ isOpen, onClose }: DegreeProgressPanelProps) {
+  const { semesterPlans, userInfo } = useDegreePlanStore();
+
+  // Audit the plan against the student's major
+  const audit = useMemo(() => {
+    const requirements = getDegreeRequirements(userInfo?.major ?? 'CS', userInfo?.totalCreditsToGraduate);
+    return auditDegreePlan(semesterPlans, requirements);
+  }, [semesterPlans, userInfo]);
+
+  const completedCategories = audit.categories.filter(category => category.isComplete).length;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-[#0f172a]/60 backdrop-blur-sm z-[50]"
+          />
+
+          {/* Panel */}
+          <motion.aside
+            initial={{ x: 480 }}
+            animate={{ x: 0 }}
+            exit={{ x: 480 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 250 }}
+            className="fixed top-0 right-0 bottom-0 w-full max-w-md bg-[#1e293b] border-l border-white/10 z-[60] flex flex-col"
+          >
+            {/* Header */}
+            <div className="p-6 border-b border-white/10 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-bold text-white">Degree Progress</h3>
+                <p className="text-xs text-gray-400 mt-1">
+                  {audit.name} · {completedCategories} of {audit.categories.length} requirements complete
+                </p>
+              </div>
+              <button onClick={onClose} className="text-white/50 hover:text-white">
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Overall credits */}
+            <div className="p-4 border-b border-white/10">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm text-gray-300">Total credits</span>
+                <span className="text-sm font-semibold text-white">
+                  {audit.totalCredits}/{audit.requiredTotalCredits}
+                </span>
+              </div>
+              <ProgressBar value={audit.totalCredits} max={audit.requiredTotalCredits} complete={audit.isComplete} />
+            </div>
+
+            {/* Category list */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+              {audit.categories.map(category => (
+                <CategoryCard key={category.code} category={category} />
+              ))}
+
+              {/* Planned courses outside every category */}
+              {audit.unappliedCourses.length > 0 && (
+                <div className="p-4 rounded-lg border border-dashed border-white/10">
+                  <p className="text-sm font-semibold text-white mb-2">Not counted toward a requirement</p>
+                  <p className="text-xs text-gray-400">{audit.unappliedCourses.join(', ')}</p>
+                </div>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore, simulateCourseFailure } from '@/lib/store';
+
+interface FailureSimulationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  semester: string;       // Semester of the attempt to simulate failing
+  courseCode: string;     // Course to simulate failing (e.g., "MTH 1303")
+}
+
+// Modal that shows what failing a course would break and the plan that repairs it
+// Applying the repair marks the course as failed, plans the retake and moves the courses that depend on it
+export default function FailureSimulationModal({ isOpen, onClose, semester, courseCode }: FailureSimulationModalProps) {
+  const { semesterPlans, userInfo, applyFailureRepair } = useDegreePlanStore();
+
+  // Run the simulation whenever the modal opens or the plan changes
+  const simulation = useMemo(
+    () => (isOpen ? simulateCourseFailure(semesterPlans, semester, courseCode, userInfo) : null),
+    [isOpen, semesterPlans, semester, courseCode, userInfo]
+  );
+
+  // Record the failure, apply the repaired plan and close the modal
+  const applyRepair = () => {
+    applyFailureRepair(semester, courseCode);
+    onClose();
+  };
+
+  const graduationDelayed = simulation !== null && simulation.lastSemesterAfter !== simulation.lastSemesterBefore;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+            onClick={onClose}
+          />
+
+          {/* Modal content */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="relative bg-[#1e293b] border border-white/10 rounded-xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto">
+              {/* Header */}
+              <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-white">What if I fail {courseCode}?</h3>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Assumes {courseCode} is failed in {semester} and shows the courses that lose their prerequisites or corequisites.
+                  </p>
+                </div>
+                <button onClick={onClose} className="text-white/50 hover:text-white">
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Simulation results */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+                {!simulation && (
+                  <p className="text-center text-gray-400 py-8">{courseCode} is not planned in {semester}.</p>
+                )}
+
+                {simulation && (
+                  <>
+                    {/* Effect on the graduation semester */}
+                    <div className={`p-4 rounded-lg border ${
+                      graduationDelayed ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-green-500/10 border-green-500/30'
+                    }`}>
+                      <p className={`text-sm font-medium ${graduationDelayed ? 'text-yellow-300' : 'text-green-300'}`}>
+                        {graduationDelayed
+                          ? `Graduation moves from ${simulation.lastSemesterBefore ?? '–'} to ${simulation.lastSemesterAfter ?? '–'}`
+                          : `You still finish in ${simulation.lastSemesterAfter ?? simulation.lastSemesterBefore ?? '–'}`}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-300">
+                        {simulation.retakeSemester
+                          ? `Retake ${courseCode} in ${simulation.retakeSemester}.`
+                          : `No later semester has room for a retake of ${courseCode}.`}
+                      </p>
+                    </div>
+
+                    {/* Courses that lose their prerequisites or corequisites */}
+                    <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+                      <h4 className="text-sm font-semibold text-white mb-2">Affected courses</h4>
+                      {simulation.invalidated.length === 0 ? (
+                        <p className="text-xs text-gray-400">No planned course depends on {courseCode}.</p>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {simulation.invalidated.map(course => {
+                            const move = simulation.moves.find(m => m.courseCode === course.courseCode && m.from === course.semester);
+                            return (
+                              <li key={`${course.semester}-${course.courseCode}`} className="flex justify-between text-gray-300">
+                                <span>{course.courseCode} <span className="text-gray-500">({course.semester})</span></span>
+                                <span className={move && move.to === null ? 'text-red-300' : 'text-gray-400'}>
+                                  {!move && 'Locked semester, stays as recorded'}
+                                  {move && (move.to ? `Moves to ${move.to}` : 'No semester fits')}
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Cancel / apply */}
+              <div className="p-6 border-t border-white/10 flex justify-end space-x-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={applyRepair}
+                  disabled={!simulation}
+                  className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Mark as failed and repair plan
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+import { calculateGpa, formatGpa, MAX_GPA, projectGpa } from '@/lib/gpa';
+
+// Target GPA the projection starts with
+const DEFAULT_TARGET_GPA = 3.0;
+
+// GPA display for the header: cumulative GPA, with a dropdown of semester GPAs
+// and the GPA needed over the remaining credits to reach a target
+export default function GpaPanel() {
+  const { semesterPlans, userInfo } = useDegreePlanStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Projection inputs (remaining credits default to what graduation still needs)
+  const [targetGpa, setTargetGpa] = useState(DEFAULT_TARGET_GPA);
+  const [remainingCredits, setRemainingCredits] = useState<number | null>(null);
+
+  const summary = useMemo(() => calculateGpa(semesterPlans), [semesterPlans]);
+  const defaultRemainingCredits = Math.max(0, (userInfo?.totalCreditsToGraduate || 136) - summary.earnedCredits);
+  const credits = remainingCredits ?? defaultRemainingCredits;
+  const projection = projectGpa(summary, targetGpa, credits);
+
+  const gradedSemesters = summary.semesters.filter(semester => semester.gradedCredits > 0);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex flex-col items-center px-3 py-1 rounded-lg hover:bg-white/5 transition-colors"
+      >
+        <span className="text-xs text-gray-400 mb-1">GPA</span>
+        <span className="text-base font-bold text-white">{formatGpa(summary.gpa)}</span>
+        <span className="text-xs text-gray-500">{summary.gradedCredits} graded credits</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-80 bg-[#1e293b] border border-white/10 rounded-xl shadow-xl z-[60] overflow-hidden"
+          >
+            {/* Semester and cumulative GPAs */}
+            <div className="p-4 border-b border-white/10">
+              <h4 className="text-sm font-semibold text-white mb-2">GPA by semester</h4>
+              {gradedSemesters.length === 0 ? (
+                <p className="text-xs text-gray-400">
+                  Mark courses as completed or failed and choose their grades to see your GPA.
+                </p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal pb-1">Semester</th>
+                      <th className="text-right font-normal pb-1">Credits</th>
+                      <th className="text-right font-normal pb-1">GPA</th>
+                      <th className="text-right font-normal pb-1">Cumulative</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {gradedSemesters.map(semester => (
+                      <tr key={semester.semester} className="text-gray-300">
+                        <td className="py-0.5">{semester.semester}</td>
+                        <td className="py-0.5 text-right">{semester.gradedCredits}</td>
+                        <td className="py-0.5 text-right">{formatGpa(semester.gpa)}</td>
+                        <td className="py-0.5 text-right text-white">{formatGpa(semester.cumulativeGpa)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {summary.courses.some(course => course.replaced) && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Repeated courses count with their latest grade only: {summary.courses
+                    .filter(course => course.replaced)
+                    .map(course => `${course.courseCode} (${course.grade}, ${course.semester})`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+
+            {/* Projection toward a target GPA */}
+            <div className="p-4 space-y-3">
+              <h4 className="text-sm font-semibold text-white">Reach a target GPA</h4>
+              <div className="flex items-center space-x-3 text-xs text-gray-300">
+                <label className="flex flex-col space-y-1">
+                  <span className="text-gray-500">Target GPA</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_GPA}
+                    step={0.01}
+                    value={targetGpa}
+                    onChange={(e) => setTargetGpa(Math.min(MAX_GPA, Math.max(0, parseFloat(e.target.value) || 0)))}
+                    className="w-20 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-white focus:outline-none"
+                  />
+                </label>
+                <label className="flex flex-col space-y-1">
+                  <span className="text-gray-500">Remaining credits</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={credits}
+                    onChange={(e) => setRemainingCredits(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-20 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-white focus:outline-none"
+                  />
+                </label>
+              </div>
+              <p className={`text-xs ${
+                projection.status === 'unreachable' ? 'text-red-300' : projection.status === 'reached' ? 'text-green-300' : 'text-gray-300'
+              }`}>
+                {projection.status === 'reached' && `A cumulative ${formatGpa(targetGpa)} is assured with any grades in the remaining credits.`}
+                {projection.status === 'achievable' &&
+                  `You need a ${formatGpa(projection.requiredGpa)} average over the next ${credits} credits to reach ${formatGpa(targetGpa)}.`}
+                {projection.status === 'unreachable' && (credits > 0
+                  ? `Reaching ${formatGpa(targetGpa)} would take a ${formatGpa(projection.requiredGpa)} average over ${credits} credits, above ${formatGpa(MAX_GPA)}. Repeating low-graded courses replaces their grades.`
+                  : `With no credits left, your GPA stays at ${formatGpa(summary.gpa)}.`)}
+              </p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
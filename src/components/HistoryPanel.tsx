@@ -0,0 +1,108 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Side panel listing every recorded change to the plan, with undo/redo controls
+// Changes that were undone stay listed (dimmed) until a new change replaces them
+export default function HistoryPanel({ isOpen, onClose }: HistoryPanelProps) {
+  const { past, future, undo, redo } = useDegreePlanStore();
+
+  // Format the time a change was made (e.g., "14:05:32")
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-[#0f172a]/60 backdrop-blur-sm z-[50]"
+          />
+
+          {/* Panel */}
+          <motion.aside
+            initial={{ x: 400 }}
+            animate={{ x: 0 }}
+            exit={{ x: 400 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 250 }}
+            className="fixed top-0 right-0 bottom-0 w-full max-w-sm bg-[#1e293b] border-l border-white/10 z-[60] flex flex-col"
+          >
+            {/* Header */}
+            <div className="p-6 border-b border-white/10 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-bold text-white">History</h3>
+                <p className="text-xs text-gray-400 mt-1">Ctrl+Z to undo, Ctrl+Shift+Z to redo</p>
+              </div>
+              <button onClick={onClose} className="text-white/50 hover:text-white">
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Undo/redo controls */}
+            <div className="p-4 border-b border-white/10 flex space-x-2">
+              <button
+                onClick={undo}
+                disabled={past.length === 0}
+                className="flex-1 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={future.length === 0}
+                className="flex-1 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Redo
+              </button>
+            </div>
+
+            {/* Change list (newest first) */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+              {/* Undone changes that can still be redone */}
+              {future.map((entry, i) => (
+                <div
+                  key={`future-${entry.timestamp}-${i}`}
+                  className="px-4 py-3 rounded-lg border border-dashed border-white/10 text-gray-500"
+                >
+                  <p className="text-sm line-through">{entry.label}</p>
+                  <p className="text-xs mt-1">{formatTime(entry.timestamp)} · undone</p>
+                </div>
+              ))}
+
+              {/* Applied changes */}
+              {[...past].reverse().map((entry, i) => (
+                <div
+                  key={`past-${entry.timestamp}-${i}`}
+                  className={`px-4 py-3 rounded-lg border ${
+                    i === 0 ? 'bg-blue-500/10 border-blue-500/30' : 'bg-white/5 border-white/10'
+                  }`}
+                >
+                  <p className="text-sm text-white">{entry.label}</p>
+                  <p className="text-xs text-gray-400 mt-1">{formatTime(entry.timestamp)}</p>
+                </div>
+              ))}
+
+              {/* Empty state */}
+              {past.length === 0 && future.length === 0 && (
+                <p className="text-center text-gray-500 text-sm py-8">
+                  No changes yet. Changes to your plan will appear here.
+                </p>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
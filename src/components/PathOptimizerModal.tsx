@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+import { getDegreeRequirements } from '@/lib/degreeAudit';
+import { optimizeGraduationPath, OptimizerObjective } from '@/lib/pathOptimizer';
+
+interface PathOptimizerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Objectives the student can choose from
+const OBJECTIVES: { id: OptimizerObjective; name: string; description: string }[] = [
+  { id: 'fewest-semesters', name: 'Fewest semesters', description: 'Fill each semester up to its credit limit' },
+  { id: 'balanced', name: 'Balanced workload', description: 'Same finish, with credits spread evenly' }
+];
+
+// Modal that rearranges the plan's courses into the shortest or most even schedule
+// Pinned courses and locked semesters stay as they are; the rest of the plan is replaced when the schedule is applied
+export default function PathOptimizerModal({ isOpen, onClose }: PathOptimizerModalProps) {
+  const { semesterPlans, courseData, userInfo, applyOptimizedPlan } = useDegreePlanStore();
+
+  // Optimizer options
+  const [objective, setObjective] = useState<OptimizerObjective>('fewest-semesters');
+  const [includeSummer, setIncludeSummer] = useState(
+    () => semesterPlans.some(plan => plan.type === 'summer' && plan.courses.length > 0)
+  );
+
+  // Run the optimizer whenever the modal opens or the options change
+  const result = useMemo(() => {
+    if (!isOpen || !courseData) return null;
+    const requiredCodes = getDegreeRequirements(userInfo?.major ?? 'CS', userInfo?.totalCreditsToGraduate)
+      .categories.flatMap(category => category.required);
+    return optimizeGraduationPath(courseData, semesterPlans, userInfo, requiredCodes, { objective, includeSummer });
+  }, [isOpen, courseData, semesterPlans, userInfo, objective, includeSummer]);
+
+  // Replace the plan's unpinned courses with the optimized schedule and close the modal
+  const applySchedule = () => {
+    if (!result) return;
+    applyOptimizedPlan(result.semesters.map(sem => ({
+      name: sem.semester,
+      courses: sem.courses.filter(course => !sem.pinned.includes(course.course_code))
+    })));
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+            onClick={onClose}
+          />
+
+          {/* Modal content */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="relative bg-[#1e293b] border border-white/10 rounded-xl w-full max-w-3xl max-h-[85vh] flex flex-col pointer-events-auto">
+              {/* Header */}
+              <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-white">Optimize Graduation Path</h3>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Schedules your planned and required courses between your start and end semester. Pinned courses and locked semesters stay as they are.
+                  </p>
+                </div>
+                <button onClick={onClose} className="text-white/50 hover:text-white">
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Optimizer options */}
+              <div className="px-6 py-4 border-b border-white/10 flex flex-wrap items-center gap-4">
+                <div className="flex rounded-lg bg-white/5 border border-white/10 p-1">
+                  {OBJECTIVES.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setObjective(option.id)}
+                      title={option.description}
+                      className={`px-3 py-1.5 rounded-md text-sm transition-colors ${
+                        objective === option.id ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={includeSummer}
+                    onChange={(e) => setIncludeSummer(e.target.checked)}
+                    className="rounded border-white/20 bg-white/5"
+                  />
+                  <span>Use summer semesters</span>
+                </label>
+              </div>
+
+              {/* Optimized schedule */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+                {!courseData && (
+                  <p className="text-center text-gray-400 py-8">The course catalog is still loading.</p>
+                )}
+
+                {result && (
+                  <div className={`p-4 rounded-lg border ${
+                    result.feasible ? 'bg-green-500/10 border-green-500/30' : 'bg-yellow-500/10 border-yellow-500/30'
+                  }`}>
+                    <p className={`text-sm font-medium ${result.feasible ? 'text-green-300' : 'text-yellow-300'}`}>
+                      {result.feasible
+                        ? `Every course fits: finished in ${result.lastSemester} (${result.semestersUsed} semesters)`
+                        : result.bindingConstraints.every(constraint => constraint.kind === 'not-in-catalog')
+                          ? 'Every offered course fits, but some required courses are not in the catalog'
+                          : 'No schedule fits every course between your start and end semester'}
+                    </p>
+
+                    {/* Constraints that keep the plan from fitting */}
+                    {result.bindingConstraints.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs text-gray-300 list-disc list-inside">
+                        {result.bindingConstraints.map(constraint => (
+                          <li key={constraint.message}>{constraint.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {result?.semesters.filter(sem => sem.courses.length > 0).map(sem => (
+                  <div key={sem.semester} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                    <div className="flex justify-between items-center mb-3">
+                      <span className="text-sm font-semibold text-white">
+                        {sem.semester}
+                        {sem.locked && <span className="ml-2 text-xs font-normal text-gray-500">Locked</span>}
+                      </span>
+                      <span className="text-xs text-gray-400">{sem.credits} Credits</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {sem.courses.map(course => (
+                        <span
+                          key={course.course_code}
+                          title={course.course_name}
+                          className={`px-2 py-0.5 rounded-md text-xs ${
+                            sem.pinned.includes(course.course_code)
+                              ? 'bg-blue-500/20 border border-blue-500/30 text-blue-200'
+                              : 'bg-white/10 text-gray-200'
+                          }`}
+                        >
+                          {course.course_code}{sem.pinned.includes(course.course_code) && ' (pinned)'}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {result && result.unscheduled.length > 0 && (
+                  <p className="text-xs text-yellow-400">
+                    Left out of the schedule: {result.unscheduled.join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Cancel / apply */}
+              <div className="p-6 border-t border-white/10 flex justify-end space-x-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={applySchedule}
+                  disabled={!result?.feasible}
+                  title={result && !result.feasible ? 'Resolve the constraints above first' : undefined}
+                  className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Apply to my plan
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore, getPlansWithActive } from '@/lib/store';
+import type { NamedPlan } from '@/lib/store';
+import { comparePlans, PlanSummary } from '@/lib/planComparison';
+
+interface PlanCompareViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Side-by-side comparison of two named plans
+// Courses placed in different semesters are highlighted in yellow, courses found in only one plan in purple
+export default function PlanCompareView({ isOpen, onClose }: PlanCompareViewProps) {
+  const { plans: savedPlans, activePlanId, semesterPlans } = useDegreePlanStore();
+  const plans = useMemo(
+    () => getPlansWithActive({ plans: savedPlans, activePlanId, semesterPlans }),
+    [savedPlans, activePlanId, semesterPlans]
+  );
+
+  // Plans selected for comparison (defaults to the first two)
+  const [planAId, setPlanAId] = useState(plans[0]?.id ?? '');
+  const [planBId, setPlanBId] = useState(plans[1]?.id ?? plans[0]?.id ?? '');
+
+  // Keep the selection valid when plans are added or deleted
+  useEffect(() => {
+    if (!plans.some(plan => plan.id === planAId)) setPlanAId(plans[0]?.id ?? '');
+    if (!plans.some(plan => plan.id === planBId)) setPlanBId(plans[1]?.id ?? plans[0]?.id ?? '');
+  }, [plans, planAId, planBId]);
+
+  const planA = plans.find(plan => plan.id === planAId);
+  const planB = plans.find(plan => plan.id === planBId);
+
+  const comparison = useMemo(() => {
+    if (!planA || !planB) return null;
+    return comparePlans(planA.semesterPlans, planB.semesterPlans);
+  }, [planA, planB]);
+
+  // Pick the highlight for a course depending on how it differs from the other plan
+  const getCourseHighlight = (courseCode: string, onlyHere: string[]) => {
+    if (comparison?.moved.some(m => m.courseCode === courseCode)) {
+      return 'bg-yellow-500/20 border-yellow-500/40 text-yellow-200';
+    }
+    if (onlyHere.includes(courseCode)) {
+      return 'bg-purple-500/20 border-purple-500/40 text-purple-200';
+    }
+    return 'bg-white/5 border-white/10 text-gray-300';
+  };
+
+  // Render one plan's selector, summary and semesters
+  const renderPlanColumn = (
+    plan: NamedPlan | undefined,
+    selectedId: string,
+    onSelect: (id: string) => void,
+    summary: PlanSummary | undefined,
+    onlyHere: string[]
+  ) => (
+    <div className="flex-1 min-w-0">
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full mb-4 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {plans.map(p => (
+          <option key={p.id} value={p.id} className="bg-[#1e293b]">{p.name}</option>
+        ))}
+      </select>
+
+      {/* Summary */}
+      {summary && (
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10">
+            <p className="text-xs text-gray-400">Total credits</p>
+            <p className="text-lg font-bold text-white">{summary.totalCredits}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10">
+            <p className="text-xs text-gray-400">Projected graduation</p>
+            <p className="text-lg font-bold text-white">{summary.graduationTerm ?? '—'}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Semesters */}
+      <div className="space-y-3">
+        {plan?.semesterPlans.map(semester => (
+          <div key={semester.semester} className="p-3 rounded-lg bg-white/5 border border-white/10">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-semibold text-white">{semester.semester}</span>
+              <span className="text-xs text-gray-400">{semester.credits} Credits</span>
+            </div>
+            {semester.courses.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {semester.courses.map(course => (
+                  <span
+                    key={course.course_code}
+                    className={`px-2 py-1 rounded-md border text-xs ${getCourseHighlight(course.course_code, onlyHere)}`}
+                  >
+                    {course.course_code}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">No courses</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+            onClick={onClose}
+          />
+
+          {/* Modal content */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="relative bg-[#1e293b] border border-white/10 rounded-xl w-full max-w-5xl max-h-[85vh] flex flex-col pointer-events-auto">
+              {/* Header */}
+              <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-white">Compare Plans</h3>
+                  <p className="text-xs text-gray-400 mt-1">
+                    <span className="text-yellow-300">Yellow</span>: different semester ·{' '}
+                    <span className="text-purple-300">Purple</span>: only in this plan
+                  </p>
+                </div>
+                <button onClick={onClose} className="text-white/50 hover:text-white">
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+                {/* Courses scheduled differently */}
+                {comparison && comparison.moved.length > 0 && (
+                  <div className="mb-6 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                    <h4 className="text-sm font-semibold text-yellow-300 mb-2">Placed in different semesters</h4>
+                    <ul className="text-sm text-gray-300 space-y-1">
+                      {comparison.moved.map(m => (
+                        <li key={m.courseCode}>
+                          <span className="text-white font-medium">{m.courseCode}</span>: {m.semesterA} → {m.semesterB}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Plans side by side */}
+                <div className="flex gap-6">
+                  {renderPlanColumn(planA, planAId, setPlanAId, comparison?.summaryA, comparison?.onlyInA ?? [])}
+                  {renderPlanColumn(planB, planBId, setPlanBId, comparison?.summaryB, comparison?.onlyInB ?? [])}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+
+interface PlanSwitcherProps {
+  onCompare: () => void; // Open the plan comparison view
+}
+
+// Dropdown in the header for switching between, creating and managing named plans
+export default function PlanSwitcher({ onCompare }: PlanSwitcherProps) {
+  const { plans, activePlanId, createPlan, duplicatePlan, renamePlan, setPlanNotes, deletePlan, switchPlan } = useDegreePlanStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Plan currently being renamed and the name typed so far
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const activePlan = plans.find(plan => plan.id === activePlanId);
+
+  // Start renaming a plan inline
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  // Save the new name (blank names are ignored)
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      renamePlan(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  // Name new plans "Plan B", "Plan C", ... after the existing ones
+  const handleCreate = () => {
+    createPlan(`Plan ${String.fromCharCode(65 + plans.length)}`);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 hover:border-white/20 transition-all duration-300 flex items-center space-x-2"
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+        </svg>
+        <span>{activePlan?.name ?? 'Plan'}</span>
+        <svg className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-72 bg-[#1e293b] border border-white/10 rounded-xl shadow-xl z-[60] overflow-hidden"
+          >
+            {/* Plan list */}
+            <div className="max-h-64 overflow-y-auto custom-scrollbar">
+              {plans.map(plan => (
+                <div
+                  key={plan.id}
+                  className={`group flex items-center justify-between px-4 py-3 border-b border-white/5 ${
+                    plan.id === activePlanId ? 'bg-blue-500/10' : 'hover:bg-white/5'
+                  }`}
+                >
+                  {editingId === plan.id ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 mr-2 bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        switchPlan(plan.id);
+                        setIsOpen(false);
+                      }}
+                      className="flex-1 text-left text-sm text-white truncate"
+                    >
+                      {plan.name}
+                    </button>
+                  )}
+
+                  {/* Plan actions */}
+                  <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startRename(plan.id, plan.name)}
+                      title="Rename"
+                      className="p-1 text-gray-400 hover:text-white"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.586-6.586a2 2 0 112.828 2.828L11.828 15.828a2 2 0 01-1.414.586H9v-2a2 2 0 01.586-1.414z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => duplicatePlan(plan.id)}
+                      title="Duplicate"
+                      className="p-1 text-gray-400 hover:text-white"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => deletePlan(plan.id)}
+                      disabled={plans.length === 1}
+                      title="Delete"
+                      className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Notes of the active plan (saved when the field loses focus) */}
+            {activePlan && (
+              <div className="px-4 pt-3">
+                <label className="block text-xs text-gray-400 mb-1">Notes for {activePlan.name}</label>
+                <textarea
+                  key={`${activePlan.id}-${activePlan.notes ?? ''}`}
+                  defaultValue={activePlan.notes ?? ''}
+                  onBlur={(e) => setPlanNotes(activePlan.id, e.target.value)}
+                  rows={3}
+                  placeholder="e.g., Ask the advisor about a summer internship"
+                  className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                />
+              </div>
+            )}
+
+            {/* New plan / compare */}
+            <div className="p-3 flex space-x-2">
+              <button
+                onClick={handleCreate}
+                className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white hover:bg-white/10 transition-colors"
+              >
+                New plan
+              </button>
+              <button
+                onClick={() => {
+                  onCompare();
+                  setIsOpen(false);
+                }}
+                disabled={plans.length < 2}
+                className="flex-1 px-3 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-purple-500 text-sm text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Compare
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { PrerequisiteExplanation as Explanation } from '@/lib/store';
+
+interface PrerequisiteExplanationProps {
+  explanation: Explanation;
+}
+
+// Details of why a course's prerequisites are not satisfied in a semester:
+// each unmet required group, the alternatives that would satisfy it and where their missing pieces could go
+export default function PrerequisiteExplanation({ explanation }: PrerequisiteExplanationProps) {
+  if (explanation.groups.length === 0) {
+    return <p className="text-sm text-gray-400">Nothing is missing for {explanation.courseCode} in {explanation.semester}.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {explanation.groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="rounded-lg bg-white/5 border border-white/10 p-3">
+          <div className="text-gray-300">
+            <span className="text-red-300 font-medium">Not satisfied in {explanation.semester}:</span> {group.description}
+          </div>
+
+          {/* Alternatives that would satisfy the group */}
+          <ul className="mt-2 space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <li key={optionIndex} className="pl-3 border-l-2 border-white/10">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-white">
+                    {group.options.length > 1 && <span className="text-gray-500">Option {optionIndex + 1}: </span>}
+                    {option.description}
+                  </span>
+                  <span className={`text-xs ${option.availableFrom ? 'text-green-300' : 'text-gray-500'}`}>
+                    {option.availableFrom
+                      ? `${explanation.courseCode} possible from ${option.availableFrom}`
+                      : 'Cannot be completed in this plan'}
+                  </span>
+                </div>
+                {option.missing.map(step => (
+                  <div key={step.label} className="mt-1 text-xs text-gray-400">
+                    <span className="text-red-300">✗ {step.label}</span>: {step.note}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
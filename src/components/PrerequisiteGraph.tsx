@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import ReactFlow, {
+  Background,
+  Controls,
+  Edge,
+  Handle,
+  MarkerType,
+  Node,
+  NodeProps,
+  Position
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import { useDegreePlanStore } from '@/lib/store';
+import type { Course } from '@/lib/store';
+import { buildPrerequisiteGraph, GraphCourseStatus, GraphRelation, GraphScope } from '@/lib/prerequisiteGraph';
+
+// Layout spacing (pixels)
+const COLUMN_WIDTH = 240;
+const ROW_HEIGHT = 90;
+
+// Node colors for each course status
+const STATUS_STYLES: Record<GraphCourseStatus, string> = {
+  planned: 'bg-blue-500/15 border-blue-500/60',
+  unplanned: 'bg-white/5 border-white/20',
+  blocked: 'bg-red-500/10 border-red-500/50'
+};
+
+// Edge styles for each relation kind
+const RELATION_STYLES: Record<GraphRelation['kind'], { stroke: string; strokeDasharray?: string; label?: string }> = {
+  and: { stroke: '#94a3b8' },
+  or: { stroke: '#a78bfa', strokeDasharray: '6 4', label: 'or' },
+  coreq: { stroke: '#f59e0b', strokeDasharray: '2 4', label: 'coreq' }
+};
+
+interface CourseNodeData {
+  course: Course;
+  status: GraphCourseStatus;
+  selected: boolean;
+}
+
+// Course box drawn for each node
+function CourseGraphNode({ data }: NodeProps<CourseNodeData>) {
+  return (
+    <div
+      className={`w-48 px-3 py-2 rounded-lg border backdrop-blur-sm cursor-pointer ${STATUS_STYLES[data.status]} ${
+        data.selected ? 'ring-2 ring-purple-400' : ''
+      }`}
+    >
+      <Handle type="target" position={Position.Left} className="!bg-white/40 !border-0" />
+      <p className="text-sm font-semibold text-white">{data.course.course_code}</p>
+      <p className="text-xs text-gray-400 truncate">{data.course.course_name}</p>
+      <Handle type="source" position={Position.Right} className="!bg-white/40 !border-0" />
+    </div>
+  );
+}
+
+// Column heading drawn above each semester
+function ColumnLabelNode({ data }: NodeProps<{ label: string }>) {
+  return <p className="w-48 text-center text-sm font-semibold text-gray-300">{data.label}</p>;
+}
+
+// Node types must keep the same identity between renders
+const nodeTypes = { course: CourseGraphNode, columnLabel: ColumnLabelNode };
+
+// Graph of prerequisite and corequisite relations, laid out by semester
+// Clicking a course that is not planned lets the student add it to a semester
+export default function PrerequisiteGraph() {
+  const { courseData, semesterPlans, addCourse } = useDegreePlanStore();
+
+  const [scope, setScope] = useState<GraphScope>('plan');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [targetSemester, setTargetSemester] = useState('');
+
+  const model = useMemo(
+    () => buildPrerequisiteGraph(courseData ?? [], semesterPlans, scope),
+    [courseData, semesterPlans, scope]
+  );
+
+  const selected = model.courses.find(c => c.id === selectedId) ?? null;
+
+  // Convert the model into reactflow nodes and edges
+  const nodes: Node[] = useMemo(() => [
+    ...model.columns.map((label, index) => ({
+      id: `column-${index}`,
+      type: 'columnLabel',
+      position: { x: index * COLUMN_WIDTH, y: -50 },
+      data: { label },
+      draggable: false,
+      selectable: false
+    })),
+    ...model.courses.map(c => ({
+      id: c.id,
+      type: 'course',
+      position: { x: c.column * COLUMN_WIDTH, y: c.row * ROW_HEIGHT },
+      data: { course: c.course, status: c.status, selected: c.id === selectedId }
+    }))
+  ], [model, selectedId]);
+
+  const edges: Edge[] = useMemo(() => model.relations.map(relation => {
+    const style = RELATION_STYLES[relation.kind];
+    return {
+      id: relation.id,
+      source: relation.source,
+      target: relation.target,
+      label: style.label,
+      style: { stroke: style.stroke, strokeWidth: 1.5, strokeDasharray: style.strokeDasharray },
+      labelStyle: { fill: style.stroke, fontSize: 10 },
+      labelBgStyle: { fill: '#1e293b' },
+      markerEnd: { type: MarkerType.ArrowClosed, color: style.stroke }
+    };
+  }), [model]);
+
+  // Select a course; only courses that are not planned can be added
+  const handleNodeClick = (_: React.MouseEvent, node: Node) => {
+    if (node.type !== 'course') return;
+    setSelectedId(node.id === selectedId ? null : node.id);
+    setTargetSemester(semesterPlans[0]?.semester ?? '');
+  };
+
+  // Add the selected course to the chosen semester (errors are shown by the page)
+  const handleAdd = () => {
+    if (!selected || !targetSemester) return;
+    addCourse(targetSemester, selected.course);
+    if (!useDegreePlanStore.getState().error) {
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {/* Scope toggle and legend */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex rounded-lg bg-white/5 border border-white/10 p-1">
+          {(['plan', 'catalog'] as GraphScope[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-3 py-1.5 rounded-md text-sm transition-colors ${
+                scope === option ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option === 'plan' ? 'My plan' : 'Full catalog'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+          <span className="flex items-center space-x-1.5"><span className="w-3 h-3 rounded border bg-blue-500/15 border-blue-500/60" /><span>Planned</span></span>
+          <span className="flex items-center space-x-1.5"><span className="w-3 h-3 rounded border bg-white/5 border-white/20" /><span>Unplanned</span></span>
+          <span className="flex items-center space-x-1.5"><span className="w-3 h-3 rounded border bg-red-500/10 border-red-500/50" /><span>Blocked</span></span>
+          <span className="flex items-center space-x-1.5"><span className="w-5 border-t-2 border-slate-400" /><span>Required</span></span>
+          <span className="flex items-center space-x-1.5"><span className="w-5 border-t-2 border-dashed border-violet-400" /><span>One of</span></span>
+          <span className="flex items-center space-x-1.5"><span className="w-5 border-t-2 border-dotted border-amber-500" /><span>Corequisite</span></span>
+        </div>
+      </div>
+
+      {/* Graph */}
+      <div className="h-[70vh] rounded-xl bg-[#1e293b]/60 border border-white/10 overflow-hidden">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          nodeTypes={nodeTypes}
+          onNodeClick={handleNodeClick}
+          onPaneClick={() => setSelectedId(null)}
+          nodesConnectable={false}
+          fitView
+          minZoom={0.1}
+        >
+          <Background color="#334155" gap={24} />
+          <Controls showInteractive={false} />
+        </ReactFlow>
+      </div>
+
+      {/* Selected course */}
+      {selected && (
+        <div className="absolute bottom-4 right-4 w-80 p-4 rounded-xl bg-[#1e293b] border border-white/10 shadow-xl">
+          <p className="text-sm font-semibold text-white">{selected.course.course_code}</p>
+          <p className="text-xs text-gray-400 mb-3">{selected.course.course_name}</p>
+
+          {selected.status === 'planned' ? (
+            <p className="text-xs text-blue-300">Planned in {selected.semester}</p>
+          ) : (
+            <>
+              {selected.status === 'blocked' && (
+                <p className="text-xs text-red-400 mb-2">Some prerequisites are not in your plan yet.</p>
+              )}
+              <div className="flex space-x-2">
+                <select
+                  value={targetSemester}
+                  onChange={(e) => setTargetSemester(e.target.value)}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {semesterPlans.map(plan => (
+                    <option key={plan.semester} value={plan.semester} className="bg-[#1e293b]">{plan.semester}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAdd}
+                  className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-500 to-purple-500 text-sm text-white hover:opacity-90 transition-opacity"
+                >
+                  Add
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
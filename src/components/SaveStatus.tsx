@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useDegreePlanStore } from '@/lib/store';
+
+// Describe how long ago a timestamp was (e.g., "just now", "12 seconds ago", "3 minutes ago")
+const formatElapsed = (timestamp: number, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 5) return 'just now';
+  if (seconds < 60) return `${seconds} seconds ago`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+
+  return new Date(timestamp).toLocaleDateString();
+};
+
+// Small indicator showing when the plan was last saved to the browser
+// The saved plan is only read on the client, so the status waits for the store to finish loading
+// it after mount; otherwise the server and the first client render would disagree
+export default function SaveStatus() {
+  const lastSavedAt = useDegreePlanStore(state => state.lastSavedAt);
+  const [now, setNow] = useState(() => Date.now());
+  const [hydrated, setHydrated] = useState(false);
+
+  // Show the status once the saved plan has been loaded from the browser
+  useEffect(() => {
+    setHydrated(useDegreePlanStore.persist.hasHydrated());
+    return useDegreePlanStore.persist.onFinishHydration(() => setHydrated(true));
+  }, []);
+
+  // Refresh the relative time every second
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!hydrated) return null;
+
+  return (
+    <div className="flex items-center space-x-1.5 text-xs text-gray-400">
+      <span className={`w-1.5 h-1.5 rounded-full ${lastSavedAt ? 'bg-green-400' : 'bg-gray-500'}`} />
+      <span>{lastSavedAt ? `Saved ${formatElapsed(lastSavedAt, now)}` : 'Not saved yet'}</span>
+    </div>
+  );
+}
@@ -0,0 +1,546 @@
+import { useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDegreePlanStore } from '@/lib/store';
+import type { Course } from '@/lib/store';
+import {
+  findScheduleConflicts,
+  formatMinutes,
+  parseSchedule,
+  ScheduledSection,
+  WEEKDAYS
+} from '@/lib/sectionSchedule';
+import {
+  DEFAULT_SCHEDULE_PREFERENCES,
+  generateSectionCombinations,
+  SchedulePreferences,
+  SectionCombination
+} from '@/lib/sectionCombinations';
+import {
+  ClassifiedSection,
+  classifySections,
+  getLectureSections,
+  getLinkedSections,
+  requiresLinkedSection,
+  SECTION_KIND_LABELS,
+  SectionKind
+} from '@/lib/sectionPairing';
+import { buildSemesterCalendar, getDefaultSemesterDates } from '@/lib/icsExport';
+
+interface ScheduleBuilderProps {
+  semester: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Calendar scale
+const PIXELS_PER_MINUTE = 0.8;
+const DEFAULT_DAY_START = 8 * 60;  // 8:00 AM
+const DEFAULT_DAY_END = 18 * 60;   // 6:00 PM
+
+// Block colors, assigned to courses in plan order
+const COURSE_COLORS = [
+  'bg-blue-500/30 border-blue-400/60',
+  'bg-purple-500/30 border-purple-400/60',
+  'bg-emerald-500/30 border-emerald-400/60',
+  'bg-pink-500/30 border-pink-400/60',
+  'bg-cyan-500/30 border-cyan-400/60',
+  'bg-amber-500/30 border-amber-400/60',
+  'bg-indigo-500/30 border-indigo-400/60',
+  'bg-lime-500/30 border-lime-400/60'
+];
+
+// Start times offered for the "no classes before" preference
+const EARLIEST_START_OPTIONS = [8 * 60, 9 * 60, 10 * 60, 11 * 60];
+
+// Modal for choosing one lecture (plus its paired lab/recitation) per course and viewing the resulting week
+// Sections can be picked by hand or taken from ranked conflict-free combinations
+export default function ScheduleBuilder({ semester, isOpen, onClose }: ScheduleBuilderProps) {
+  const { semesterPlans, selectSection, pinSections } = useDegreePlanStore();
+  const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+  const courses = useMemo(() => semesterPlan?.courses ?? [], [semesterPlan]);
+  const selectedSections = useMemo(() => semesterPlan?.selectedSections ?? {}, [semesterPlan]);
+  const selectedLinkedSections = useMemo(() => semesterPlan?.selectedLinkedSections ?? {}, [semesterPlan]);
+
+  // Left column mode, ranking preferences and the combination being previewed
+  const [mode, setMode] = useState<'pick' | 'suggest'>('pick');
+  const [preferences, setPreferences] = useState<SchedulePreferences>(DEFAULT_SCHEDULE_PREFERENCES);
+  const [preview, setPreview] = useState<SectionCombination | null>(null);
+
+  // Calendar export form
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportDates, setExportDates] = useState(() => getDefaultSemesterDates(semester));
+  const [holidayText, setHolidayText] = useState('');
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  // Instructors teaching any section of the planned courses
+  const instructors = useMemo(() =>
+    Array.from(new Set(
+      courses.flatMap(course => (course.sections || []).map(section => section.instructor).filter(Boolean))
+    )).sort(),
+    [courses]
+  );
+
+  // Ranked conflict-free combinations (only computed while the suggestions are shown)
+  const combinationResult = useMemo(() => {
+    if (!isOpen || mode !== 'suggest') return null;
+    return generateSectionCombinations(courses, preferences);
+  }, [isOpen, mode, courses, preferences]);
+
+  // The calendar shows the previewed combination, or the sections chosen so far
+  const shownSections = preview?.selections ?? selectedSections;
+  const shownLinkedSections = preview?.linkedSelections ?? selectedLinkedSections;
+
+  // Meetings of every chosen lecture and lab/recitation section
+  const scheduled: (ScheduledSection & { kind: SectionKind })[] = useMemo(() =>
+    courses.flatMap(course => {
+      const sections = classifySections(course.sections || []);
+      return [shownSections[course.course_code], shownLinkedSections[course.course_code]]
+        .filter((sectionIndex): sectionIndex is number => sectionIndex !== undefined && !!sections[sectionIndex])
+        .map(sectionIndex => ({
+          courseCode: course.course_code,
+          sectionIndex,
+          kind: sections[sectionIndex].kind,
+          meetings: parseSchedule(sections[sectionIndex].schedule).meetings
+        }));
+    }),
+    [courses, shownSections, shownLinkedSections]
+  );
+
+  const conflicts = useMemo(() => findScheduleConflicts(scheduled), [scheduled]);
+  const conflictingCourses = new Set(conflicts.flatMap(c => [c.courseA, c.courseB]));
+
+  // Show weekend columns only when a chosen section meets on the weekend
+  const days = WEEKDAYS.filter(({ day }) =>
+    !['S', 'U'].includes(day) || scheduled.some(s => s.meetings.some(m => m.day === day))
+  );
+
+  // Stretch the visible hours to fit every chosen meeting
+  const allMeetings = scheduled.flatMap(s => s.meetings);
+  const dayStart = Math.floor(Math.min(DEFAULT_DAY_START, ...allMeetings.map(m => m.start)) / 60) * 60;
+  const dayEnd = Math.ceil(Math.max(DEFAULT_DAY_END, ...allMeetings.map(m => m.end)) / 60) * 60;
+  const hours = Array.from({ length: (dayEnd - dayStart) / 60 }, (_, i) => dayStart + i * 60);
+
+  const getCourseColor = (courseCode: string) =>
+    COURSE_COLORS[courses.findIndex(c => c.course_code === courseCode) % COURSE_COLORS.length];
+
+  // Toggle an instructor in the preferred list
+  const togglePreferredInstructor = (name: string) => {
+    const preferred = preferences.preferredInstructors.includes(name)
+      ? preferences.preferredInstructors.filter(n => n !== name)
+      : [...preferences.preferredInstructors, name];
+    setPreferences({ ...preferences, preferredInstructors: preferred });
+  };
+
+  // Save a suggested combination as the semester's section choices
+  const handlePin = (combination: SectionCombination) => {
+    pinSections(semester, combination.selections, combination.linkedSelections);
+    setPreview(null);
+  };
+
+  // Describe the sections of a combination (e.g., "CSC 1401 §1 + Lab §2")
+  const describeCombination = (combination: SectionCombination) =>
+    Object.entries(combination.selections).map(([code, index]) => {
+      const linkedIndex = combination.linkedSelections[code];
+      if (linkedIndex === undefined) return `${code} §${index + 1}`;
+      const course = courses.find(c => c.course_code === code);
+      const kind = course ? classifySections(course.sections)[linkedIndex]?.kind : undefined;
+      return `${code} §${index + 1} + ${kind ? SECTION_KIND_LABELS[kind] : 'Section'} §${linkedIndex + 1}`;
+    }).join(', ');
+
+  // Button for one section in the picker
+  const renderSectionButton = (course: Course, section: ClassifiedSection, isSelected: boolean) => {
+    const parsed = parseSchedule(section.schedule);
+    return (
+      <button
+        key={section.index}
+        onClick={() => selectSection(semester, course.course_code, section.index)}
+        className={`w-full text-left px-3 py-2 rounded-lg border text-xs transition-colors ${
+          isSelected
+            ? `${getCourseColor(course.course_code)} text-white`
+            : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+        }`}
+      >
+        <p className="font-medium">
+          {section.kind === 'lecture' ? 'Section' : SECTION_KIND_LABELS[section.kind]} {section.index + 1}
+          {section.instructor ? ` · ${section.instructor}` : ''}
+        </p>
+        <p className="text-gray-400 whitespace-pre-line">
+          {section.schedule.trim() || 'Schedule not announced'}
+        </p>
+        {parsed.unscheduled && parsed.meetings.length > 0 && (
+          <p className="text-amber-300">Some meetings are not scheduled yet</p>
+        )}
+      </button>
+    );
+  };
+
+  // Download the chosen sections as an .ics file
+  const handleExport = () => {
+    if (!semesterPlan) return;
+    try {
+      const holidays = holidayText.split(/[\s,]+/).map(date => date.trim()).filter(Boolean);
+      const { content, eventCount, skipped } = buildSemesterCalendar(semesterPlan, { ...exportDates, holidays });
+      if (eventCount === 0) {
+        setExportMessage('None of the chosen sections has scheduled meetings to export.');
+        return;
+      }
+
+      const blob = new Blob([content], { type: 'text/calendar' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${semester.replace(/\s+/g, '_')}_Schedule.ics`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setExportMessage(skipped.length > 0 ? `Exported. Not scheduled yet: ${skipped.join(', ')}` : null);
+    } catch (error) {
+      setExportMessage(error instanceof Error ? error.message : 'Could not export the schedule.');
+    }
+  };
+
+  // Switch the left column between manual picking and suggestions
+  const handleModeChange = (next: 'pick' | 'suggest') => {
+    setMode(next);
+    setPreview(null);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-[#0f172a]/80 backdrop-blur-sm z-[50]"
+            onClick={onClose}
+          />
+
+          {/* Modal content */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="relative bg-[#1e293b] border border-white/10 rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col pointer-events-auto">
+              {/* Header */}
+              <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-white">Weekly Schedule · {semester}</h3>
+                  <p className="text-xs text-gray-400 mt-1">Choose one lecture per course, plus a paired lab/recitation where required</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setIsExportOpen(!isExportOpen)}
+                    disabled={Object.keys(selectedSections).length === 0}
+                    className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Export .ics
+                  </button>
+                  <button onClick={onClose} className="text-white/50 hover:text-white">
+                    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+
+              {/* Calendar export */}
+              {isExportOpen && (
+                <div className="mx-6 mt-4 p-4 rounded-lg bg-white/5 border border-white/10 flex flex-wrap items-end gap-4 text-xs text-gray-300">
+                  <label className="flex flex-col space-y-1">
+                    <span>First day of classes</span>
+                    <input
+                      type="date"
+                      value={exportDates.startDate}
+                      onChange={(e) => setExportDates({ ...exportDates, startDate: e.target.value })}
+                      className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-white"
+                    />
+                  </label>
+                  <label className="flex flex-col space-y-1">
+                    <span>Last day of classes</span>
+                    <input
+                      type="date"
+                      value={exportDates.endDate}
+                      onChange={(e) => setExportDates({ ...exportDates, endDate: e.target.value })}
+                      className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-white"
+                    />
+                  </label>
+                  <label className="flex flex-col space-y-1 flex-1 min-w-[200px]">
+                    <span>Holidays (YYYY-MM-DD, separated by commas)</span>
+                    <input
+                      type="text"
+                      value={holidayText}
+                      onChange={(e) => setHolidayText(e.target.value)}
+                      placeholder="2024-11-06, 2024-11-18"
+                      className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-white placeholder-gray-500"
+                    />
+                  </label>
+                  <button
+                    onClick={handleExport}
+                    className="px-3 py-1.5 rounded-md bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:opacity-90 transition-opacity"
+                  >
+                    Download
+                  </button>
+                  {exportMessage && <p className="w-full text-amber-300">{exportMessage}</p>}
+                </div>
+              )}
+
+              {/* Conflicts */}
+              {conflicts.length > 0 && (
+                <div className="mx-6 mt-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+                  {conflicts.map((conflict, i) => (
+                    <p key={i} className="text-sm text-red-300">
+                      {conflict.courseA} and {conflict.courseB} overlap on{' '}
+                      {WEEKDAYS.find(d => d.day === conflict.day)?.name} from {formatMinutes(conflict.start)} to {formatMinutes(conflict.end)}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex-1 overflow-hidden flex">
+                <div className="w-80 border-r border-white/10 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+                  {/* Mode toggle */}
+                  <div className="flex rounded-lg bg-white/5 border border-white/10 p-1">
+                    {(['pick', 'suggest'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => handleModeChange(option)}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-xs transition-colors ${
+                          mode === option ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        {option === 'pick' ? 'Pick sections' : 'Suggest combinations'}
+                      </button>
+                    ))}
+                  </div>
+
+                  {mode === 'suggest' ? (
+                    <>
+                      {/* Preferences */}
+                      <div className="space-y-2 text-xs text-gray-300">
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={preferences.noClassesBefore !== null}
+                            onChange={(e) => setPreferences({ ...preferences, noClassesBefore: e.target.checked ? 9 * 60 : null })}
+                            className="rounded border-white/20 bg-white/5"
+                          />
+                          <span>No classes before</span>
+                          <select
+                            value={preferences.noClassesBefore ?? 9 * 60}
+                            disabled={preferences.noClassesBefore === null}
+                            onChange={(e) => setPreferences({ ...preferences, noClassesBefore: parseInt(e.target.value) })}
+                            className="bg-white/5 border border-white/10 rounded-md px-1.5 py-0.5 text-white disabled:opacity-40"
+                          >
+                            {EARLIEST_START_OPTIONS.map(minutes => (
+                              <option key={minutes} value={minutes} className="bg-[#1e293b]">{formatMinutes(minutes)}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={preferences.freeFridays}
+                            onChange={(e) => setPreferences({ ...preferences, freeFridays: e.target.checked })}
+                            className="rounded border-white/20 bg-white/5"
+                          />
+                          <span>Free Fridays</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={preferences.compactDays}
+                            onChange={(e) => setPreferences({ ...preferences, compactDays: e.target.checked })}
+                            className="rounded border-white/20 bg-white/5"
+                          />
+                          <span>Compact days</span>
+                        </label>
+                        {instructors.length > 0 && (
+                          <details>
+                            <summary className="cursor-pointer text-gray-400">
+                              Preferred instructors ({preferences.preferredInstructors.length})
+                            </summary>
+                            <div className="mt-2 space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+                              {instructors.map(name => (
+                                <label key={name} className="flex items-center space-x-2">
+                                  <input
+                                    type="checkbox"
+                                    checked={preferences.preferredInstructors.includes(name)}
+                                    onChange={() => togglePreferredInstructor(name)}
+                                    className="rounded border-white/20 bg-white/5"
+                                  />
+                                  <span>{name}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </details>
+                        )}
+                      </div>
+
+                      {/* Ranked combinations */}
+                      {combinationResult && (
+                        <div className="space-y-2">
+                          <p className="text-xs text-gray-500">
+                            {combinationResult.totalFound === 0
+                              ? 'No conflict-free combination exists for these courses.'
+                              : `${combinationResult.totalFound}${combinationResult.truncated ? '+' : ''} conflict-free combinations`}
+                          </p>
+                          {combinationResult.unsectioned.length > 0 && (
+                            <p className="text-xs text-amber-300">No sections listed for {combinationResult.unsectioned.join(', ')}</p>
+                          )}
+                          {combinationResult.combinations.map((combination, i) => (
+                            <div
+                              key={i}
+                              onMouseEnter={() => setPreview(combination)}
+                              className={`p-3 rounded-lg border text-xs ${
+                                preview === combination ? 'bg-white/10 border-purple-400/50' : 'bg-white/5 border-white/10'
+                              }`}
+                            >
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="font-semibold text-white">Option {i + 1}</span>
+                                <span className="text-gray-400">Score {combination.score}</span>
+                              </div>
+                              <p className="text-gray-400">
+                                {combination.daysOnCampus} days on campus
+                                {combination.earliestStart !== null ? ` · first class ${formatMinutes(combination.earliestStart)}` : ''}
+                              </p>
+                              <p className="text-gray-300 mt-1">
+                                {describeCombination(combination)}
+                              </p>
+                              <button
+                                onClick={() => handlePin(combination)}
+                                className="mt-2 w-full px-3 py-1.5 rounded-md bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:opacity-90 transition-opacity"
+                              >
+                                Pin to {semester}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                  <>
+                  {/* Section picker */}
+                  {courses.length === 0 && (
+                    <p className="text-sm text-gray-500">No courses planned for this semester.</p>
+                  )}
+                  {courses.map(course => (
+                    <div key={course.course_code}>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-semibold text-white">{course.course_code}</span>
+                        {(selectedSections[course.course_code] !== undefined || selectedLinkedSections[course.course_code] !== undefined) && (
+                          <button
+                            onClick={() => selectSection(semester, course.course_code, null)}
+                            className="text-xs text-gray-400 hover:text-white"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
+                      {(course.sections || []).length === 0 && (
+                        <p className="text-xs text-gray-500">No sections listed</p>
+                      )}
+                      <div className="space-y-1.5">
+                        {getLectureSections(course).map(section =>
+                          renderSectionButton(course, section, selectedSections[course.course_code] === section.index)
+                        )}
+                      </div>
+
+                      {/* Labs/recitations paired with the chosen lecture */}
+                      {requiresLinkedSection(course) && (
+                        <div className="mt-2 pl-3 border-l border-white/10 space-y-1.5">
+                          {selectedSections[course.course_code] === undefined ? (
+                            <p className="text-xs text-gray-500">Choose a lecture to see its lab/recitation sections</p>
+                          ) : (
+                            <>
+                              {selectedLinkedSections[course.course_code] === undefined && (
+                                <p className="text-xs text-amber-300">This course also needs a lab/recitation section</p>
+                              )}
+                              {getLinkedSections(course, selectedSections[course.course_code]).map(section =>
+                                renderSectionButton(course, section, selectedLinkedSections[course.course_code] === section.index)
+                              )}
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  </>
+                  )}
+                </div>
+
+                {/* Weekly calendar */}
+                <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+                  <div className="flex min-w-[600px]">
+                    {/* Hour labels */}
+                    <div className="w-16 pt-8">
+                      {hours.map(hour => (
+                        <div key={hour} style={{ height: 60 * PIXELS_PER_MINUTE }} className="text-xs text-gray-500 -mt-2">
+                          {formatMinutes(hour)}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Day columns */}
+                    {days.map(({ day, name }) => (
+                      <div key={day} className="flex-1 min-w-[100px]">
+                        <div className="h-8 text-center text-sm font-medium text-gray-300">{name}</div>
+                        <div
+                          className="relative border-l border-white/10"
+                          style={{ height: (dayEnd - dayStart) * PIXELS_PER_MINUTE }}
+                        >
+                          {/* Hour lines */}
+                          {hours.map(hour => (
+                            <div
+                              key={hour}
+                              className="absolute left-0 right-0 border-t border-white/5"
+                              style={{ top: (hour - dayStart) * PIXELS_PER_MINUTE }}
+                            />
+                          ))}
+
+                          {/* Meetings */}
+                          {scheduled.flatMap(section =>
+                            section.meetings
+                              .filter(meeting => meeting.day === day)
+                              .map((meeting, i) => (
+                                <div
+                                  key={`${section.courseCode}-${section.sectionIndex}-${i}`}
+                                  className={`absolute left-1 right-1 rounded-md border px-1.5 py-1 overflow-hidden ${
+                                    conflictingCourses.has(section.courseCode)
+                                      ? 'bg-red-500/30 border-red-400/70'
+                                      : getCourseColor(section.courseCode)
+                                  }`}
+                                  style={{
+                                    top: (meeting.start - dayStart) * PIXELS_PER_MINUTE,
+                                    height: (meeting.end - meeting.start) * PIXELS_PER_MINUTE
+                                  }}
+                                >
+                                  <p className="text-xs font-semibold text-white">
+                                    {section.courseCode}
+                                    {section.kind !== 'lecture' ? ` ${SECTION_KIND_LABELS[section.kind]}` : ''}
+                                  </p>
+                                  <p className="text-[10px] text-gray-200">
+                                    {formatMinutes(meeting.start)}-{formatMinutes(meeting.end)}
+                                  </p>
+                                </div>
+                              ))
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
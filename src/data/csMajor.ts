@@ -1,4 +1,5 @@
 import { Course, MajorRequirements } from '@/lib/pdfParser';
+import type { RequirementCategory } from '@/lib/degreeAudit';
 
 export const csMajorData: MajorRequirements = {
   name: "Computer Science",
@@ -245,3 +246,57 @@ export const csMajorData: MajorRequirements = {
     }
   ]
 };
+
+// Requirement categories of the CS major, used by the degree audit
+// General education categories are added by the audit from GE_CATEGORIES
+export const csRequirementCategories: RequirementCategory[] = [
+  // First-semester Arabic, FAS and FYE courses are covered by the general education categories
+  {
+    code: 'CS_FOUNDATIONS',
+    name: 'Programming and Calculus',
+    credits: 7,
+    options: ['MTH 1303', 'CSC 1401'],
+    required: ['MTH 1303', 'CSC 1401']
+  },
+  {
+    code: 'CS_MATH',
+    name: 'Mathematics',
+    credits: 12,
+    options: ['MTH 1304', 'MTH 2301', 'MTH 2320', 'MTH 3301'],
+    required: ['MTH 1304', 'MTH 2301', 'MTH 2320', 'MTH 3301']
+  },
+  {
+    code: 'CS_SCIENCE',
+    name: 'Sciences and Engineering',
+    credits: 11,
+    options: ['PHY 1401', 'PHY 1402', 'EGR 2302'],
+    required: ['PHY 1401', 'PHY 1402', 'EGR 2302']
+  },
+  {
+    code: 'CS_CORE',
+    name: 'Computer Science Core',
+    credits: 34,
+    options: [
+      'CSC 2302', 'CSC 2306', 'CSC 2305', 'CSC 3315', 'CSC 3351', 'CSC 3374',
+      'CSC 3323', 'CSC 3324', 'CSC 3371', 'CSC 3326', 'EGR 4402'
+    ],
+    required: [
+      'CSC 2302', 'CSC 2306', 'CSC 2305', 'CSC 3315', 'CSC 3351', 'CSC 3374',
+      'CSC 3323', 'CSC 3324', 'CSC 3371', 'CSC 3326', 'EGR 4402'
+    ]
+  },
+  {
+    code: 'CS_SPECIALIZATION',
+    name: 'Specialization Track',
+    credits: 9,
+    options: [
+      // AI Track
+      'CSC 3309', 'CSC 3347', 'CSC 3310',
+      // Big Data Track
+      'CSC 3331', 'CSC 4352', 'CSC 3329',
+      // Software Engineering Track
+      'CSC 4307', 'CSC 4309', 'CSC 3357'
+    ],
+    required: []
+  }
+];
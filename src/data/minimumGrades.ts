@@ -0,0 +1,24 @@
+import type { MinimumGradeRules } from '@/lib/prerequisites';
+
+// Lowest grade a prerequisite needs before it counts, per major
+// Subject rules cover every prerequisite with that prefix; course rules (codes without spaces) take precedence.
+// Prerequisites without a rule count with any passing grade
+export const MINIMUM_PREREQUISITE_GRADES: Record<string, MinimumGradeRules> = {
+  // Computer Science: computing and math prerequisites need a C or better
+  CS: {
+    subjects: { CSC: 'C', MTH: 'C' },
+    courses: {}
+  },
+
+  // Business Administration: accounting and finance prerequisites need a C or better
+  BA: {
+    subjects: { ACC: 'C', FIN: 'C' },
+    courses: {}
+  },
+
+  // International Studies: any passing grade
+  IS: {
+    subjects: {},
+    courses: {}
+  }
+};
@@ -0,0 +1,22 @@
+import type { PrerequisiteExpression } from '@/lib/prerequisites';
+
+// Hand-checked prerequisites that replace the scraped data, keyed by course code without spaces
+// Add an entry when the scraper's groups do not match the catalog description; null means no prerequisites
+export const PREREQUISITE_OVERRIDES: Record<string, PrerequisiteExpression | null> = {
+  // Any one of the first-year math courses (scraped as four separate groups)
+  ACC2301: {
+    type: 'or',
+    items: [
+      { type: 'course', code: 'MTH 1303' },
+      { type: 'course', code: 'MTH 1304' },
+      { type: 'course', code: 'MTH 1305' },
+      { type: 'course', code: 'MTH 1311' }
+    ]
+  },
+
+  // Computer Programming only
+  CSC2302: { type: 'course', code: 'CSC 1401' },
+
+  // Scraped with a blank non-course entry next to the course
+  CSC3331: { type: 'course', code: 'CSC 3326' }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canRetake,
+  countsTowardPrerequisites,
+  getAttemptNumber,
+  getCountedCredits,
+  isPastSemester,
+  isSemesterLocked,
+  meetsMinimumGrade,
+  normalizeCourseRecord
+} from '../courseStatus';
+import { makeCourse, makeSemester } from './fixtures';
+
+describe('course records', () => {
+  it('marks a completed course with a failing grade as failed and drops grades that do not apply', () => {
+    expect(normalizeCourseRecord({ status: 'completed', grade: 'F' })).toEqual({ status: 'failed', grade: 'F' });
+    expect(normalizeCourseRecord({ status: 'completed', grade: 'E' })).toEqual({ status: 'completed' });
+    expect(normalizeCourseRecord({ status: 'in-progress', grade: 'A' })).toEqual({ status: 'in-progress' });
+  });
+
+  it('allows a retake after a failure, a withdrawal or a grade below the minimum', () => {
+    expect(canRetake({ status: 'failed', grade: 'F' }, null)).toBe(true);
+    expect(canRetake({ status: 'withdrawn' }, null)).toBe(true);
+    expect(canRetake({ status: 'completed', grade: 'C-' }, 'C')).toBe(true);
+    expect(canRetake({ status: 'completed', grade: 'C' }, 'C')).toBe(false);
+    expect(canRetake({ status: 'completed', grade: 'C' }, 'B')).toBe(true);
+    expect(canRetake({ status: 'completed', grade: 'D' }, null)).toBe(false);
+    expect(canRetake({ status: 'planned' }, 'C')).toBe(false);
+  });
+
+  it('compares letter grades against a minimum', () => {
+    expect(meetsMinimumGrade('C+', 'C')).toBe(true);
+    expect(meetsMinimumGrade('D', 'C')).toBe(false);
+    expect(meetsMinimumGrade('X', 'C')).toBe(false);
+  });
+
+  it('leaves failed and withdrawn courses out of prerequisites and class standing', () => {
+    const plan = makeSemester('Fall 2024', [makeCourse('MTH 1303'), makeCourse('ENG 1301'), makeCourse('CSC 1401', 4)], {
+      'MTH 1303': { status: 'failed', grade: 'F' },
+      'ENG 1301': { status: 'withdrawn' }
+    });
+
+    expect(countsTowardPrerequisites(plan, 'MTH 1303')).toBe(false);
+    expect(countsTowardPrerequisites(plan, 'ENG 1301')).toBe(false);
+    expect(countsTowardPrerequisites(plan, 'CSC 1401')).toBe(true);
+    expect(getCountedCredits(plan)).toBe(4);
+  });
+
+  it('numbers the attempts of a course in plan order', () => {
+    const course = makeCourse('MTH 1303');
+    const plans = [makeSemester('Fall 2024', [course]), makeSemester('Spring 2025', []), makeSemester('Fall 2025', [course])];
+
+    expect(getAttemptNumber(plans, 'Fall 2024', 'MTH 1303')).toBe(1);
+    expect(getAttemptNumber(plans, 'Fall 2025', 'MTH 1303')).toBe(2);
+  });
+});
+
+describe('semester locks', () => {
+  const today = new Date(2025, 5, 15); // June 15, 2025
+
+  it('treats a semester as past once its last month of classes is over', () => {
+    expect(isPastSemester('Fall 2024', today)).toBe(true);
+    expect(isPastSemester('Spring 2025', today)).toBe(true);
+    expect(isPastSemester('Summer 2025', today)).toBe(false);
+    expect(isPastSemester('Not a semester', today)).toBe(false);
+  });
+
+  it('lets the student lock or unlock a semester regardless of the date', () => {
+    expect(isSemesterLocked(makeSemester('Fall 2024', []), today)).toBe(true);
+    expect(isSemesterLocked({ ...makeSemester('Fall 2024', []), locked: false }, today)).toBe(false);
+    expect(isSemesterLocked({ ...makeSemester('Fall 2026', []), locked: true }, today)).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { auditDegreePlan, getDegreeRequirements, RequirementCategory, RequirementsDefinition } from '../degreeAudit';
+import { makeCourse, makeSemester } from './fixtures';
+
+// Two categories sharing an elective option (TST 3001) and a required course (TST 1001)
+const makeRequirements = (allowDoubleCounting: { first?: boolean; second?: boolean } = {}): RequirementsDefinition => {
+  const first: RequirementCategory = {
+    code: 'FIRST',
+    name: 'First Category',
+    credits: 6,
+    options: ['TST 1001', 'TST 2001', 'TST 3001'],
+    required: ['TST 1001'],
+    allowDoubleCounting: allowDoubleCounting.first
+  };
+  const second: RequirementCategory = {
+    code: 'SECOND',
+    name: 'Second Category',
+    credits: 3,
+    options: ['TST 3001', 'TST 4001'],
+    required: [],
+    allowDoubleCounting: allowDoubleCounting.second
+  };
+  return { name: 'Test Degree', totalCredits: 12, categories: [first, second] };
+};
+
+const plan = (...codes: string[]) => [makeSemester('Fall 2040', codes.map(code => makeCourse(code)))];
+
+describe('auditDegreePlan', () => {
+  it('applies required courses first and fills the remaining credits with options', () => {
+    const audit = auditDegreePlan(plan('TST 2001', 'TST 1001', 'TST 4001', 'TST 9001'), makeRequirements());
+    const [first, second] = audit.categories;
+
+    expect(first.appliedCourses).toEqual(['TST 1001', 'TST 2001']);
+    expect(first.satisfiedCredits).toBe(6);
+    expect(first.isComplete).toBe(true);
+    expect(first.remainingOptions).toEqual([]);
+    expect(second.appliedCourses).toEqual(['TST 4001']);
+    expect(audit.unappliedCourses).toEqual(['TST 9001']);
+    expect(audit.totalCredits).toBe(12);
+    expect(audit.isComplete).toBe(true);
+  });
+
+  it('reports missing required courses and the options still available', () => {
+    const audit = auditDegreePlan(plan('TST 2001'), makeRequirements());
+    const [first] = audit.categories;
+
+    expect(first.missingRequired).toEqual(['TST 1001']);
+    expect(first.remainingOptions).toEqual(['TST 1001', 'TST 3001']);
+    expect(first.isComplete).toBe(false);
+    expect(audit.isComplete).toBe(false);
+  });
+
+  it('counts a shared option in one category only unless both categories allow double counting', () => {
+    const audit = auditDegreePlan(plan('TST 1001', 'TST 3001'), makeRequirements({ first: true }));
+    const [first, second] = audit.categories;
+
+    expect(first.appliedCourses).toEqual(['TST 1001', 'TST 3001']);
+    expect(second.appliedCourses).toEqual([]);
+    expect(second.doubleCounted).toEqual([]);
+  });
+
+  it('counts a shared option in both categories when both allow double counting', () => {
+    const audit = auditDegreePlan(plan('TST 1001', 'TST 3001'), makeRequirements({ first: true, second: true }));
+    const [first, second] = audit.categories;
+
+    expect(first.appliedCourses).toEqual(['TST 1001', 'TST 3001']);
+    expect(second.appliedCourses).toEqual(['TST 3001']);
+    expect(second.doubleCounted).toEqual([{ courseCode: 'TST 3001', otherCategory: 'First Category', allowed: true }]);
+    expect(second.doubleCountingRespected).toBe(true);
+  });
+
+  it('flags a required course shared with a category that does not allow double counting', () => {
+    const requirements = makeRequirements({ first: true });
+    requirements.categories[1].required = ['TST 1001'];
+    requirements.categories[1].options.push('TST 1001');
+    const audit = auditDegreePlan(plan('TST 1001', 'TST 2001', 'TST 4001'), requirements);
+    const [first, second] = audit.categories;
+
+    expect(first.doubleCounted).toEqual([{ courseCode: 'TST 1001', otherCategory: 'Second Category', allowed: false }]);
+    expect(first.doubleCountingRespected).toBe(false);
+    expect(second.doubleCountingRespected).toBe(false);
+    expect(audit.isComplete).toBe(false);
+  });
+});
+
+describe('getDegreeRequirements', () => {
+  it('adds the major categories to general education for Computer Science', () => {
+    const codes = getDegreeRequirements('CS').categories.map(category => category.code);
+
+    expect(codes).toEqual(expect.arrayContaining(['CS_FOUNDATIONS', 'CS_MATH', 'CS_SCIENCE', 'CS_CORE']));
+    expect(getDegreeRequirements('CS', 140).totalCredits).toBe(140);
+  });
+
+  it('audits other majors for general education only', () => {
+    const requirements = getDegreeRequirements('BA', 128);
+
+    expect(requirements.categories.some(category => category.code.startsWith('CS_'))).toBe(false);
+    expect(requirements.totalCredits).toBe(128);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Test Fixtures
+ *
+ * Small builders for the store types used across the library tests, so each test
+ * only spells out the fields it is about.
+ */
+
+import type { Course, SemesterPlan, UserInfo } from '../store';
+import type { CourseRecord } from '../courseStatus';
+
+// A catalog course with no prerequisites, corequisites or sections unless given
+export const makeCourse = (code: string, credits = 3, overrides: Partial<Course> = {}): Course => ({
+  course_code: code,
+  course_name: `${code} Course`,
+  credits: String(credits),
+  prerequisites: [],
+  corequisites: [],
+  sections: [],
+  ...overrides
+});
+
+// A semester holding the given courses, with its credit total filled in
+export const makeSemester = (
+  semester: string,
+  courses: Course[],
+  courseRecords?: Record<string, CourseRecord>
+): SemesterPlan => ({
+  semester,
+  type: semester.startsWith('Summer') ? 'summer' : 'regular',
+  courses,
+  credits: courses.reduce((total, course) => total + (parseInt(course.credits) || 0), 0),
+  ...(courseRecords ? { courseRecords } : {})
+});
+
+// A Computer Science student planning from Fall 2024 to Spring 2028
+export const makeUserInfo = (overrides: Partial<UserInfo> = {}): UserInfo => ({
+  name: 'Test Student',
+  studentId: '12345',
+  major: 'CS',
+  startSemester: 'Fall',
+  startYear: 2024,
+  endSemester: 'Spring',
+  endYear: 2028,
+  totalCreditsToGraduate: 136,
+  ...overrides
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGpa, formatGpa, projectGpa } from '../gpa';
+import { makeCourse, makeSemester } from './fixtures';
+
+const mth1303 = makeCourse('MTH 1303');
+const eng1301 = makeCourse('ENG 1301');
+
+describe('calculateGpa', () => {
+  it('replaces the grade of a repeated course with the latest attempt', () => {
+    const summary = calculateGpa([
+      makeSemester('Fall 2024', [mth1303, eng1301], {
+        'MTH 1303': { status: 'failed', grade: 'F' },
+        'ENG 1301': { status: 'completed', grade: 'A' }
+      }),
+      makeSemester('Spring 2025', [mth1303], { 'MTH 1303': { status: 'completed', grade: 'B' } })
+    ]);
+
+    expect(summary.gpa).toBeCloseTo(3.5);
+    expect(summary.gradedCredits).toBe(6);
+    expect(summary.qualityPoints).toBeCloseTo(21);
+    expect(summary.earnedCredits).toBe(6);
+    expect(summary.courses.map(course => [course.semester, course.courseCode, course.replaced])).toEqual([
+      ['Fall 2024', 'MTH 1303', true],
+      ['Fall 2024', 'ENG 1301', false],
+      ['Spring 2025', 'MTH 1303', false]
+    ]);
+  });
+
+  it('keeps each semester GPA on its own attempts and the cumulative GPA on the latest ones', () => {
+    const summary = calculateGpa([
+      makeSemester('Fall 2024', [mth1303, eng1301], {
+        'MTH 1303': { status: 'failed', grade: 'F' },
+        'ENG 1301': { status: 'completed', grade: 'A' }
+      }),
+      makeSemester('Spring 2025', [mth1303], { 'MTH 1303': { status: 'completed', grade: 'B' } })
+    ]);
+
+    expect(summary.semesters.map(semester => [semester.semester, semester.gpa, semester.cumulativeGpa])).toEqual([
+      ['Fall 2024', 2, 2],
+      ['Spring 2025', 3, 3.5]
+    ]);
+  });
+
+  it('counts a failed course without a grade as an F and leaves out withdrawn and planned courses', () => {
+    const summary = calculateGpa([
+      makeSemester('Fall 2024', [mth1303, eng1301, makeCourse('FRN 1301')], {
+        'MTH 1303': { status: 'failed' },
+        'ENG 1301': { status: 'withdrawn' }
+      })
+    ]);
+
+    expect(summary.gpa).toBe(0);
+    expect(summary.gradedCredits).toBe(3);
+    expect(summary.earnedCredits).toBe(0);
+  });
+
+  it('has no GPA before any course is graded', () => {
+    const summary = calculateGpa([makeSemester('Fall 2024', [mth1303])]);
+
+    expect(summary.gpa).toBeNull();
+    expect(formatGpa(summary.gpa)).toBe('–');
+  });
+});
+
+describe('projectGpa', () => {
+  it('works out the GPA needed over the remaining credits', () => {
+    const summary = calculateGpa([
+      makeSemester('Fall 2024', [mth1303, eng1301], {
+        'MTH 1303': { status: 'completed', grade: 'C' },
+        'ENG 1301': { status: 'completed', grade: 'C' }
+      })
+    ]);
+
+    const projection = projectGpa(summary, 3, 6);
+
+    expect(projection.requiredGpa).toBeCloseTo(4);
+    expect(projection.status).toBe('achievable');
+    expect(projectGpa(summary, 3.5, 6).status).toBe('unreachable');
+    expect(projectGpa(summary, 1, 6).status).toBe('reached');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { buildSemesterCalendar, getDefaultSemesterDates } from '../icsExport';
+import { makeCourse, makeSemester } from './fixtures';
+
+// A lecture meeting three days a week with its Monday lab, and a course whose section is not scheduled yet
+const programming = makeCourse('CSC 1401', 4, {
+  course_name: 'Computer Programming',
+  sections: [
+    { instructor: 'Dr. Alami', schedule: 'MWF 9:00 AM-9:50 AM; AUI CAMPUS' },
+    { instructor: '', schedule: 'M 1:40 PM-3:30 PM; Lab 2, Building 8' }
+  ]
+});
+const writing = makeCourse('ENG 1301', 3, {
+  sections: [{ instructor: 'Dr. Bennani', schedule: 'TBA' }]
+});
+
+const semester = {
+  ...makeSemester('Fall 2040', [programming, writing]),
+  selectedSections: { 'CSC 1401': 0, 'ENG 1301': 0 },
+  selectedLinkedSections: { 'CSC 1401': 1 }
+};
+
+// Saturday start, a Wednesday and a Thursday holiday, and a holiday after the semester
+const options = {
+  startDate: '2040-09-01',
+  endDate: '2040-12-14',
+  holidays: ['2040-09-05', '2040-11-22', '2041-01-01']
+};
+
+// The unfolded lines of each event in an export
+const getEvents = (content: string) =>
+  content
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT')
+    .slice(1)
+    .map(event => event.split('\r\n'));
+
+describe('buildSemesterCalendar', () => {
+  it('writes one weekly event per chosen lecture and lab, starting on the first meeting day', () => {
+    const result = buildSemesterCalendar(semester, options);
+    const [lecture, lab] = getEvents(result.content);
+
+    expect(result.eventCount).toBe(2);
+    expect(result.content.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(result.content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lecture).toEqual(expect.arrayContaining([
+      'DTSTART:20400903T090000',
+      'DTEND:20400903T095000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20401214T235900',
+      'SUMMARY:CSC 1401 Computer Programming',
+      'LOCATION:AUI CAMPUS',
+      'DESCRIPTION:Section 1\\nInstructor: Dr. Alami'
+    ]));
+    expect(lab).toEqual(expect.arrayContaining([
+      'DTSTART:20400903T134000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20401214T235900',
+      'SUMMARY:CSC 1401 Computer Programming (Lab)',
+      'LOCATION:Lab 2\\, Building 8',
+      'DESCRIPTION:Lab 2'
+    ]));
+  });
+
+  it('excludes holidays falling on a meeting day within the semester', () => {
+    const [lecture, lab] = getEvents(buildSemesterCalendar(semester, options).content);
+
+    expect(lecture.filter(line => line.startsWith('EXDATE'))).toEqual(['EXDATE:20400905T090000']);
+    expect(lab.some(line => line.startsWith('EXDATE'))).toBe(false);
+  });
+
+  it('reports chosen sections without a scheduled meeting', () => {
+    expect(buildSemesterCalendar(semester, options).skipped).toEqual(['ENG 1301']);
+  });
+
+  it('folds lines longer than 75 characters', () => {
+    const longName = { ...programming, course_name: 'Introduction to Computer Programming and Problem Solving with Modern Languages' };
+    const result = buildSemesterCalendar({ ...semester, courses: [longName] }, options);
+    const lines = result.content.split('\r\n');
+
+    expect(lines.every(line => line.length <= 75)).toBe(true);
+    expect(getEvents(result.content)[0]).toContain(`SUMMARY:CSC 1401 ${longName.course_name}`);
+  });
+
+  it('rejects an end date before the start date', () => {
+    expect(() => buildSemesterCalendar(semester, { ...options, endDate: '2040-08-01' })).toThrow(
+      'The semester end date must be on or after its start date'
+    );
+    expect(() => buildSemesterCalendar(semester, { ...options, startDate: 'September 1' })).toThrow();
+  });
+});
+
+describe('getDefaultSemesterDates', () => {
+  it('guesses the class period from the term and year', () => {
+    expect(getDefaultSemesterDates('Spring 2041')).toEqual({ startDate: '2041-01-15', endDate: '2041-05-10' });
+    expect(getDefaultSemesterDates('Summer 2041')).toEqual({ startDate: '2041-06-01', endDate: '2041-07-31' });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeGraduationPath, OptimizerOptions } from '../pathOptimizer';
+import { makeCourse, makeSemester, makeUserInfo } from './fixtures';
+
+// A three-course chain: TST 1001 → TST 2001 → TST 3001
+const first = makeCourse('TST 1001');
+const second = makeCourse('TST 2001', 3, { prerequisites: [[{ type: 'course', value: 'TST1001' }]] });
+const third = makeCourse('TST 3001', 3, { prerequisites: [[{ type: 'course', value: 'TST2001' }]] });
+const catalog = [first, second, third];
+
+// Semesters far enough ahead that none of them is locked by date
+const userInfo = makeUserInfo({ startYear: 2040, endSemester: 'Spring', endYear: 2042 });
+const emptyPlans = () => ['Fall 2040', 'Spring 2041', 'Summer 2041', 'Fall 2041', 'Spring 2042']
+  .map(semester => makeSemester(semester, []));
+
+const options: OptimizerOptions = { objective: 'fewest-semesters', includeSummer: false };
+
+describe('optimizeGraduationPath', () => {
+  it('schedules required courses after their prerequisites', () => {
+    const result = optimizeGraduationPath(catalog, emptyPlans(), userInfo, ['TST 3001', 'TST 2001', 'TST 1001'], options);
+
+    expect(result.feasible).toBe(true);
+    expect(result.unscheduled).toEqual([]);
+    expect(result.semesters.map(semester => semester.courses.map(course => course.course_code))).toEqual([
+      ['TST 1001'], ['TST 2001'], [], ['TST 3001'], []
+    ]);
+    expect(result.lastSemester).toBe('Fall 2041');
+  });
+
+  it('keeps pinned courses in their semester', () => {
+    const plans = emptyPlans();
+    plans[4] = { ...makeSemester('Spring 2042', [first]), pinnedCourses: ['TST 1001'] };
+
+    const result = optimizeGraduationPath(catalog, plans, userInfo, ['TST 1001', 'TST 2001'], options);
+
+    expect(result.semesters[4].courses).toEqual([first]);
+    expect(result.semesters[4].pinned).toEqual(['TST 1001']);
+    expect(result.feasible).toBe(false);
+    expect(result.unscheduled).toEqual(['TST 2001']);
+  });
+
+  it('reports required courses the catalog does not offer instead of calling the plan feasible', () => {
+    const result = optimizeGraduationPath(catalog, emptyPlans(), userInfo, ['TST 1001', 'SLP 1101'], options);
+
+    expect(result.feasible).toBe(false);
+    expect(result.unscheduled).toEqual(['SLP 1101']);
+    expect(result.bindingConstraints).toEqual([{
+      kind: 'not-in-catalog',
+      message: 'SLP 1101 is required but not offered in the catalog, so it cannot be scheduled'
+    }]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPlanFile,
+  getPlansFromFile,
+  parseLegacyTextPlan,
+  PLAN_FILE_VERSION,
+  readPlanFile,
+  resolveLegacySemesters,
+  validatePlanFile
+} from '../planFile';
+import type { NamedPlan } from '../store';
+import { makeCourse, makeSemester, makeUserInfo } from './fixtures';
+
+const catalog = [makeCourse('CSC 1401', 4), makeCourse('MTH 1303'), makeCourse('ENG 1301')];
+
+const plans: NamedPlan[] = [
+  {
+    id: 'plan-1',
+    name: 'Plan A',
+    notes: 'Keep Fridays free',
+    semesterPlans: [
+      makeSemester('Fall 2024', [catalog[0], catalog[1]], { 'MTH 1303': { status: 'failed', grade: 'F' } }),
+      makeSemester('Spring 2025', [catalog[1]])
+    ]
+  },
+  { id: 'plan-2', name: 'Plan B', semesterPlans: [makeSemester('Fall 2024', [])] }
+];
+
+// A valid file as plain JSON data, ready to be broken by a test
+const createFileData = () => JSON.parse(JSON.stringify(createPlanFile(makeUserInfo(), plans, 'plan-1', catalog)));
+
+describe('plan files', () => {
+  it('reads back an exported file with every plan as saved', () => {
+    const result = readPlanFile(JSON.stringify(createPlanFile(makeUserInfo(), plans, 'plan-1', catalog)));
+
+    expect(result.ok && result.kind === 'json').toBe(true);
+    if (!result.ok || result.kind !== 'json') return;
+    expect(result.file.activePlanId).toBe('plan-1');
+    expect(getPlansFromFile(result.file)).toEqual([plans[0], { ...plans[1], notes: '' }]);
+  });
+
+  it('reports each problem with the path of the field', () => {
+    const data = createFileData();
+    data.userInfo.startSemester = 'Winter';
+    data.plans[0].semesters[0].credits = 3;
+    data.plans[0].semesters[1].courseRecords = { 'CSC 1401': { status: 'passed' } };
+    data.plans[0].semesters[1].pinnedCourses = ['ENG 1301'];
+
+    expect(validatePlanFile(data)).toEqual([
+      'userInfo.startSemester: expected one of "Fall", "Spring", "Summer", found "Winter"',
+      'plans[0].semesters[0].credits: expected 7 (the sum of the course credits), found 3',
+      'plans[0].semesters[1].pinnedCourses[0]: refers to a course that is not planned in this semester',
+      'plans[0].semesters[1].courseRecords["CSC 1401"]: refers to a course that is not planned in this semester',
+      'plans[0].semesters[1].courseRecords["CSC 1401"].status: expected one of "planned", "in-progress", "completed", "failed", "withdrawn", found "passed"'
+    ]);
+  });
+
+  it('rejects duplicate plan ids and an active plan that does not exist', () => {
+    const data = createFileData();
+    data.plans[1].id = 'plan-1';
+    data.activePlanId = 'plan-3';
+
+    expect(validatePlanFile(data)).toEqual([
+      'plans[1].id: "plan-1" is used by another plan',
+      'activePlanId: "plan-3" does not match any plan id'
+    ]);
+  });
+
+  it('rejects files from a newer version of the planner', () => {
+    const data = createFileData();
+    data.version = PLAN_FILE_VERSION + 1;
+
+    expect(validatePlanFile(data)).toHaveLength(1);
+    expect(validatePlanFile(data)[0]).toMatch(/^version: the file was made with a newer version/);
+  });
+
+  it('explains files that are not plans', () => {
+    const invalidJson = readPlanFile('{ "format": ');
+    const unknown = readPlanFile('Just some notes');
+
+    expect(invalidJson.ok).toBe(false);
+    if (!invalidJson.ok) expect(invalidJson.errors[0]).toMatch(/^The file is not valid JSON/);
+    expect(unknown).toEqual({
+      ok: false,
+      errors: ['The file is neither a plan file (.json) nor a text export from an older version of the planner.']
+    });
+  });
+});
+
+describe('legacy text exports', () => {
+  // Layout written by the text export of earlier versions
+  const legacyExport = `
+=======================================================================
+                      DEGREE PLAN TEMPLATE
+=======================================================================
+Name: Amina Test
+ID: 98765
+Major: Computer Science
+School: SSE
+
+=======================================================================
+                   ACADEMIC YEAR: 2024/2025
+=======================================================================
+
+-----------------------------------------------------------------------
+                        Fall 2024
+-----------------------------------------------------------------------
+Course ID\t\tCourse Title\t\t\t\tSCH
+-----------------------------------------------------------------------
+${'CSC 1401'.padEnd(15)}${'Computer Programming'.padEnd(40)}4
+${'XYZ 1000'.padEnd(15)}${'Retired Course'.padEnd(40)}3
+-----------------------------------------------------------------------
+Total SCH: 7
+
+-----------------------------------------------------------------------
+                        Spring 2025
+-----------------------------------------------------------------------
+Course ID\t\tCourse Title\t\t\t\tSCH
+-----------------------------------------------------------------------
+NONE\t\tNo courses added\t\t\t\t0
+-----------------------------------------------------------------------
+Total SCH: 0
+
+Total SCH for 2024/2025: 7
+
+=======================================================================
+                   ACADEMIC YEAR: 2025/2026
+=======================================================================
+
+-----------------------------------------------------------------------
+                        Fall 2025
+-----------------------------------------------------------------------
+Course ID\t\tCourse Title\t\t\t\tSCH
+-----------------------------------------------------------------------
+MTH1303\t\tCalculus I\t\t\t\t3
+-----------------------------------------------------------------------
+Total SCH: 3
+
+=======================================================================
+                        DEGREE SUMMARY
+=======================================================================
+Credits Required for Graduation: 130
+`;
+
+  it('reads the student information and a timeline spanning the exported semesters', () => {
+    const legacy = parseLegacyTextPlan(legacyExport);
+
+    expect(legacy?.userInfo).toEqual({
+      name: 'Amina Test',
+      studentId: '98765',
+      major: 'CS',
+      startSemester: 'Fall',
+      startYear: 2024,
+      endSemester: 'Fall',
+      endYear: 2025,
+      totalCreditsToGraduate: 130
+    });
+    expect(legacy?.semesters.map(semester => [semester.name, semester.courses.map(course => course.course_code)])).toEqual([
+      ['Fall 2024', ['CSC 1401', 'XYZ 1000']],
+      ['Spring 2025', []],
+      ['Fall 2025', ['MTH1303']]
+    ]);
+  });
+
+  it('is recognized by readPlanFile', () => {
+    expect(readPlanFile(legacyExport)).toMatchObject({ ok: true, kind: 'legacy' });
+  });
+
+  it('resolves courses against the catalog and reports the missing ones', () => {
+    const legacy = parseLegacyTextPlan(legacyExport)!;
+    const resolved = resolveLegacySemesters(legacy.semesters, catalog);
+
+    expect(resolved.semesters.map(semester => semester.courses)).toEqual([[catalog[0]], [], [catalog[1]]]);
+    expect(resolved.missingCodes).toEqual(['XYZ 1000']);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { migratePlanState, PLAN_SCHEMA_VERSION } from '../planMigrations';
+import { makeCourse, makeSemester, makeUserInfo } from './fixtures';
+
+describe('migratePlanState', () => {
+  it('repairs unversioned course entries and recomputes semester credits', () => {
+    const state = migratePlanState({
+      semesterPlans: [{
+        semester: 'Fall 2024',
+        type: 'regular',
+        credits: 99,
+        courses: [
+          { course_code: 'CSC 1401', course_name: 'Computer Programming', credits: '4.00' },
+          { course_code: 'MTH 1303', credits: 3 },
+          { course_name: 'No code' }
+        ]
+      }],
+      userInfo: null
+    }, 0);
+
+    expect(state.semesterPlans).toEqual([{
+      semester: 'Fall 2024',
+      type: 'regular',
+      credits: 7,
+      courses: [
+        makeCourse('CSC 1401', 4, { course_name: 'Computer Programming', credits: '4.00' }),
+        makeCourse('MTH 1303', 3, { course_name: '' })
+      ]
+    }]);
+    expect(state.lastSavedAt).toBeNull();
+  });
+
+  it('turns a single saved plan into "Plan A"', () => {
+    const semesterPlans = [makeSemester('Fall 2024', [makeCourse('CSC 1401', 4)])];
+    const userInfo = makeUserInfo();
+
+    const state = migratePlanState({ semesterPlans, userInfo, lastSavedAt: 1700000000000 }, 1);
+
+    expect(state.plans).toEqual([{ id: 'plan-1', name: 'Plan A', semesterPlans }]);
+    expect(state.activePlanId).toBe('plan-1');
+    expect(state.semesterPlans).toBe(semesterPlans);
+    expect(state.userInfo).toBe(userInfo);
+    expect(state.lastSavedAt).toBe(1700000000000);
+  });
+
+  it('reads damaged saved data as an empty plan', () => {
+    const state = migratePlanState('not a plan', 0);
+
+    expect(state.semesterPlans).toEqual([]);
+    expect(state.userInfo).toBeNull();
+    expect(state.plans).toEqual([{ id: 'plan-1', name: 'Plan A', semesterPlans: [] }]);
+  });
+
+  it('leaves state saved at the current version untouched', () => {
+    const saved = {
+      semesterPlans: [],
+      userInfo: null,
+      lastSavedAt: null,
+      plans: [{ id: 'plan-2', name: 'Plan B', semesterPlans: [] }],
+      activePlanId: 'plan-2'
+    };
+
+    expect(migratePlanState(saved, PLAN_SCHEMA_VERSION)).toBe(saved);
+  });
+});
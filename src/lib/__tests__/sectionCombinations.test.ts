@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCHEDULE_PREFERENCES, generateSectionCombinations } from '../sectionCombinations';
+import { makeCourse } from './fixtures';
+
+// Two courses with two sections each; only their Monday/Wednesday/Friday 9:00 sections overlap
+const programming = makeCourse('CSC 1401', 3, {
+  sections: [
+    { instructor: 'Dr. Alami', schedule: 'MWF 9:00 AM-9:50 AM; AUI CAMPUS' },
+    { instructor: 'Dr. Bennani', schedule: 'TR 9:00 AM-10:20 AM; AUI CAMPUS' }
+  ]
+});
+const calculus = makeCourse('MTH 1303', 3, {
+  sections: [
+    { instructor: 'Dr. Chraibi', schedule: 'MWF 9:00 AM-9:50 AM; AUI CAMPUS' },
+    { instructor: 'Dr. Daoudi', schedule: 'MWF 10:00 AM-10:50 AM; AUI CAMPUS' }
+  ]
+});
+
+describe('generateSectionCombinations', () => {
+  it('leaves out combinations whose sections overlap', () => {
+    const result = generateSectionCombinations([programming, calculus], DEFAULT_SCHEDULE_PREFERENCES, 10);
+
+    expect(result.totalFound).toBe(3);
+    expect(result.truncated).toBe(false);
+    expect(result.combinations.map(combination => combination.selections)).not.toContainEqual({ 'CSC 1401': 0, 'MTH 1303': 0 });
+  });
+
+  it('ranks combinations with fewer early classes first', () => {
+    const result = generateSectionCombinations(
+      [programming, calculus],
+      { ...DEFAULT_SCHEDULE_PREFERENCES, noClassesBefore: 570 },
+      1
+    );
+
+    expect(result.combinations).toHaveLength(1);
+    expect(result.combinations[0]).toMatchObject({ selections: { 'CSC 1401': 1, 'MTH 1303': 1 }, score: -20 });
+  });
+
+  it('ranks sections taught by preferred instructors first', () => {
+    const result = generateSectionCombinations(
+      [programming, calculus],
+      { ...DEFAULT_SCHEDULE_PREFERENCES, preferredInstructors: ['chraibi'] }
+    );
+
+    expect(result.combinations[0]).toMatchObject({ selections: { 'CSC 1401': 1, 'MTH 1303': 0 }, score: 10 });
+  });
+
+  it('ranks compact weeks with short gaps first', () => {
+    const result = generateSectionCombinations(
+      [programming, calculus],
+      { ...DEFAULT_SCHEDULE_PREFERENCES, compactDays: true }
+    );
+
+    expect(result.combinations[0]).toMatchObject({
+      selections: { 'CSC 1401': 0, 'MTH 1303': 1 },
+      daysOnCampus: 3,
+      earliestStart: 540
+    });
+  });
+
+  it('attends each lecture together with one of its paired labs', () => {
+    const physics = makeCourse('PHY 1401', 4, {
+      sections: [
+        { instructor: 'Dr. Alami', schedule: 'MWF 9:00 AM-9:50 AM; AUI CAMPUS' },
+        { instructor: '', schedule: 'M 1:40 PM-3:30 PM; AUI CAMPUS' },
+        { instructor: 'Dr. Bennani', schedule: 'TR 9:00 AM-10:20 AM; AUI CAMPUS' },
+        { instructor: '', schedule: 'T 1:40 PM-3:30 PM; AUI CAMPUS' }
+      ]
+    });
+    const result = generateSectionCombinations([physics, calculus], DEFAULT_SCHEDULE_PREFERENCES, 10);
+
+    expect(result.totalFound).toBe(3);
+    expect(new Set(result.combinations.map(combination => `${combination.selections['PHY 1401']}+${combination.linkedSelections['PHY 1401']}`)))
+      .toEqual(new Set(['0+1', '2+3']));
+    expect(result.combinations.every(combination => !('MTH 1303' in combination.linkedSelections))).toBe(true);
+  });
+
+  it('lists courses without sections instead of combining them', () => {
+    const result = generateSectionCombinations([programming, makeCourse('FYE 1301')], DEFAULT_SCHEDULE_PREFERENCES);
+
+    expect(result.unsectioned).toEqual(['FYE 1301']);
+    expect(result.totalFound).toBe(2);
+  });
+});
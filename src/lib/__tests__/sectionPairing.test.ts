@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  annotateCatalogSections,
+  classifySections,
+  getLectureSections,
+  getLinkedSections,
+  requiresLinkedSection
+} from '../sectionPairing';
+import { makeCourse } from './fixtures';
+
+// Two lectures, each followed by its lab, and a recitation listed after the second lab
+const programming = makeCourse('CSC 1401', 4, {
+  sections: [
+    { instructor: 'Dr. Alami', schedule: 'MWF 9:00 AM-9:50 AM; AUI CAMPUS' },
+    { instructor: '', schedule: 'M 1:40 PM-3:30 PM; AUI CAMPUS' },
+    { instructor: 'Dr. Bennani', schedule: 'TR 9:00 AM-10:20 AM; AUI CAMPUS' },
+    { instructor: '', schedule: 'T 1:40 PM-3:30 PM; AUI CAMPUS' },
+    { instructor: '', schedule: 'F 4:00 PM-4:50 PM; AUI CAMPUS' }
+  ]
+});
+
+describe('classifySections', () => {
+  it('pairs each lab or recitation with the lecture listed before it', () => {
+    expect(classifySections(programming.sections).map(({ index, kind, lectureIndex }) => ({ index, kind, lectureIndex }))).toEqual([
+      { index: 0, kind: 'lecture', lectureIndex: null },
+      { index: 1, kind: 'lab', lectureIndex: 0 },
+      { index: 2, kind: 'lecture', lectureIndex: null },
+      { index: 3, kind: 'lab', lectureIndex: 2 },
+      { index: 4, kind: 'recitation', lectureIndex: 2 }
+    ]);
+  });
+
+  it('treats instructor-less sections meeting on several days as lectures', () => {
+    const [section] = classifySections([{ instructor: '', schedule: 'MW 11:00 AM-12:20 PM; AUI CAMPUS' }]);
+
+    expect(section.kind).toBe('lecture');
+  });
+
+  it('keeps every section a lecture when the course has no lecture', () => {
+    const sections = classifySections([
+      { instructor: '', schedule: 'M 1:40 PM-3:30 PM;' },
+      { instructor: '', schedule: 'T 1:40 PM-3:30 PM;' }
+    ]);
+
+    expect(sections.map(section => section.kind)).toEqual(['lecture', 'lecture']);
+  });
+
+  it('pairs sections listed before the first lecture with that lecture', () => {
+    const sections = classifySections([
+      { instructor: '', schedule: 'M 1:40 PM-3:30 PM;' },
+      { instructor: 'Dr. Alami', schedule: 'MWF 9:00 AM-9:50 AM;' }
+    ]);
+
+    expect(sections[0]).toMatchObject({ kind: 'lab', lectureIndex: 1 });
+  });
+
+  it('keeps kinds and pairings already annotated in the catalog', () => {
+    const [course] = annotateCatalogSections([programming]);
+    const sections = course.sections.map((section, index) => index === 4 ? { ...section, lectureIndex: 0 } : section);
+
+    expect(course.sections[1]).toMatchObject({ kind: 'lab', lectureIndex: 0 });
+    expect(classifySections(sections)[4]).toMatchObject({ kind: 'recitation', lectureIndex: 0 });
+  });
+});
+
+describe('linked sections', () => {
+  it('lists the lectures of a course and the sections paired with each', () => {
+    expect(getLectureSections(programming).map(section => section.index)).toEqual([0, 2]);
+    expect(getLinkedSections(programming, 0).map(section => section.index)).toEqual([1]);
+    expect(getLinkedSections(programming, 2).map(section => section.index)).toEqual([3, 4]);
+  });
+
+  it('offers every lab to a lecture without paired sections', () => {
+    const course = makeCourse('PHY 1401', 4, {
+      sections: [
+        { instructor: 'Dr. Chraibi', schedule: 'MWF 8:00 AM-8:50 AM;' },
+        { instructor: 'Dr. Daoudi', schedule: 'TR 8:00 AM-9:20 AM;', kind: 'lecture' },
+        { instructor: '', schedule: 'W 2:00 PM-3:50 PM;', kind: 'lab', lectureIndex: 0 }
+      ]
+    });
+
+    expect(getLinkedSections(course, 1).map(section => section.index)).toEqual([2]);
+  });
+
+  it('tells whether a course needs a lab or recitation', () => {
+    expect(requiresLinkedSection(programming)).toBe(true);
+    expect(requiresLinkedSection(makeCourse('ENG 1301', 3, {
+      sections: [{ instructor: 'Dr. Alami', schedule: 'TR 9:00 AM-10:20 AM;' }]
+    }))).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { findScheduleConflicts, formatMinutes, parseSchedule } from '../sectionSchedule';
+
+describe('parseSchedule', () => {
+  it('turns each meeting day into a time block with its location', () => {
+    expect(parseSchedule('MWF 9:00 AM-9:50 AM; AUI CAMPUS')).toEqual({
+      meetings: [
+        { day: 'M', start: 540, end: 590, location: 'AUI CAMPUS' },
+        { day: 'W', start: 540, end: 590, location: 'AUI CAMPUS' },
+        { day: 'F', start: 540, end: 590, location: 'AUI CAMPUS' }
+      ],
+      unscheduled: false
+    });
+  });
+
+  it('reads afternoon and noon times and lines without a location', () => {
+    const { meetings } = parseSchedule('TR 12:30 PM-1:50 PM;\nM 1:40 PM-3:30 PM');
+
+    expect(meetings).toEqual([
+      { day: 'T', start: 750, end: 830, location: null },
+      { day: 'R', start: 750, end: 830, location: null },
+      { day: 'M', start: 820, end: 930, location: null }
+    ]);
+  });
+
+  it('reports meetings without days or times as unscheduled', () => {
+    expect(parseSchedule('TR; AUI CAMPUS')).toEqual({ meetings: [], unscheduled: true });
+    expect(parseSchedule('9:00 AM-9:50 AM; AUI CAMPUS').unscheduled).toBe(true);
+    expect(parseSchedule('').unscheduled).toBe(true);
+  });
+
+  it('keeps the scheduled lines of a partly announced section', () => {
+    const schedule = parseSchedule('MW 11:00 AM-12:20 PM; AUI CAMPUS\nF;');
+
+    expect(schedule.meetings.map(meeting => meeting.day)).toEqual(['M', 'W']);
+    expect(schedule.unscheduled).toBe(true);
+  });
+});
+
+describe('findScheduleConflicts', () => {
+  const section = (courseCode: string, schedule: string) => ({
+    courseCode,
+    sectionIndex: 0,
+    meetings: parseSchedule(schedule).meetings
+  });
+
+  it('reports the overlap of two sections meeting on the same day', () => {
+    const conflicts = findScheduleConflicts([
+      section('CSC 1401', 'MWF 9:00 AM-9:50 AM;'),
+      section('MTH 1303', 'W 9:30 AM-10:50 AM;')
+    ]);
+
+    expect(conflicts).toEqual([{ courseA: 'CSC 1401', courseB: 'MTH 1303', day: 'W', start: 570, end: 590 }]);
+  });
+
+  it('accepts sections that end when the next one starts', () => {
+    expect(findScheduleConflicts([
+      section('CSC 1401', 'MWF 9:00 AM-9:50 AM;'),
+      section('MTH 1303', 'MWF 9:50 AM-10:40 AM;'),
+      section('ENG 1301', 'TR 9:00 AM-10:20 AM;')
+    ])).toEqual([]);
+  });
+});
+
+describe('formatMinutes', () => {
+  it('formats minutes after midnight as a 12-hour time', () => {
+    expect(formatMinutes(570)).toBe('9:30 AM');
+    expect(formatMinutes(720)).toBe('12:00 PM');
+    expect(formatMinutes(15)).toBe('12:15 AM');
+    expect(formatMinutes(1330)).toBe('10:10 PM');
+  });
+});
@@ -0,0 +1,77 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { buildShareUrl, decodeSharedPlan, encodeSharedPlan, getEncodedPlanFromHash } from '../shareLink';
+import { makeCourse, makeSemester, makeUserInfo } from './fixtures';
+
+const catalog = [makeCourse('CSC 1401', 4), makeCourse('MTH 1303'), makeCourse('ENG 1301')];
+
+// Encode a payload the way an older version of the planner did
+const encodeLegacyPayload = (payload: unknown) =>
+  deflateRawSync(Buffer.from(JSON.stringify(payload))).toString('base64url');
+
+describe('share links', () => {
+  it('round-trips the user information, courses and course records', async () => {
+    const userInfo = makeUserInfo({ placements: ['LC'], instructorPermissions: ['CSC 3326'] });
+    const semesterPlans = [
+      makeSemester('Fall 2024', [catalog[0], catalog[1]], {
+        'CSC 1401': { status: 'completed', grade: 'B+' },
+        'MTH 1303': { status: 'failed', grade: 'F' }
+      }),
+      makeSemester('Spring 2025', []),
+      makeSemester('Fall 2025', [catalog[1]])
+    ];
+
+    const shared = await decodeSharedPlan(await encodeSharedPlan(userInfo, semesterPlans), catalog);
+
+    expect(shared.userInfo).toEqual(userInfo);
+    expect(shared.missingCodes).toEqual([]);
+    expect(shared.semesters).toEqual([
+      {
+        name: 'Fall 2024',
+        courses: [catalog[0], catalog[1]],
+        courseRecords: {
+          'CSC 1401': { status: 'completed', grade: 'B+' },
+          'MTH 1303': { status: 'failed', grade: 'F' }
+        }
+      },
+      { name: 'Fall 2025', courses: [catalog[1]], courseRecords: {} }
+    ]);
+  });
+
+  it('leaves out courses the catalog does not know and reports them', async () => {
+    const encoded = await encodeSharedPlan(makeUserInfo(), [
+      makeSemester('Fall 2024', [catalog[0], makeCourse('CSC 9999')])
+    ]);
+
+    const shared = await decodeSharedPlan(encoded, catalog);
+
+    expect(shared.semesters[0].courses).toEqual([catalog[0]]);
+    expect(shared.missingCodes).toEqual(['CSC 9999']);
+  });
+
+  it('still opens links made before placements and course records were shared', async () => {
+    const encoded = encodeLegacyPayload([
+      1,
+      ['Test Student', '12345', 'CS', 'Fall', 2024, 'Spring', 2028, 136],
+      [['Fall 2024', 'CSC1401', 'MTH1303']]
+    ]);
+
+    const shared = await decodeSharedPlan(encoded, catalog);
+
+    expect(shared.userInfo).toEqual(makeUserInfo());
+    expect(shared.semesters).toEqual([{ name: 'Fall 2024', courses: [catalog[0], catalog[1]], courseRecords: {} }]);
+  });
+
+  it('rejects damaged links and unknown payload versions', async () => {
+    await expect(decodeSharedPlan('not-a-plan', catalog)).rejects.toThrow(/incomplete or damaged/);
+    await expect(decodeSharedPlan(encodeLegacyPayload([99, [], []]), catalog)).rejects.toThrow(/different version/);
+  });
+
+  it('carries the plan in the URL fragment', () => {
+    const url = buildShareUrl('https://example.com', 'abc_-123');
+
+    expect(url).toBe('https://example.com/share#plan=abc_-123');
+    expect(getEncodedPlanFromHash(new URL(url).hash)).toBe('abc_-123');
+    expect(getEncodedPlanFromHash('#other=1')).toBeNull();
+  });
+});
@@ -0,0 +1,397 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMissingCorequisites, simulateCourseFailure, useDegreePlanStore } from '../store';
+import { makeCourse, makeSemester, makeUserInfo } from './fixtures';
+
+// The store saves the plan to localStorage, which Node does not provide; keep it in memory
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    get length() { return items.size; }
+  };
+});
+
+// A two-course chain: TST 1001 → TST 2001
+const INTRO = makeCourse('TST 1001');
+const FOLLOW_UP = makeCourse('TST 2001', 3, { prerequisites: [[{ type: 'course', value: 'TST1001' }]] });
+
+// A lecture that must be taken with its lab, and a course that lists itself as a corequisite
+const LECTURE = makeCourse('TST 1401', 3, { corequisites: ['TST1402'] });
+const LAB = makeCourse('TST 1402', 1);
+const SELF_LISTED = makeCourse('TST 4402', 3, { corequisites: ['TST4402'] });
+const HEAVY = makeCourse('TST 2501', 21);
+
+// State of the store before any test changed it (actions included)
+const initialState = useDegreePlanStore.getState();
+
+// Name of the n-th semester of the plan
+const semesterAt = (index: number) => useDegreePlanStore.getState().semesterPlans[index].semester;
+
+// Codes of the courses planned in the n-th semester
+const codesAt = (index: number) =>
+  useDegreePlanStore.getState().semesterPlans[index].courses.map(course => course.course_code);
+
+beforeEach(() => {
+  useDegreePlanStore.setState(initialState, true);
+  const store = useDegreePlanStore.getState();
+  store.setCourseData([INTRO, FOLLOW_UP, LECTURE, LAB, SELF_LISTED, HEAVY]);
+  // A timeline far enough ahead that none of its semesters is in the past
+  store.setUserInfo(makeUserInfo({ startYear: 2040, endYear: 2042 }));
+  store.resetPlan();
+});
+
+describe('getMissingCorequisites', () => {
+  it('lists corequisites not planned in the semester or an earlier one', () => {
+    const plans = [makeSemester('Fall 2040', []), makeSemester('Spring 2041', [])];
+    expect(getMissingCorequisites(plans, 'Fall 2040', LECTURE)).toEqual(['TST1402']);
+  });
+
+  it('accepts a corequisite planned in the same or an earlier semester', () => {
+    const sameSemester = [makeSemester('Fall 2040', [LAB])];
+    const earlier = [makeSemester('Fall 2040', [LAB]), makeSemester('Spring 2041', [])];
+    expect(getMissingCorequisites(sameSemester, 'Fall 2040', LECTURE)).toEqual([]);
+    expect(getMissingCorequisites(earlier, 'Spring 2041', LECTURE)).toEqual([]);
+  });
+
+  it('ignores a corequisite planned only in a later semester', () => {
+    const plans = [makeSemester('Fall 2040', []), makeSemester('Spring 2041', [LAB])];
+    expect(getMissingCorequisites(plans, 'Fall 2040', LECTURE)).toEqual(['TST1402']);
+  });
+
+  it('ignores courses that list themselves as a corequisite', () => {
+    expect(getMissingCorequisites([makeSemester('Fall 2040', [])], 'Fall 2040', SELF_LISTED)).toEqual([]);
+  });
+});
+
+describe('adding courses with corequisites', () => {
+  it('rejects a course whose corequisite is not planned', () => {
+    useDegreePlanStore.getState().addCourse(semesterAt(0), LECTURE);
+
+    const { error } = useDegreePlanStore.getState();
+    expect(error).toBe(`TST 1401 requires corequisite TST 1402 in ${semesterAt(0)} or an earlier semester`);
+    expect(codesAt(0)).toEqual([]);
+  });
+
+  it('adds a course once its corequisite is planned', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), LAB);
+    store.addCourse(semesterAt(0), LECTURE);
+
+    expect(useDegreePlanStore.getState().error).toBeNull();
+    expect(codesAt(0)).toEqual(['TST 1402', 'TST 1401']);
+  });
+
+  it('adds the missing corequisites from the catalog together with the course', () => {
+    useDegreePlanStore.getState().addCourseWithCorequisites(semesterAt(0), LECTURE);
+
+    expect(useDegreePlanStore.getState().error).toBeNull();
+    expect(codesAt(0)).toEqual(['TST 1402', 'TST 1401']);
+  });
+
+  it('reports a corequisite that the catalog does not contain', () => {
+    const orphan = makeCourse('TST 3001', 3, { corequisites: ['TST3002'] });
+    useDegreePlanStore.getState().addCourseWithCorequisites(semesterAt(0), orphan);
+
+    expect(useDegreePlanStore.getState().error).toBe('Corequisite TST 3002 for TST 3001 is not in the course catalog');
+    expect(codesAt(0)).toEqual([]);
+  });
+
+  it('adds nothing when the course and its corequisites do not fit together', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), HEAVY);
+    store.addCourseWithCorequisites(semesterAt(0), LECTURE);
+
+    expect(useDegreePlanStore.getState().error).toBe(`Adding TST 1401 would exceed the credit limit for ${semesterAt(0)}`);
+    expect(codesAt(0)).toEqual(['TST 2501']);
+  });
+});
+
+describe('removing a corequisite', () => {
+  it('refuses to remove a corequisite that a planned course still needs', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), LAB);
+    store.addCourse(semesterAt(1), LECTURE);
+    store.removeCourse(semesterAt(0), 'TST 1402');
+
+    expect(useDegreePlanStore.getState().error).toBe("Cannot remove TST 1402 because it's a corequisite for TST 1401");
+    expect(codesAt(0)).toEqual(['TST 1402']);
+  });
+
+  it('removes the corequisite once the course needing it is gone', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourseWithCorequisites(semesterAt(0), LECTURE);
+    store.removeCourse(semesterAt(0), 'TST 1401');
+    store.removeCourse(semesterAt(0), 'TST 1402');
+
+    expect(useDegreePlanStore.getState().error).toBeNull();
+    expect(codesAt(0)).toEqual([]);
+  });
+});
+
+describe('moveCourse', () => {
+  it('moves a course and updates the credits of both semesters', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.moveCourse(semesterAt(0), semesterAt(1), 'TST 1001');
+
+    const { error, semesterPlans } = useDegreePlanStore.getState();
+    expect(error).toBeNull();
+    expect(codesAt(0)).toEqual([]);
+    expect(codesAt(1)).toEqual(['TST 1001']);
+    expect(semesterPlans[0].credits).toBe(0);
+    expect(semesterPlans[1].credits).toBe(3);
+  });
+
+  it('refuses to move a course before its prerequisite', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(3), FOLLOW_UP);
+    store.moveCourse(semesterAt(3), semesterAt(0), 'TST 2001');
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `Cannot move TST 2001 to ${semesterAt(0)}:\n• Prerequisites for TST 2001 would not be satisfied in ${semesterAt(0)}`
+    );
+    expect(codesAt(3)).toEqual(['TST 2001']);
+  });
+
+  it('refuses to move a prerequisite past the course that needs it', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), FOLLOW_UP);
+    store.moveCourse(semesterAt(0), semesterAt(3), 'TST 1001');
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `Cannot move TST 1001 to ${semesterAt(3)}:\n• Prerequisites for TST 2001 would not be satisfied in ${semesterAt(1)}`
+    );
+    expect(codesAt(0)).toEqual(['TST 1001']);
+  });
+
+  it('refuses to move a corequisite after the course taken with it', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourseWithCorequisites(semesterAt(0), LECTURE);
+    store.moveCourse(semesterAt(0), semesterAt(1), 'TST 1402');
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `Cannot move TST 1402 to ${semesterAt(1)}:\n• TST 1401 in ${semesterAt(0)} would be missing corequisite TST 1402`
+    );
+    expect(codesAt(0)).toEqual(['TST 1402', 'TST 1401']);
+  });
+
+  it('refuses a move that exceeds the credit limit of the target semester', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), HEAVY);
+    store.moveCourse(semesterAt(0), semesterAt(1), 'TST 1001');
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `Cannot move TST 1001 to ${semesterAt(1)}:\n• ${semesterAt(1)} would exceed its 22 credit limit`
+    );
+    expect(codesAt(1)).toEqual(['TST 2501']);
+  });
+});
+
+describe('undo and redo', () => {
+  it('undoes a change and redoes it', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), FOLLOW_UP);
+    expect(useDegreePlanStore.getState().past.map(entry => entry.label)).toEqual([
+      `Added TST 1001 to ${semesterAt(0)}`,
+      `Added TST 2001 to ${semesterAt(1)}`
+    ]);
+
+    store.undo();
+    expect(codesAt(1)).toEqual([]);
+    expect(useDegreePlanStore.getState().future.map(entry => entry.label)).toEqual([`Added TST 2001 to ${semesterAt(1)}`]);
+
+    store.redo();
+    expect(codesAt(1)).toEqual(['TST 2001']);
+    expect(useDegreePlanStore.getState().past).toHaveLength(2);
+    expect(useDegreePlanStore.getState().future).toEqual([]);
+  });
+
+  it('undoes a move in one step', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.moveCourse(semesterAt(0), semesterAt(1), 'TST 1001');
+    store.undo();
+
+    expect(codesAt(0)).toEqual(['TST 1001']);
+    expect(codesAt(1)).toEqual([]);
+  });
+
+  it('discards the changes available to redo when a new change is made', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.undo();
+    store.addCourse(semesterAt(1), INTRO);
+
+    expect(useDegreePlanStore.getState().future).toEqual([]);
+    store.redo();
+    expect(codesAt(0)).toEqual([]);
+    expect(codesAt(1)).toEqual(['TST 1001']);
+  });
+
+  it('does not record changes that were rejected', () => {
+    useDegreePlanStore.getState().addCourse(semesterAt(0), FOLLOW_UP);
+
+    expect(useDegreePlanStore.getState().error).not.toBeNull();
+    expect(useDegreePlanStore.getState().past).toEqual([]);
+  });
+
+  it('keeps only the most recent 50 changes', () => {
+    const store = useDegreePlanStore.getState();
+    for (let i = 0; i < 30; i++) {
+      store.addCourse(semesterAt(0), INTRO);
+      store.removeCourse(semesterAt(0), 'TST 1001');
+    }
+
+    const { past } = useDegreePlanStore.getState();
+    expect(past).toHaveLength(50);
+    expect(past[past.length - 1].label).toBe(`Removed TST 1001 from ${semesterAt(0)}`);
+  });
+});
+
+describe('updateUserInfo', () => {
+  it('saves details other than the timeline without touching the plan', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.updateUserInfo(makeUserInfo({ name: 'Renamed Student', startYear: 2040, endYear: 2042 }));
+
+    const { userInfo, past } = useDegreePlanStore.getState();
+    expect(userInfo?.name).toBe('Renamed Student');
+    expect(codesAt(0)).toEqual(['TST 1001']);
+    expect(past).toHaveLength(1);
+  });
+
+  it('keeps the semesters still in a changed timeline and reports the dropped ones', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), LAB);
+    const [fall, spring] = [semesterAt(0), semesterAt(1)];
+    store.updateUserInfo(makeUserInfo({ startSemester: 'Spring', startYear: 2040, endYear: 2042 }));
+
+    const { error, semesterPlans } = useDegreePlanStore.getState();
+    expect(semesterPlans[0].semester).toBe(spring);
+    expect(codesAt(0)).toEqual(['TST 1402']);
+    expect(error).toMatch(new RegExp(`outside your new timeline[\\s\\S]*${fall}: TST 1001`));
+  });
+
+  it('undoes the timeline change together with the semesters it dropped', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.updateUserInfo(makeUserInfo({ startSemester: 'Spring', startYear: 2040, endYear: 2042 }));
+    store.undo();
+
+    const { userInfo } = useDegreePlanStore.getState();
+    expect(userInfo?.startSemester).toBe('Fall');
+    expect(codesAt(0)).toEqual(['TST 1001']);
+
+    store.redo();
+    expect(useDegreePlanStore.getState().userInfo?.startSemester).toBe('Spring');
+    expect(codesAt(0)).toEqual([]);
+  });
+});
+
+describe('course records and locked semesters', () => {
+  it('refuses changes to a locked semester until it is unlocked', () => {
+    const store = useDegreePlanStore.getState();
+    store.setSemesterLocked(semesterAt(0), true);
+    store.addCourse(semesterAt(0), INTRO);
+
+    expect(useDegreePlanStore.getState().error).toBe(`${semesterAt(0)} is locked. Unlock it to change its courses.`);
+    expect(codesAt(0)).toEqual([]);
+
+    store.setSemesterLocked(semesterAt(0), false);
+    store.addCourse(semesterAt(0), INTRO);
+    expect(codesAt(0)).toEqual(['TST 1001']);
+  });
+
+  it('reports the courses that lose their prerequisites when a course is failed', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), FOLLOW_UP);
+    store.setCourseRecord(semesterAt(0), 'TST 1001', { status: 'completed', grade: 'F' });
+
+    const { semesterPlans, error } = useDegreePlanStore.getState();
+    expect(semesterPlans[0].courseRecords).toEqual({ 'TST 1001': { status: 'failed', grade: 'F' } });
+    expect(error).toBe(`With TST 1001 failed (F), these courses no longer have their prerequisites:\n• TST 2001 in ${semesterAt(1)}`);
+    expect(codesAt(1)).toEqual(['TST 2001']);
+  });
+});
+
+describe('retakes', () => {
+  it('plans a course again only after an attempt that allows a retake', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), INTRO);
+    expect(useDegreePlanStore.getState().error).toBe('TST 1001 is already in another semester');
+
+    store.setCourseRecord(semesterAt(0), 'TST 1001', { status: 'failed', grade: 'F' });
+    store.addCourse(semesterAt(1), INTRO);
+    expect(useDegreePlanStore.getState().error).toBeNull();
+    expect(codesAt(1)).toEqual(['TST 1001']);
+  });
+
+  it('refuses a retake planned before the failed attempt', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(1), INTRO);
+    store.setCourseRecord(semesterAt(1), 'TST 1001', { status: 'failed', grade: 'F' });
+    store.addCourse(semesterAt(0), INTRO);
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `TST 1001 is also attempted in ${semesterAt(1)}; a retake must come after every earlier attempt`
+    );
+    expect(codesAt(0)).toEqual([]);
+  });
+
+  it('reports a retake that an updated record no longer allows', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.setCourseRecord(semesterAt(0), 'TST 1001', { status: 'failed', grade: 'F' });
+    store.addCourse(semesterAt(1), INTRO);
+    store.setCourseRecord(semesterAt(0), 'TST 1001', { status: 'completed', grade: 'A' });
+
+    expect(useDegreePlanStore.getState().error).toBe(
+      `TST 1001 in ${semesterAt(1)} is no longer a valid retake: TST 1001 is already in another semester`
+    );
+  });
+});
+
+describe('failure simulation', () => {
+  it('retakes the failed course and moves the courses that lost their prerequisites', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), FOLLOW_UP);
+
+    const { semesterPlans, userInfo } = useDegreePlanStore.getState();
+    const simulation = simulateCourseFailure(semesterPlans, semesterAt(0), 'TST 1001', userInfo);
+
+    expect(simulation).toMatchObject({
+      invalidated: [{ semester: semesterAt(1), courseCode: 'TST 2001' }],
+      retakeSemester: semesterAt(1),
+      moves: [{ courseCode: 'TST 2001', from: semesterAt(1), to: semesterAt(2) }],
+      lastSemesterBefore: semesterAt(1),
+      lastSemesterAfter: semesterAt(2)
+    });
+    expect(simulation?.repairedPlans[0].courseRecords).toEqual({ 'TST 1001': { status: 'failed' } });
+  });
+
+  it('applies the repaired plan in one undoable step', () => {
+    const store = useDegreePlanStore.getState();
+    store.addCourse(semesterAt(0), INTRO);
+    store.addCourse(semesterAt(1), FOLLOW_UP);
+    store.applyFailureRepair(semesterAt(0), 'TST 1001');
+
+    expect(useDegreePlanStore.getState().error).toBeNull();
+    expect([codesAt(0), codesAt(1), codesAt(2)]).toEqual([['TST 1001'], ['TST 1001'], ['TST 2001']]);
+
+    store.undo();
+    expect([codesAt(0), codesAt(1), codesAt(2)]).toEqual([['TST 1001'], ['TST 2001'], []]);
+    expect(useDegreePlanStore.getState().semesterPlans[0].courseRecords).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Course Status, Grades and Locked Semesters
+ *
+ * Every course in a semester plan starts out as planned. Once a semester is under way or
+ * over, the student records what actually happened. This file provides:
+ * - The statuses a course can have (completed, in progress, planned, failed, withdrawn)
+ *   and the letter grades that go with a completed or failed course
+ * - Which planned courses count toward prerequisites and class standing: completed
+ *   courses with a passing grade, courses in progress and courses still planned
+ * - Which semesters are locked against accidental edits: semesters that have ended lock
+ *   themselves unless the student unlocks them, and any semester can be locked by hand
+ * - Retakes: a course can be planned again after an attempt that was failed, withdrawn or
+ *   completed below the minimum grade the major requires, and each attempt is numbered in plan order
+ */
+
+import type { SemesterPlan } from './store';
+
+// What happened to a course in the semester it is planned in
+export type CourseStatus = 'completed' | 'in-progress' | 'planned' | 'failed' | 'withdrawn';
+
+// Status and grade of one course (courses without a record are planned)
+export interface CourseRecord {
+  status: CourseStatus;
+  grade?: string;                // Letter grade (completed and failed courses only, e.g., "B+")
+}
+
+// Statuses in the order they are offered to the student
+export const COURSE_STATUSES: { value: CourseStatus; label: string }[] = [
+  { value: 'planned', label: 'Planned' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'withdrawn', label: 'Withdrawn' }
+];
+
+// Letter grades, best first
+export const LETTER_GRADES = ['A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'F'];
+
+// Grades that do not pass the course
+const FAILING_GRADES = ['F'];
+
+// When each term ends (month index of the last month of classes)
+const TERM_END_MONTH: Record<string, number> = {
+  Spring: 4,                     // May
+  Summer: 6,                     // July
+  Fall: 11                       // December
+};
+
+// Return the status and grade of a course in a semester
+export function getCourseRecord(plan: SemesterPlan, courseCode: string): CourseRecord {
+  return plan.courseRecords?.[courseCode] ?? { status: 'planned' };
+}
+
+// Make a record consistent: a failing grade means the course failed, and only
+// completed and failed courses keep a grade
+export function normalizeCourseRecord(record: CourseRecord): CourseRecord {
+  const grade = record.grade && LETTER_GRADES.includes(record.grade) ? record.grade : undefined;
+  if (record.status === 'completed' && grade && FAILING_GRADES.includes(grade)) {
+    return { status: 'failed', grade };
+  }
+  if (record.status === 'completed' || record.status === 'failed') {
+    return grade ? { status: record.status, grade } : { status: record.status };
+  }
+  return { status: record.status };
+}
+
+// Whether a course counts toward prerequisites and class standing in the semesters after it
+// Failed and withdrawn courses do not; planned courses are assumed to be passed
+export function countsTowardPrerequisites(plan: SemesterPlan, courseCode: string): boolean {
+  const record = getCourseRecord(plan, courseCode);
+  if (record.status === 'failed' || record.status === 'withdrawn') return false;
+  return !(record.grade && FAILING_GRADES.includes(record.grade));
+}
+
+// Whether a letter grade is at least the minimum (e.g., "C+" meets "C", "D" does not)
+export function meetsMinimumGrade(grade: string, minimumGrade: string): boolean {
+  const index = LETTER_GRADES.indexOf(grade);
+  const minimumIndex = LETTER_GRADES.indexOf(minimumGrade);
+  return index !== -1 && (minimumIndex === -1 || index <= minimumIndex);
+}
+
+// Whether an attempt allows the course to be taken again
+// A completed course can be repeated when its grade is below the minimum the major requires of it
+// (see getMinimumGrade in lib/prerequisites.ts); without a minimum, any passing grade is final
+export function canRetake(record: CourseRecord, minimumGrade: string | null): boolean {
+  if (record.status === 'failed' || record.status === 'withdrawn') return true;
+  return record.status === 'completed' && !!record.grade && !!minimumGrade && !meetsMinimumGrade(record.grade, minimumGrade);
+}
+
+// List the attempts of a course in plan order, with their semesters and records
+export function getCourseAttempts(
+  semesterPlans: SemesterPlan[],
+  courseCode: string
+): { semester: string; record: CourseRecord }[] {
+  return semesterPlans
+    .filter(plan => plan.courses.some(course => course.course_code === courseCode))
+    .map(plan => ({ semester: plan.semester, record: getCourseRecord(plan, courseCode) }));
+}
+
+// Number of the attempt planned in a semester (1 for the first time the course is taken)
+export function getAttemptNumber(semesterPlans: SemesterPlan[], semester: string, courseCode: string): number {
+  const index = getCourseAttempts(semesterPlans, courseCode).findIndex(attempt => attempt.semester === semester);
+  return index === -1 ? 1 : index + 1;
+}
+
+// Credits of a semester that count toward class standing
+export function getCountedCredits(plan: SemesterPlan): number {
+  return plan.courses
+    .filter(course => countsTowardPrerequisites(plan, course.course_code))
+    .reduce((total, course) => total + (parseInt(course.credits) || 0), 0);
+}
+
+// Whether a semester (e.g., "Spring 2025") has ended by the given date
+export function isPastSemester(semester: string, today: Date = new Date()): boolean {
+  const [term, year] = semester.split(' ');
+  const endMonth = TERM_END_MONTH[term];
+  const endYear = parseInt(year);
+  if (endMonth === undefined || isNaN(endYear)) return false;
+  return today.getFullYear() > endYear || (today.getFullYear() === endYear && today.getMonth() > endMonth);
+}
+
+// Whether a semester is locked: the student's choice, or whether it has ended when they made none
+export function isSemesterLocked(plan: SemesterPlan, today: Date = new Date()): boolean {
+  return plan.locked ?? isPastSemester(plan.semester, today);
+}
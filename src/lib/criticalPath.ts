@@ -0,0 +1,269 @@
+/**
+ * Earliest Semesters and Critical Path
+ *
+ * This file works out how soon each course could be taken and which prerequisite chains
+ * set the minimum time to graduate. It provides:
+ * - The student's terms from the start term onward, with their credit caps
+ * - The earliest term of every catalog course, following the prerequisite expression
+ *   (courses in an earlier term, class standing reached at full credit loads, and the
+ *   student's placements, major and instructor permissions)
+ * - A critical path analysis over the courses the degree requires and the courses planned:
+ *   the minimum graduation term, the chains that set it, and the slack of each course
+ *
+ * The analysis starts from an empty plan, so it shows what is possible rather than what is
+ * planned. A course with no slack is on the critical path: taking it any later than its
+ * earliest term pushes back the earliest possible graduation.
+ */
+
+import type { Course, SemesterPlan, UserInfo } from './store';
+import { createPlansForUser, getCreditLimit } from './store';
+import {
+  compactCourseCode,
+  explainCondition,
+  getCoursePrerequisites,
+  getPrerequisiteAlternatives,
+  getStanding,
+  PrerequisiteLeaf,
+  STANDING_MIN_CREDITS,
+  StudentConditions
+} from './prerequisites';
+
+// Years added after the expected graduation, so late courses still get a term
+const EXTRA_YEARS = 4;
+
+// Marks a course that cannot be taken in any term (missing prerequisite, program, cycle)
+const UNREACHABLE = Number.POSITIVE_INFINITY;
+
+// A term of the student's timeline
+export interface PlanningTerm {
+  name: string;                  // e.g., "Fall 2025"
+  type: SemesterPlan['type'];
+  creditLimit: number;
+}
+
+// Options the student can choose for the analysis
+export interface CriticalPathOptions {
+  includeSummer: boolean;        // Whether courses may be taken in summer terms
+}
+
+// How soon a course can be taken and what it waits for
+export interface EarliestTerm {
+  courseCode: string;            // e.g., "CSC 3326"
+  termIndex: number;             // Index into the terms (Infinity when unreachable)
+  term: string | null;           // Name of the term (null when unreachable)
+  waitsFor: string[];            // Prerequisite courses that set the earliest term (e.g., ["CSC 2306"])
+  requires: string[];            // Every course of the prerequisite alternative used (e.g., ["CSC 2302", "CSC 1401"])
+}
+
+// A course of the critical path analysis
+export interface CriticalCourse extends EarliestTerm {
+  latestIndex: number;           // Last term it can be taken without delaying graduation
+  slack: number;                 // Terms it can be delayed without delaying graduation
+  isCritical: boolean;           // No slack: any delay pushes back graduation
+}
+
+// Result of the critical path analysis
+export interface CriticalPathAnalysis {
+  terms: PlanningTerm[];
+  courses: Map<string, CriticalCourse>; // Analyzed courses keyed by code without spaces
+  minimumGraduationTerm: string | null; // Earliest term in which every analyzed course can be done
+  creditBoundTerm: string | null; // Earliest term the total credits fit under the credit caps
+  chains: string[][];            // Critical chains, first course to last (e.g., ["CSC 1401", "CSC 2302", "CSC 2306"])
+  unreachable: string[];         // Analyzed courses that cannot be taken at all
+}
+
+// Return the terms from the student's start term onward (or the plan's terms without user info)
+export function getPlanningTerms(userInfo: UserInfo | null, semesterPlans: SemesterPlan[]): PlanningTerm[] {
+  const plans = userInfo ? createPlansForUser({ ...userInfo, endYear: userInfo.endYear + EXTRA_YEARS }) : semesterPlans;
+  return plans.map(plan => ({ name: plan.semester, type: plan.type, creditLimit: getCreditLimit(plan.type) }));
+}
+
+// Whether a course may be taken in a term
+const canTakeIn = (term: PlanningTerm, course: Course, options: CriticalPathOptions) =>
+  (options.includeSummer || term.type !== 'summer') && (parseInt(course.credits) || 0) <= term.creditLimit;
+
+// Compute the earliest term of every catalog course
+export function computeEarliestTerms(
+  courseData: Course[],
+  terms: PlanningTerm[],
+  userInfo: UserInfo | null,
+  options: CriticalPathOptions
+): Map<string, EarliestTerm> {
+  const catalog = new Map(courseData.map(course => [compactCourseCode(course.course_code), course]));
+  const permissions = new Set((userInfo?.instructorPermissions ?? []).map(compactCourseCode));
+  const results = new Map<string, EarliestTerm>();
+  const visiting = new Set<string>();
+
+  // Credits completed before each term when every usable term is taken at its cap
+  const creditsBefore: number[] = [];
+  terms.reduce((total, term, i) => {
+    creditsBefore[i] = total;
+    return total + (options.includeSummer || term.type !== 'summer' ? term.creditLimit : 0);
+  }, 0);
+
+  // Student conditions before a term (placements and major do not change over time)
+  const studentAt = (index: number): StudentConditions => ({
+    creditsCompleted: creditsBefore[index] ?? 0,
+    standing: getStanding(creditsBefore[index] ?? 0),
+    placements: userInfo?.placements ?? [],
+    major: userInfo?.major ?? null
+  });
+
+  // First term index at which a leaf stops blocking the course (courses block until the term after theirs)
+  const leafStart = (leaf: PrerequisiteLeaf): number => {
+    switch (leaf.type) {
+      case 'course': {
+        const earliest = visit(compactCourseCode(leaf.code)).termIndex;
+        return earliest + 1;
+      }
+      case 'standing': {
+        const index = creditsBefore.findIndex(credits => credits >= STANDING_MIN_CREDITS[leaf.standing]);
+        return index === -1 ? UNREACHABLE : index;
+      }
+      default:
+        return explainCondition(leaf, studentAt(0)).met ? 0 : UNREACHABLE;
+    }
+  };
+
+  const visit = (code: string): EarliestTerm => {
+    const known = results.get(code);
+    if (known) return known;
+
+    const course = catalog.get(code);
+    const unreachable = { courseCode: course?.course_code ?? code, termIndex: UNREACHABLE, term: null, waitsFor: [], requires: [] };
+    if (!course || visiting.has(code)) return unreachable;
+    visiting.add(code);
+
+    // Use the alternative that lets the course start soonest
+    const alternatives = permissions.has(code) ? [[]] : getPrerequisiteAlternatives(getCoursePrerequisites(course));
+    let best = { start: UNREACHABLE, leaves: [] as { code: string; start: number }[] };
+    for (const alternative of alternatives) {
+      const starts = alternative.map(leaf => ({ leaf, start: leafStart(leaf) }));
+      const start = Math.max(0, ...starts.map(entry => entry.start));
+      if (start < best.start) {
+        best = {
+          start,
+          leaves: starts.flatMap(({ leaf, start }) => leaf.type === 'course' ? [{ code: leaf.code, start }] : [])
+        };
+      }
+    }
+
+    const termIndex = best.start === UNREACHABLE
+      ? -1
+      : terms.findIndex((term, i) => i >= best.start && canTakeIn(term, course, options));
+    const result: EarliestTerm = termIndex === -1
+      ? unreachable
+      : {
+          courseCode: course.course_code,
+          termIndex,
+          term: terms[termIndex].name,
+          waitsFor: best.leaves.filter(leaf => leaf.start === best.start).map(leaf => leaf.code),
+          requires: best.leaves.map(leaf => leaf.code)
+        };
+
+    visiting.delete(code);
+    results.set(code, result);
+    return result;
+  };
+
+  catalog.forEach((_, code) => visit(code));
+  return results;
+}
+
+// Find the critical path of the courses the degree requires plus the courses already planned
+export function analyzeCriticalPath(
+  courseData: Course[],
+  semesterPlans: SemesterPlan[],
+  userInfo: UserInfo | null,
+  requiredCodes: string[],
+  options: CriticalPathOptions
+): CriticalPathAnalysis {
+  const terms = getPlanningTerms(userInfo, semesterPlans);
+  const earliest = computeEarliestTerms(courseData, terms, userInfo, options);
+  const catalog = new Map(courseData.map(course => [compactCourseCode(course.course_code), course]));
+
+  // Courses to finish, with the prerequisites their earliest terms wait for
+  const targets = Array.from(new Set([
+    ...requiredCodes.map(compactCourseCode),
+    ...semesterPlans.flatMap(plan => plan.courses.map(course => compactCourseCode(course.course_code)))
+  ])).filter(code => catalog.has(code));
+
+  const analyzed = new Set<string>();
+  const dependents = new Map<string, string[]>();
+  const queue = [...targets];
+  while (queue.length > 0) {
+    const code = queue.shift()!;
+    if (analyzed.has(code)) continue;
+    analyzed.add(code);
+    for (const prerequisite of earliest.get(code)?.waitsFor ?? []) {
+      const prerequisiteCode = compactCourseCode(prerequisite);
+      dependents.set(prerequisiteCode, [...(dependents.get(prerequisiteCode) ?? []), code]);
+      queue.push(prerequisiteCode);
+    }
+  }
+
+  const reachable = Array.from(analyzed).filter(code => (earliest.get(code)?.termIndex ?? UNREACHABLE) !== UNREACHABLE);
+  const unreachable = targets
+    .filter(code => (earliest.get(code)?.termIndex ?? UNREACHABLE) === UNREACHABLE)
+    .map(code => earliest.get(code)?.courseCode ?? code);
+  const finalIndex = reachable.length > 0 ? Math.max(...reachable.map(code => earliest.get(code)!.termIndex)) : -1;
+
+  // Latest term of each course: the last usable term before every dependent's latest term
+  const latest = new Map<string, number>();
+  const latestIndex = (code: string): number => {
+    const known = latest.get(code);
+    if (known !== undefined) return known;
+
+    const course = catalog.get(code)!;
+    const limit = Math.min(finalIndex + 1, ...(dependents.get(code) ?? []).map(latestIndex));
+    let index = limit - 1;
+    while (index > 0 && !canTakeIn(terms[index], course, options)) index--;
+    latest.set(code, index);
+    return index;
+  };
+
+  // Slack counts the usable terms between the earliest and the latest term
+  const courses = new Map<string, CriticalCourse>();
+  reachable.forEach(code => {
+    const entry = earliest.get(code)!;
+    const last = latestIndex(code);
+    const slack = terms
+      .slice(entry.termIndex + 1, last + 1)
+      .filter(term => canTakeIn(term, catalog.get(code)!, options)).length;
+    courses.set(code, { ...entry, latestIndex: last, slack, isCritical: slack === 0 });
+  });
+
+  // Follow critical courses from each final course back to the start of its chain
+  const chains: string[][] = [];
+  const extend = (code: string, chain: string[]) => {
+    const course = courses.get(code)!;
+    const criticalPrerequisites = course.waitsFor
+      .map(compactCourseCode)
+      .filter(prerequisite => courses.get(prerequisite)?.isCritical);
+    if (criticalPrerequisites.length === 0) {
+      chains.push([course.courseCode, ...chain]);
+      return;
+    }
+    criticalPrerequisites.forEach(prerequisite => extend(prerequisite, [course.courseCode, ...chain]));
+  };
+  reachable
+    .filter(code => courses.get(code)!.isCritical && courses.get(code)!.termIndex === finalIndex)
+    .forEach(code => extend(code, []));
+
+  // Total credits at the caps, as a second bound on graduation
+  const totalCredits = userInfo?.totalCreditsToGraduate ?? 0;
+  let cumulative = 0;
+  const creditBoundIndex = terms.findIndex(term => {
+    cumulative += options.includeSummer || term.type !== 'summer' ? term.creditLimit : 0;
+    return cumulative >= totalCredits;
+  });
+
+  return {
+    terms,
+    courses,
+    minimumGraduationTerm: finalIndex === -1 ? null : terms[finalIndex].name,
+    creditBoundTerm: totalCredits > 0 && creditBoundIndex !== -1 ? terms[creditBoundIndex].name : null,
+    chains: chains.sort((a, b) => b.length - a.length),
+    unreachable
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Degree Audit
+ *
+ * This file checks a student's semester plans against the requirements of their degree.
+ * It provides:
+ * - Type definitions for requirement categories and audit results
+ * - The requirement definitions for each major (general education plus major categories)
+ * - An audit that applies planned courses to categories and reports progress
+ *
+ * Each planned course counts toward a single category unless both categories allow
+ * double counting. Courses a category explicitly requires are always applied to it,
+ * so the audit can flag plans where a required course is shared against the rules.
+ * Failed and withdrawn courses do not count toward any category.
+ */
+
+import type { SemesterPlan } from './store';
+import { GE_CATEGORIES, GENERAL_EDUCATION_COURSES } from './degreePlanGenerator';
+import { countsTowardPrerequisites } from './courseStatus';
+import { csMajorData, csRequirementCategories } from '@/data/csMajor';
+
+// A group of courses that together satisfy part of the degree
+export interface RequirementCategory {
+  code: string;                  // Identifier of the category (e.g., "ENGLISH")
+  name: string;                  // Display name (e.g., "English Requirements")
+  credits: number;               // Credits needed to complete the category
+  options: string[];             // Courses that can count toward the category
+  required: string[];            // Courses that must be taken (subset of options)
+  allowDoubleCounting?: boolean; // Courses counted here may also count toward another category
+}
+
+// The full set of requirements for a degree
+export interface RequirementsDefinition {
+  name: string;                  // Name of the degree (e.g., "Computer Science")
+  totalCredits: number;          // Credits needed to graduate
+  categories: RequirementCategory[];
+}
+
+// A course counted in a category that is also counted in another one
+export interface DoubleCountedCourse {
+  courseCode: string;
+  otherCategory: string;         // Name of the other category the course counts toward
+  allowed: boolean;              // Whether both categories allow double counting
+}
+
+// Audit result for a single category
+export interface CategoryAudit {
+  code: string;
+  name: string;
+  requiredCredits: number;       // Credits needed to complete the category
+  satisfiedCredits: number;      // Credits of the planned courses applied to the category
+  appliedCourses: string[];      // Planned courses counted toward the category
+  missingRequired: string[];     // Required courses that are not in the plan
+  remainingOptions: string[];    // Courses that could still be planned to complete the category
+  doubleCounted: DoubleCountedCourse[];
+  doubleCountingRespected: boolean;
+  isComplete: boolean;
+}
+
+// Audit result for the whole plan
+export interface DegreeAudit {
+  name: string;
+  totalCredits: number;          // Credits of every planned course
+  requiredTotalCredits: number;  // Credits needed to graduate
+  categories: CategoryAudit[];
+  unappliedCourses: string[];    // Planned courses that do not count toward any category
+  isComplete: boolean;
+}
+
+// A planned course reduced to what the audit needs
+interface PlannedCourse {
+  courseCode: string;
+  credits: number;
+}
+
+// Compare course codes without spaces or hyphens (e.g., "MTH1304" and "MTH 1304")
+const normalizeCourseCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+// General education categories shared by every major
+const getGeneralEducationCategories = (): RequirementCategory[] =>
+  GE_CATEGORIES.map(category => {
+    const options = category.options.map(option => option.code);
+    return {
+      code: category.code,
+      name: category.name,
+      credits: category.credits,
+      options,
+      required: GENERAL_EDUCATION_COURSES
+        .filter(course => course.required && options.includes(course.code))
+        .map(course => course.code)
+    };
+  });
+
+// Return the requirements of a major (majors without a definition are audited for general education only)
+export function getDegreeRequirements(major: string, totalCredits?: number): RequirementsDefinition {
+  const generalEducation = getGeneralEducationCategories();
+
+  switch (major) {
+    case 'CS':
+      return {
+        name: csMajorData.name,
+        totalCredits: totalCredits ?? csMajorData.totalCredits,
+        categories: [...generalEducation, ...csRequirementCategories]
+      };
+    default:
+      return {
+        name: major,
+        totalCredits: totalCredits ?? 0,
+        categories: generalEducation
+      };
+  }
+}
+
+// Audit the semester plans against a requirements definition
+export function auditDegreePlan(
+  semesterPlans: SemesterPlan[],
+  requirements: RequirementsDefinition
+): DegreeAudit {
+  // Planned courses keyed by normalized code, in plan order (failed and withdrawn attempts left out)
+  const planned = new Map<string, PlannedCourse>();
+  semesterPlans.forEach(plan => {
+    plan.courses.filter(course => countsTowardPrerequisites(plan, course.course_code)).forEach(course => {
+      planned.set(normalizeCourseCode(course.course_code), {
+        courseCode: course.course_code,
+        credits: parseInt(course.credits) || 0
+      });
+    });
+  });
+
+  // Categories each planned course has been applied to, and courses applied to each category
+  const appliedTo = new Map<string, RequirementCategory[]>();
+  const applied = new Map<string, string[]>(requirements.categories.map(category => [category.code, []]));
+  const credits = new Map<string, number>(requirements.categories.map(category => [category.code, 0]));
+
+  const apply = (category: RequirementCategory, key: string) => {
+    const course = planned.get(key)!;
+    appliedTo.set(key, [...(appliedTo.get(key) ?? []), category]);
+    applied.get(category.code)!.push(key);
+    credits.set(category.code, credits.get(category.code)! + course.credits);
+  };
+
+  // Required courses always count toward the categories that require them
+  requirements.categories.forEach(category => {
+    category.required.map(normalizeCourseCode).forEach(key => {
+      if (planned.has(key)) apply(category, key);
+    });
+  });
+
+  // Elective options fill the remaining credits, skipping courses already counted elsewhere
+  // unless every category involved allows double counting
+  requirements.categories.forEach(category => {
+    const requiredKeys = category.required.map(normalizeCourseCode);
+    category.options.map(normalizeCourseCode).forEach(key => {
+      if (credits.get(category.code)! >= category.credits) return;
+      if (!planned.has(key) || requiredKeys.includes(key)) return;
+
+      const others = appliedTo.get(key) ?? [];
+      if (others.some(other => other.code === category.code)) return;
+      if (others.length > 0 && !(category.allowDoubleCounting && others.every(other => other.allowDoubleCounting))) return;
+
+      apply(category, key);
+    });
+  });
+
+  const categories: CategoryAudit[] = requirements.categories.map(category => {
+    const appliedKeys = applied.get(category.code)!;
+    const satisfiedCredits = credits.get(category.code)!;
+    const missingRequired = category.required.filter(code => !planned.has(normalizeCourseCode(code)));
+
+    // Courses counted here and in another category
+    const doubleCounted: DoubleCountedCourse[] = [];
+    appliedKeys.forEach(key => {
+      (appliedTo.get(key) ?? [])
+        .filter(other => other.code !== category.code)
+        .forEach(other => doubleCounted.push({
+          courseCode: planned.get(key)!.courseCode,
+          otherCategory: other.name,
+          allowed: !!category.allowDoubleCounting && !!other.allowDoubleCounting
+        }));
+    });
+
+    const isComplete = satisfiedCredits >= category.credits && missingRequired.length === 0;
+
+    return {
+      code: category.code,
+      name: category.name,
+      requiredCredits: category.credits,
+      satisfiedCredits,
+      appliedCourses: appliedKeys.map(key => planned.get(key)!.courseCode),
+      missingRequired,
+      remainingOptions: isComplete
+        ? []
+        : category.options.filter(code => !planned.has(normalizeCourseCode(code))),
+      doubleCounted,
+      doubleCountingRespected: doubleCounted.every(course => course.allowed),
+      isComplete
+    };
+  });
+
+  const totalCredits = Array.from(planned.values()).reduce((total, course) => total + course.credits, 0);
+
+  return {
+    name: requirements.name,
+    totalCredits,
+    requiredTotalCredits: requirements.totalCredits,
+    categories,
+    unappliedCourses: Array.from(planned.entries())
+      .filter(([key]) => !appliedTo.has(key))
+      .map(([, course]) => course.courseCode),
+    isComplete:
+      totalCredits >= requirements.totalCredits &&
+      categories.every(category => category.isComplete && category.doubleCountingRespected)
+  };
+}
@@ -14,7 +14,7 @@
 
 import { Course, MajorRequirements } from './pdfParser';
 
-interface DegreePlanOptions {
+export interface DegreePlanOptions {
   includeSummer: boolean;
   summerTerms: number;
   transferCredits: Course[];
@@ -109,11 +109,13 @@ export const GENERAL_EDUCATION_COURSES: GeneralEducationCourse[] = [
   { code: 'SOC 1301', name: 'Sociology Course', credits: 3, prerequisites: [], category: 'Social', required: false },
   { code: 'SSC 1310', name: 'Social Science Course', credits: 3, prerequisites: [], category: 'Social', required: false },
 
-  // Civic Engagement
-  { code: 'SLP 1101', name: 'Service Learning', credits: 3, prerequisites: [], category: 'Civic', required: true }
+  // Civic Engagement Program (no credit)
+  { code: 'CIP 1001', name: 'Human Development in Morocco', credits: 0, prerequisites: [], category: 'Civic', required: true },
+  { code: 'CIP 1002', name: 'The Role of Civil Society in Human Development', credits: 0, prerequisites: [], category: 'Civic', required: true },
+  { code: 'CIP 2000', name: 'Community Involvement Fieldwork', credits: 0, prerequisites: ['CIP 1001', 'CIP 1002'], category: 'Civic', required: true }
 ];
 
-const GE_CATEGORIES: CourseCategory[] = [
+export const GE_CATEGORIES: CourseCategory[] = [
   {
     code: 'FYE_FAS',
     name: 'First Year & Foundation Courses',
@@ -231,10 +233,12 @@ const GE_CATEGORIES: CourseCategory[] = [
   {
     code: 'CIVIC',
     name: 'Civic Engagement',
-    credits: 3,
-    description: 'Required civic engagement course',
+    credits: 0,
+    description: 'Required civic engagement program (no credit)',
     options: [
-      { code: 'SLP 1101', name: 'Service Learning', prerequisites: [] }
+      { code: 'CIP 1001', name: 'Human Development in Morocco', prerequisites: [] },
+      { code: 'CIP 1002', name: 'The Role of Civil Society in Human Development', prerequisites: [] },
+      { code: 'CIP 2000', name: 'Community Involvement Fieldwork', prerequisites: ['CIP 1001', 'CIP 1002'] }
     ]
   }
 ];
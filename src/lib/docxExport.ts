@@ -0,0 +1,259 @@
+/**
+ * Word Document Export
+ *
+ * This file builds the downloadable degree plan as a real Word (.docx) document.
+ * The document contains:
+ * - An AUI-branded title block with the student's information
+ * - One table per semester (Course ID, Course Title, Requirement, SCH), grouped by academic year
+ * - Semester, academic year and grand credit totals
+ * - The requirement category each course counts toward, taken from the degree audit
+ *
+ * Every semester of the student's timeline is listed, including empty ones, so the
+ * document can serve as a roadmap to fill in.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import type { Course, SemesterPlan } from './store';
+import { auditDegreePlan, RequirementsDefinition } from './degreeAudit';
+
+// AUI green used for headings and table headers
+const BRAND_COLOR = '166534';
+
+// Column widths of the semester tables (percent of the page width)
+const COLUMN_WIDTHS = [16, 46, 28, 10];
+
+// Everything the document needs to know about the student and the plan
+export interface DegreePlanDocumentInput {
+  studentName: string;
+  studentId: string;
+  major: string;                 // Full major name (e.g., "Computer Science")
+  school: string;                // School abbreviation (e.g., "SSE")
+  totalCreditsToGraduate: number;
+  semesterNames: string[];       // Every semester of the timeline, in order
+  semesterPlans: SemesterPlan[];
+  requirements: RequirementsDefinition;
+  logo: ArrayBuffer | null;      // AUI logo image (omitted when it could not be loaded)
+}
+
+// A semester of the timeline with its planned courses
+export interface DocumentSemester {
+  name: string;
+  term: string;
+  year: number;
+  courses: Course[];
+  credits: number;
+}
+
+// The semesters of one academic year (Fall, Spring, Summer)
+export interface AcademicYearGroup {
+  academicYear: string;          // e.g., "2024/2025"
+  semesters: DocumentSemester[];
+  credits: number;
+}
+
+// Order of terms within an academic year
+const TERM_ORDER: Record<string, number> = { Fall: 0, Spring: 1, Summer: 2 };
+
+// Group the timeline's semesters by academic year (Fall starts the academic year)
+export function groupSemestersByAcademicYear(
+  semesterNames: string[],
+  semesterPlans: SemesterPlan[]
+): AcademicYearGroup[] {
+  const groups = new Map<string, DocumentSemester[]>();
+
+  semesterNames.forEach(name => {
+    const [term, yearText] = name.split(' ');
+    const year = parseInt(yearText);
+    const academicYear = term === 'Fall' ? `${year}/${year + 1}` : `${year - 1}/${year}`;
+    const plan = semesterPlans.find(s => s.semester === name);
+
+    groups.set(academicYear, [
+      ...(groups.get(academicYear) ?? []),
+      { name, term, year, courses: plan ? plan.courses : [], credits: plan ? plan.credits : 0 }
+    ]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([academicYear, semesters]) => ({
+      academicYear,
+      semesters: semesters.sort((a, b) => TERM_ORDER[a.term] - TERM_ORDER[b.term]),
+      credits: semesters.reduce((total, semester) => total + semester.credits, 0)
+    }));
+}
+
+// A table cell with a single line of text
+const textCell = (
+  text: string,
+  width: number,
+  options: { bold?: boolean; italics?: boolean; color?: string; fill?: string; align?: (typeof AlignmentType)[keyof typeof AlignmentType] } = {}
+) => new TableCell({
+  width: { size: width, type: WidthType.PERCENTAGE },
+  shading: options.fill ? { type: ShadingType.CLEAR, color: 'auto', fill: options.fill } : undefined,
+  children: [new Paragraph({
+    alignment: options.align,
+    children: [new TextRun({ text, bold: options.bold, italics: options.italics, color: options.color, size: 20 })]
+  })]
+});
+
+// Table of the courses of one semester with its credit total
+const semesterTable = (semester: DocumentSemester, categoriesByCourse: Map<string, string[]>) => {
+  const header = new TableRow({
+    tableHeader: true,
+    children: ['Course ID', 'Course Title', 'Requirement', 'SCH'].map((title, i) =>
+      textCell(title, COLUMN_WIDTHS[i], { bold: true, color: 'FFFFFF', fill: BRAND_COLOR, align: i === 3 ? AlignmentType.CENTER : undefined })
+    )
+  });
+
+  const courseRows = semester.courses.length > 0
+    ? semester.courses.map(course => new TableRow({
+      children: [
+        textCell(course.course_code, COLUMN_WIDTHS[0]),
+        textCell(course.course_name, COLUMN_WIDTHS[1]),
+        textCell((categoriesByCourse.get(course.course_code) ?? ['Not counted toward a requirement']).join(', '), COLUMN_WIDTHS[2], { italics: true, color: '555555' }),
+        textCell(String(parseInt(course.credits) || 0), COLUMN_WIDTHS[3], { align: AlignmentType.CENTER })
+      ]
+    }))
+    : [new TableRow({
+      children: [
+        textCell('NONE', COLUMN_WIDTHS[0], { color: '888888' }),
+        textCell('No courses added', COLUMN_WIDTHS[1], { italics: true, color: '888888' }),
+        textCell('', COLUMN_WIDTHS[2]),
+        textCell('0', COLUMN_WIDTHS[3], { align: AlignmentType.CENTER, color: '888888' })
+      ]
+    })];
+
+  const totalRow = new TableRow({
+    children: [
+      new TableCell({
+        columnSpan: 3,
+        shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F1F5F9' },
+        children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Total SCH', bold: true, size: 20 })] })]
+      }),
+      textCell(String(semester.credits), COLUMN_WIDTHS[3], { bold: true, fill: 'F1F5F9', align: AlignmentType.CENTER })
+    ]
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [header, ...courseRows, totalRow]
+  });
+};
+
+// A label/value line of the student information block
+const infoLine = (label: string, value: string) => new Paragraph({
+  spacing: { after: 60 },
+  children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)]
+});
+
+// Build the degree plan document and return it as a .docx file
+export async function buildDegreePlanDocx(input: DegreePlanDocumentInput): Promise<Blob> {
+  const audit = auditDegreePlan(input.semesterPlans, input.requirements);
+  const totalCredits = input.semesterPlans.reduce((total, semester) => total + semester.credits, 0);
+
+  // Requirement categories each planned course counts toward
+  const categoriesByCourse = new Map<string, string[]>();
+  audit.categories.forEach(category => {
+    category.appliedCourses.forEach(code => {
+      categoriesByCourse.set(code, [...(categoriesByCourse.get(code) ?? []), category.name]);
+    });
+  });
+
+  // Title block
+  const children: (Paragraph | Table)[] = [
+    ...(input.logo
+      ? [new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new ImageRun({ data: input.logo, transformation: { width: 110, height: 88 } })]
+      })]
+      : []),
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: 'Degree Plan', bold: true, color: BRAND_COLOR })]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 300 },
+      children: [new TextRun({ text: 'Al Akhawayn University in Ifrane', italics: true, color: '555555' })]
+    }),
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BRAND_COLOR, space: 4 } },
+      children: [new TextRun({ text: 'Student Information', color: BRAND_COLOR })]
+    }),
+    infoLine('Name', input.studentName),
+    infoLine('ID', input.studentId),
+    infoLine('Major', input.major),
+    infoLine('School', input.school)
+  ];
+
+  // One heading per academic year and one table per semester
+  groupSemestersByAcademicYear(input.semesterNames, input.semesterPlans).forEach(group => {
+    children.push(new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      spacing: { before: 400 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BRAND_COLOR, space: 4 } },
+      children: [new TextRun({ text: `Academic Year ${group.academicYear}`, color: BRAND_COLOR })]
+    }));
+
+    group.semesters.forEach(semester => {
+      children.push(
+        new Paragraph({
+          heading: HeadingLevel.HEADING_3,
+          spacing: { before: 240, after: 120 },
+          children: [new TextRun(semester.name)]
+        }),
+        semesterTable(semester, categoriesByCourse)
+      );
+    });
+
+    children.push(new Paragraph({
+      spacing: { before: 160 },
+      children: [new TextRun({ text: `Total SCH for ${group.academicYear}: ${group.credits}`, bold: true })]
+    }));
+  });
+
+  // Degree summary
+  children.push(
+    new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      spacing: { before: 400 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BRAND_COLOR, space: 4 } },
+      children: [new TextRun({ text: 'Degree Summary', color: BRAND_COLOR })]
+    }),
+    infoLine('Total Credits Planned', String(totalCredits)),
+    infoLine('Credits Required for Graduation', String(input.totalCreditsToGraduate)),
+    infoLine('Remaining Credits', String(Math.max(0, input.totalCreditsToGraduate - totalCredits))),
+    ...audit.categories.map(category => infoLine(
+      category.name,
+      `${category.satisfiedCredits} / ${category.requiredCredits} SCH${category.isComplete ? ' (complete)' : ''}`
+    )),
+    new Paragraph({
+      spacing: { before: 240 },
+      children: [new TextRun({ text: 'Minimum degree requirements: SBA 120 SCH, SHSS 120 SCH, SSE 134-136 SCH (depending on program)', italics: true, color: '555555', size: 18 })]
+    })
+  );
+
+  const document = new Document({
+    creator: 'AUI Track',
+    title: `Degree Plan - ${input.studentName}`,
+    sections: [{ children }]
+  });
+
+  return Packer.toBlob(document);
+}
@@ -0,0 +1,154 @@
+/**
+ * GPA Calculation and Projection
+ *
+ * This file computes grade point averages from the grades recorded in the semester plans.
+ * It provides:
+ * - AUI's letter-grade scale (A = 4.0 down to F = 0.0)
+ * - The GPA of each semester and the cumulative GPA after it
+ * - The GPA needed over the remaining credits to reach a target cumulative GPA
+ *
+ * Only graded courses count: completed and failed courses with a grade (a failed course
+ * without one counts as an F). Withdrawn, in-progress and planned courses carry no grade.
+ * When a course is repeated, the cumulative GPA uses the most recent grade only; the
+ * earlier attempt still shows in the GPA of its own semester.
+ */
+
+import type { SemesterPlan } from './store';
+import { getCourseRecord } from './courseStatus';
+import { compactCourseCode } from './prerequisites';
+
+// Grade points per letter grade on AUI's 4.0 scale
+export const GRADE_POINTS: Record<string, number> = {
+  'A': 4.0,
+  'A-': 3.7,
+  'B+': 3.3,
+  'B': 3.0,
+  'B-': 2.7,
+  'C+': 2.3,
+  'C': 2.0,
+  'C-': 1.7,
+  'D+': 1.3,
+  'D': 1.0,
+  'F': 0.0
+};
+
+// Highest GPA on the scale
+export const MAX_GPA = 4.0;
+
+// One graded attempt at a course
+export interface GradedCourse {
+  courseCode: string;            // e.g., "CSC 1401"
+  semester: string;              // Semester of the attempt
+  credits: number;
+  grade: string;                 // Letter grade (e.g., "B+")
+  points: number;                // Grade points times credits
+  replaced: boolean;             // A later attempt replaces it in the cumulative GPA
+}
+
+// GPA of one semester and the cumulative GPA after it
+export interface SemesterGpa {
+  semester: string;
+  gpa: number | null;            // null when the semester has no graded courses
+  gradedCredits: number;
+  cumulativeGpa: number | null;  // null while nothing is graded yet
+}
+
+// Cumulative GPA of the plan
+export interface GpaSummary {
+  gpa: number | null;            // null when nothing is graded yet
+  gradedCredits: number;         // Credits in the cumulative GPA (replaced attempts left out)
+  qualityPoints: number;         // Sum of grade points times credits in the cumulative GPA
+  earnedCredits: number;         // Graded credits with a passing grade (replaced attempts left out)
+  semesters: SemesterGpa[];
+  courses: GradedCourse[];       // Every graded attempt, in plan order
+}
+
+// Result of a GPA projection
+export interface GpaProjection {
+  requiredGpa: number;           // GPA needed over the remaining credits (may be below 0 or above 4)
+  status: 'reached' | 'achievable' | 'unreachable';
+}
+
+const average = (points: number, credits: number) => (credits > 0 ? points / credits : null);
+
+// Round a GPA for display (e.g., 3.456 → "3.46"); shows "–" when there is none
+export function formatGpa(gpa: number | null): string {
+  return gpa === null ? '–' : (Math.round(gpa * 100) / 100).toFixed(2);
+}
+
+// List every graded attempt and mark the ones a later attempt replaces
+const getGradedCourses = (semesterPlans: SemesterPlan[]): GradedCourse[] => {
+  const attempts: GradedCourse[] = semesterPlans.flatMap(plan => plan.courses.flatMap(course => {
+    const record = getCourseRecord(plan, course.course_code);
+    const grade = record.grade ?? (record.status === 'failed' ? 'F' : undefined);
+    if (grade === undefined || GRADE_POINTS[grade] === undefined || record.status === 'withdrawn') return [];
+
+    const credits = parseInt(course.credits) || 0;
+    return [{
+      courseCode: course.course_code,
+      semester: plan.semester,
+      credits,
+      grade,
+      points: GRADE_POINTS[grade] * credits,
+      replaced: false
+    }];
+  }));
+
+  // The last attempt of each course is the one that counts
+  const lastAttempt = new Map<string, GradedCourse>();
+  attempts.forEach(attempt => lastAttempt.set(compactCourseCode(attempt.courseCode), attempt));
+  return attempts.map(attempt => ({
+    ...attempt,
+    replaced: lastAttempt.get(compactCourseCode(attempt.courseCode)) !== attempt
+  }));
+};
+
+// Compute the semester and cumulative GPAs of the plan
+export function calculateGpa(semesterPlans: SemesterPlan[]): GpaSummary {
+  const courses = getGradedCourses(semesterPlans);
+
+  // Cumulative GPA after each semester, using the latest attempt seen so far
+  const latest = new Map<string, GradedCourse>();
+  const semesters = semesterPlans.map(plan => {
+    const inSemester = courses.filter(course => course.semester === plan.semester);
+    inSemester.forEach(course => latest.set(compactCourseCode(course.courseCode), course));
+
+    const counted = Array.from(latest.values());
+    const gradedCredits = inSemester.reduce((total, course) => total + course.credits, 0);
+    return {
+      semester: plan.semester,
+      gpa: average(inSemester.reduce((total, course) => total + course.points, 0), gradedCredits),
+      gradedCredits,
+      cumulativeGpa: average(
+        counted.reduce((total, course) => total + course.points, 0),
+        counted.reduce((total, course) => total + course.credits, 0)
+      )
+    };
+  });
+
+  const counted = courses.filter(course => !course.replaced);
+  const gradedCredits = counted.reduce((total, course) => total + course.credits, 0);
+  const qualityPoints = counted.reduce((total, course) => total + course.points, 0);
+
+  const earnedCredits = counted
+    .filter(course => GRADE_POINTS[course.grade] > 0)
+    .reduce((total, course) => total + course.credits, 0);
+
+  return { gpa: average(qualityPoints, gradedCredits), gradedCredits, qualityPoints, earnedCredits, semesters, courses };
+}
+
+// Work out the GPA needed over the remaining credits to reach a target cumulative GPA
+// Repeating a course would also drop its earlier grade, so this is the requirement without repeats
+export function projectGpa(summary: GpaSummary, targetGpa: number, remainingCredits: number): GpaProjection {
+  const totalCredits = summary.gradedCredits + remainingCredits;
+  const neededPoints = targetGpa * totalCredits - summary.qualityPoints;
+
+  if (remainingCredits <= 0) {
+    const reached = summary.gpa !== null && summary.gpa >= targetGpa;
+    return { requiredGpa: reached ? 0 : Infinity, status: reached ? 'reached' : 'unreachable' };
+  }
+
+  const requiredGpa = neededPoints / remainingCredits;
+  if (requiredGpa <= 0) return { requiredGpa, status: 'reached' };
+  return { requiredGpa, status: requiredGpa <= MAX_GPA ? 'achievable' : 'unreachable' };
+}
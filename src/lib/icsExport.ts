@@ -0,0 +1,169 @@
+/**
+ * iCalendar Export
+ *
+ * This file turns the sections chosen for a semester into an .ics file that calendar
+ * apps can import. It provides:
+ * - One weekly recurring event per meeting pattern of each chosen lecture and lab/recitation
+ * - Course title, instructor, section and location on every event
+ * - Recurrence bounded by the semester start/end dates, with holidays excluded
+ * - Default start/end dates guessed from the semester name
+ *
+ * Times are written as floating local times (no time zone), so they show at the same
+ * clock time wherever the calendar app runs, which matches how the catalog lists them.
+ */
+
+import type { SemesterPlan } from './store';
+import { MeetingBlock, parseSchedule, Weekday } from './sectionSchedule';
+import { classifySections, SECTION_KIND_LABELS } from './sectionPairing';
+
+// Dates bounding the exported recurrence (YYYY-MM-DD)
+export interface IcsExportOptions {
+  startDate: string;             // First day of classes
+  endDate: string;               // Last day of classes
+  holidays: string[];            // Days without classes
+}
+
+// Result of an export
+export interface IcsExport {
+  content: string;               // The .ics file content
+  eventCount: number;            // Recurring events written
+  skipped: string[];             // Chosen sections without a scheduled meeting (e.g., "CSC 1401 Lab")
+}
+
+// iCalendar day codes and JavaScript day numbers for each schedule day
+const DAY_CODES: Record<Weekday, { ics: string; js: number }> = {
+  M: { ics: 'MO', js: 1 },
+  T: { ics: 'TU', js: 2 },
+  W: { ics: 'WE', js: 3 },
+  R: { ics: 'TH', js: 4 },
+  F: { ics: 'FR', js: 5 },
+  S: { ics: 'SA', js: 6 },
+  U: { ics: 'SU', js: 0 }
+};
+
+// Typical class periods per term, used to prefill the export dates
+const DEFAULT_TERM_DATES: Record<string, { start: string; end: string }> = {
+  Fall: { start: '09-01', end: '12-15' },
+  Spring: { start: '01-15', end: '05-10' },
+  Summer: { start: '06-01', end: '07-31' }
+};
+
+// Parse a YYYY-MM-DD string as a local date
+const parseDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Format a local date and minutes after midnight as an iCalendar floating date-time
+const formatDateTime = (date: Date, minutes: number) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+
+// Format the current time as an iCalendar UTC timestamp
+const formatTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape text values (backslashes, separators and line breaks)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Fold lines longer than 75 characters, as the iCalendar format requires
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+};
+
+// Guess the class period of a semester from its name (e.g., "Fall 2024")
+export function getDefaultSemesterDates(semester: string): { startDate: string; endDate: string } {
+  const [term, year] = semester.split(' ');
+  const dates = DEFAULT_TERM_DATES[term] ?? DEFAULT_TERM_DATES.Fall;
+  const safeYear = /^\d{4}$/.test(year ?? '') ? year : String(new Date().getFullYear());
+  return { startDate: `${safeYear}-${dates.start}`, endDate: `${safeYear}-${dates.end}` };
+}
+
+// Build the .ics file for the sections chosen in a semester
+export function buildSemesterCalendar(semesterPlan: SemesterPlan, options: IcsExportOptions): IcsExport {
+  const start = parseDate(options.startDate);
+  const end = parseDate(options.endDate);
+  if (!start || !end || end < start) {
+    throw new Error('The semester end date must be on or after its start date');
+  }
+
+  const holidays = options.holidays
+    .map(parseDate)
+    .filter((date): date is Date => date !== null && date >= start && date <= end);
+  const timestamp = formatTimestamp(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//AUI Track//Degree Planner//EN', 'CALSCALE:GREGORIAN'];
+  const skipped: string[] = [];
+  let eventCount = 0;
+
+  semesterPlan.courses.forEach(course => {
+    const sections = classifySections(course.sections || []);
+    const chosen = [
+      semesterPlan.selectedSections?.[course.course_code],
+      semesterPlan.selectedLinkedSections?.[course.course_code]
+    ].filter((index): index is number => index !== undefined && !!sections[index]);
+
+    chosen.forEach(sectionIndex => {
+      const section = sections[sectionIndex];
+      const label = section.kind === 'lecture'
+        ? course.course_code
+        : `${course.course_code} ${SECTION_KIND_LABELS[section.kind]}`;
+      const { meetings } = parseSchedule(section.schedule);
+      if (meetings.length === 0) {
+        skipped.push(label);
+        return;
+      }
+
+      // Meetings with the same time and location become one event repeating on several days
+      const patterns = new Map<string, MeetingBlock[]>();
+      meetings.forEach(meeting => {
+        const key = `${meeting.start}-${meeting.end}-${meeting.location ?? ''}`;
+        patterns.set(key, [...(patterns.get(key) ?? []), meeting]);
+      });
+
+      Array.from(patterns.values()).forEach((blocks, patternIndex) => {
+        const { start: startMinutes, end: endMinutes, location } = blocks[0];
+        const jsDays = blocks.map(block => DAY_CODES[block.day].js);
+
+        // The first occurrence is the first matching weekday on or after the start date
+        const first = new Date(start);
+        while (!jsDays.includes(first.getDay())) first.setDate(first.getDate() + 1);
+        if (first > end) return;
+
+        const summary = section.kind === 'lecture'
+          ? `${course.course_code} ${course.course_name}`
+          : `${course.course_code} ${course.course_name} (${SECTION_KIND_LABELS[section.kind]})`;
+        const description = [
+          `${section.kind === 'lecture' ? 'Section' : SECTION_KIND_LABELS[section.kind]} ${sectionIndex + 1}`,
+          section.instructor ? `Instructor: ${section.instructor}` : null
+        ].filter(Boolean).join('\n');
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${course.course_code.replace(/\s+/g, '')}-${sectionIndex}-${patternIndex}-${semesterPlan.semester.replace(/\s+/g, '')}@auitrack`,
+          `DTSTAMP:${timestamp}`,
+          `DTSTART:${formatDateTime(first, startMinutes)}`,
+          `DTEND:${formatDateTime(first, endMinutes)}`,
+          `RRULE:FREQ=WEEKLY;BYDAY=${blocks.map(block => DAY_CODES[block.day].ics).join(',')};UNTIL=${formatDateTime(end, 23 * 60 + 59)}`,
+          ...holidays
+            .filter(holiday => jsDays.includes(holiday.getDay()) && holiday >= first)
+            .map(holiday => `EXDATE:${formatDateTime(holiday, startMinutes)}`),
+          `SUMMARY:${escapeText(summary)}`,
+          ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+          `DESCRIPTION:${escapeText(description)}`,
+          'END:VEVENT'
+        );
+        eventCount++;
+      });
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return { content: lines.map(foldLine).join('\r\n') + '\r\n', eventCount, skipped };
+}
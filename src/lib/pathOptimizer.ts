@@ -0,0 +1,435 @@
+/**
+ * Graduation Path Optimizer
+ *
+ * This file arranges the courses a student still has to take into the semesters between
+ * their start and end semester. It provides:
+ * - A schedule that finishes in as few semesters as possible, or one that spreads the
+ *   credits evenly over that same number of semesters
+ * - Respect for prerequisites (including class standing), corequisites, the credit limit
+ *   of each semester type and the courses the student pinned to a semester
+ * - Locked semesters (semesters that have ended, or that the student locked) keep their
+ *   courses and receive no new ones
+ * - Failed and withdrawn attempts stay where they happened; a required course that was
+ *   failed is scheduled again after its last attempt
+ * - An explanation of the binding constraints when the courses do not fit the timeline
+ *
+ * Prerequisites that neither the plan nor the required courses contain are added, using
+ * the alternative that can be completed soonest (e.g., FRN 2210 before FRN 3210).
+ *
+ * Scheduling is greedy, semester by semester: among the courses whose prerequisites are
+ * met, those that must come before a pinned course go first, then those with the longest
+ * chain of courses waiting on them. This keeps prerequisite chains moving, which is what
+ * decides how soon the last course can be taken.
+ */
+
+import type { Course, SemesterPlan, UserInfo } from './store';
+import { getCreditLimit, getMissingCorequisites } from './store';
+import {
+  arePrerequisitesSatisfied,
+  compactCourseCode,
+  createPrerequisiteContext,
+  evaluatePrerequisites,
+  getCoursePrerequisites,
+  getPrerequisiteCourseCodes
+} from './prerequisites';
+import { computeEarliestTerms, EarliestTerm, getPlanningTerms } from './criticalPath';
+import { countsTowardPrerequisites, isSemesterLocked } from './courseStatus';
+
+// What the schedule should favor
+export type OptimizerObjective = 'fewest-semesters' | 'balanced';
+
+// Options the student can choose before optimizing
+export interface OptimizerOptions {
+  objective: OptimizerObjective;
+  includeSummer: boolean;        // Whether courses may be placed in summer semesters
+}
+
+// A constraint that keeps the courses from fitting the timeline
+export interface BindingConstraint {
+  kind: 'prerequisites' | 'credit-limits' | 'pinned' | 'unavailable' | 'not-in-catalog' | 'summer';
+  message: string;
+}
+
+// A semester of the optimized schedule
+export interface OptimizedSemester {
+  semester: string;              // Semester name (e.g., "Fall 2025")
+  type: SemesterPlan['type'];
+  courses: Course[];             // Every course of the semester, pinned ones included
+  credits: number;
+  pinned: string[];              // Codes of the courses kept in place (pinned, failed or withdrawn, or in a locked semester)
+  locked: boolean;               // Whether the semester is locked and kept as it is
+}
+
+// The optimized schedule and whether it fits
+export interface OptimizedPlan {
+  semesters: OptimizedSemester[];
+  feasible: boolean;             // Every course placed, every required course offered and every pinned course reachable
+  lastSemester: string | null;   // Last semester with courses (null when nothing is scheduled)
+  semestersUsed: number;         // Semesters from the first one up to the last with courses
+  unscheduled: string[];         // Courses left out of the timeline, required courses missing from the catalog included
+  bindingConstraints: BindingConstraint[]; // Why the plan does not fit (empty when feasible)
+}
+
+// Result of one scheduling pass
+interface ScheduleResult {
+  plans: SemesterPlan[];
+  unscheduled: Course[];
+}
+
+const courseCredits = (course: Course) => parseInt(course.credits) || 0;
+
+// Index of the last semester with courses (-1 when the plan is empty)
+const lastUsedIndex = (plans: SemesterPlan[]) =>
+  plans.reduce((last, plan, i) => (plan.courses.length > 0 ? i : last), -1);
+
+// Courses that must be done before a pinned course, with the last semester they can go in
+const getPinnedDeadlines = (plans: SemesterPlan[], courses: Course[]): Map<string, number> => {
+  const byCode = new Map(courses.map(course => [compactCourseCode(course.course_code), course]));
+  const deadlines = new Map<string, number>();
+
+  const mark = (course: Course, deadline: number) => {
+    getPrerequisiteCourseCodes(getCoursePrerequisites(course)).forEach(code => {
+      const prerequisite = byCode.get(compactCourseCode(code));
+      const key = compactCourseCode(code);
+      if (!prerequisite || (deadlines.get(key) ?? Infinity) <= deadline - 1) return;
+      deadlines.set(key, deadline - 1);
+      mark(prerequisite, deadline - 1);
+    });
+  };
+
+  plans.forEach((plan, i) => plan.courses.forEach(course => mark(course, i)));
+  return deadlines;
+};
+
+// Length of the longest chain of courses (among those to schedule) waiting on each course
+const getChainLengths = (courses: Course[]): Map<string, number> => {
+  const dependents = new Map<string, Course[]>();
+  courses.forEach(course => {
+    getPrerequisiteCourseCodes(getCoursePrerequisites(course)).forEach(code => {
+      const key = compactCourseCode(code);
+      dependents.set(key, [...(dependents.get(key) ?? []), course]);
+    });
+  });
+
+  const lengths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const visit = (course: Course): number => {
+    const key = compactCourseCode(course.course_code);
+    const known = lengths.get(key);
+    if (known !== undefined) return known;
+    if (visiting.has(key)) return 0;
+    visiting.add(key);
+    const length = 1 + Math.max(0, ...(dependents.get(key) ?? []).map(visit));
+    visiting.delete(key);
+    lengths.set(key, length);
+    return length;
+  };
+
+  courses.forEach(visit);
+  return lengths;
+};
+
+// Place the courses into the semesters greedily, never going over each semester's credit cap
+const scheduleCourses = (
+  basePlans: SemesterPlan[],
+  courses: Course[],
+  userInfo: UserInfo | null,
+  includeSummer: boolean,
+  creditCap: (plan: SemesterPlan) => number
+): ScheduleResult => {
+  const deadlines = getPinnedDeadlines(basePlans, courses);
+  const chainLengths = getChainLengths(courses);
+  const key = (course: Course) => compactCourseCode(course.course_code);
+
+  let remaining = [...courses].sort((a, b) =>
+    (deadlines.get(key(a)) ?? Infinity) - (deadlines.get(key(b)) ?? Infinity) ||
+    (chainLengths.get(key(b)) ?? 0) - (chainLengths.get(key(a)) ?? 0) ||
+    a.course_code.localeCompare(b.course_code)
+  );
+  let plans = basePlans;
+
+  const place = (semesterIndex: number, course: Course) => {
+    plans = plans.map((plan, i) => i !== semesterIndex ? plan : {
+      ...plan,
+      courses: [...plan.courses, course],
+      credits: plan.credits + courseCredits(course)
+    });
+  };
+
+  plans.forEach((basePlan, i) => {
+    if ((!includeSummer && basePlan.type === 'summer') || isSemesterLocked(basePlan)) return;
+
+    // Prerequisites and class standing come from the semesters before this one
+    // Retakes go after every earlier attempt of the course
+    const context = createPrerequisiteContext(plans.slice(0, i), userInfo);
+    const attemptedLater = (course: Course) =>
+      basePlans.slice(i).some(plan => plan.courses.some(c => c.course_code === course.course_code));
+    const isReady = (course: Course) => arePrerequisitesSatisfied(course, context) && !attemptedLater(course);
+
+    let placed = true;
+    while (placed) {
+      placed = false;
+      for (const course of remaining) {
+        const plan = plans[i];
+        if (!isReady(course)) continue;
+
+        // Missing corequisites must come along in the same semester
+        const withCourse = plans.map((p, j) => j === i ? { ...p, courses: [...p.courses, course] } : p);
+        const corequisiteCodes = getMissingCorequisites(withCourse, plan.semester, course).map(compactCourseCode);
+        const corequisites = remaining.filter(c => corequisiteCodes.includes(key(c)));
+        if (corequisites.length !== corequisiteCodes.length || !corequisites.every(isReady)) continue;
+
+        const group = [course, ...corequisites];
+        const groupCredits = group.reduce((total, c) => total + courseCredits(c), 0);
+        if (plan.credits + groupCredits > creditCap(plan)) continue;
+
+        group.forEach(c => place(i, c));
+        remaining = remaining.filter(c => !group.includes(c));
+        placed = true;
+        break;
+      }
+    }
+  });
+
+  return { plans, unscheduled: remaining };
+};
+
+// Follow the prerequisites that set a course's earliest semester (e.g., "MTH 1303 → PHY 1401 → PHY 1402")
+const describeChain = (entry: EarliestTerm, earliest: Map<string, EarliestTerm>): string => {
+  const chain = [entry.courseCode];
+  let current = entry;
+  while (current.waitsFor.length > 0 && chain.length < 20) {
+    const next = earliest.get(compactCourseCode(current.waitsFor[0]));
+    if (!next) break;
+    chain.unshift(next.courseCode);
+    current = next;
+  }
+  return chain.join(' → ');
+};
+
+// Explain why courses were left out of the timeline
+// Earliest semesters come from a timeline that runs past the end semester
+const explainUnscheduled = (
+  semesterPlans: SemesterPlan[],
+  basePlans: SemesterPlan[],
+  courses: Course[],
+  unscheduled: Course[],
+  earliest: Map<string, EarliestTerm>,
+  userInfo: UserInfo | null,
+  options: OptimizerOptions
+): BindingConstraint[] => {
+  if (unscheduled.length === 0) return [];
+
+  const constraints: BindingConstraint[] = [];
+  const lastSemester = semesterPlans[semesterPlans.length - 1]?.semester ?? 'your end semester';
+
+  const explained = new Set<string>();
+
+  unscheduled.forEach(course => {
+    const entry = earliest.get(compactCourseCode(course.course_code));
+    if (!entry || entry.termIndex === Infinity) {
+      explained.add(course.course_code);
+      constraints.push({
+        kind: 'unavailable',
+        message: `${course.course_code} cannot be scheduled: its prerequisites or conditions can never be met with your information`
+      });
+    } else if (entry.termIndex >= semesterPlans.length) {
+      explained.add(course.course_code);
+      constraints.push({
+        kind: 'prerequisites',
+        message: `${course.course_code} can start no earlier than ${entry.term} (${describeChain(entry, earliest)}), after ${lastSemester}`
+      });
+    }
+  });
+
+  // Total credits against what the usable semesters allow (locked semesters hold what they have)
+  const capacity = basePlans.reduce((total, plan) => {
+    if (plan.locked) return total + plan.credits;
+    return total + (options.includeSummer || plan.type !== 'summer' ? getCreditLimit(plan.type) : 0);
+  }, 0);
+  const totalCredits = courses.reduce((total, course) => total + courseCredits(course), 0) +
+    basePlans.reduce((total, plan) => total + plan.credits, 0);
+  if (totalCredits > capacity) {
+    constraints.push({
+      kind: 'credit-limits',
+      message: `The ${totalCredits} credits to schedule exceed the ${capacity} credits your semesters allow ` +
+        `(${getCreditLimit('regular')} per regular semester${options.includeSummer ? `, ${getCreditLimit('summer')} per summer` : ''})`
+    });
+  }
+
+  // Summer semesters might make the difference
+  if (!options.includeSummer) {
+    const withSummer = scheduleCourses(basePlans, courses, userInfo, true, plan => getCreditLimit(plan.type));
+    if (withSummer.unscheduled.length === 0) {
+      constraints.push({ kind: 'summer', message: 'Using summer semesters would make every course fit' });
+    }
+  }
+
+  // Whatever is left was squeezed out by credit limits combined with prerequisite order
+  const leftOver = unscheduled.filter(course => !explained.has(course.course_code));
+  if (leftOver.length > 0 && totalCredits <= capacity) {
+    constraints.push({
+      kind: 'credit-limits',
+      message: `With prerequisites taken in order, the credit limits leave no room before ${lastSemester} for: ` +
+        leftOver.map(course => course.course_code).join(', ')
+    });
+  }
+
+  return constraints;
+};
+
+// Build the optimized schedule for the plan's semesters
+// Courses to schedule: the unpinned planned courses, the required courses not planned yet,
+// and the corequisites and missing prerequisites of both
+export function optimizeGraduationPath(
+  courseData: Course[],
+  semesterPlans: SemesterPlan[],
+  userInfo: UserInfo | null,
+  requiredCodes: string[],
+  options: OptimizerOptions
+): OptimizedPlan {
+  const catalog = new Map(courseData.map(course => [compactCourseCode(course.course_code), course]));
+
+  // Pinned courses, failed and withdrawn attempts and locked semesters stay as they are; everything else is rescheduled
+  const basePlans: SemesterPlan[] = semesterPlans.map(plan => {
+    const locked = isSemesterLocked(plan);
+    const courses = plan.courses.filter(course =>
+      locked || plan.pinnedCourses?.includes(course.course_code) || !countsTowardPrerequisites(plan, course.course_code)
+    );
+    return {
+      semester: plan.semester,
+      type: plan.type,
+      courses,
+      credits: courses.reduce((total, course) => total + courseCredits(course), 0),
+      pinnedCourses: plan.pinnedCourses,
+      courseRecords: plan.courseRecords,
+      locked
+    };
+  });
+  const pinnedCodes = new Set(basePlans.flatMap(plan => plan.courses
+    .filter(course => countsTowardPrerequisites(plan, course.course_code))
+    .map(course => compactCourseCode(course.course_code))));
+
+  const toSchedule = new Map<string, Course>();
+  const addCourse = (course: Course) => {
+    const code = compactCourseCode(course.course_code);
+    if (pinnedCodes.has(code) || toSchedule.has(code)) return;
+    toSchedule.set(code, course);
+    (course.corequisites || []).forEach(corequisite => {
+      const found = catalog.get(compactCourseCode(corequisite));
+      if (found) addCourse(found);
+    });
+  };
+  semesterPlans.forEach(plan => plan.courses
+    .filter(course => countsTowardPrerequisites(plan, course.course_code))
+    .forEach(addCourse));
+  // Required courses the catalog does not offer cannot be scheduled and are reported instead
+  const notInCatalog: string[] = [];
+  requiredCodes.forEach(code => {
+    const course = catalog.get(compactCourseCode(code));
+    if (course) addCourse(course);
+    else if (!notInCatalog.includes(code)) notInCatalog.push(code);
+  });
+
+  // Add the prerequisites of the soonest alternative for courses nothing else satisfies
+  const terms = getPlanningTerms(userInfo, semesterPlans);
+  const earliest = computeEarliestTerms(courseData, terms, userInfo, { includeSummer: options.includeSummer });
+  let added = true;
+  while (added) {
+    added = false;
+    const available = new Set([...pinnedCodes, ...toSchedule.keys()]);
+    for (const [code, course] of Array.from(toSchedule.entries())) {
+      if (evaluatePrerequisites(getCoursePrerequisites(course), { completedCourses: available })) continue;
+      (earliest.get(code)?.requires ?? []).forEach(prerequisite => {
+        const found = catalog.get(compactCourseCode(prerequisite));
+        if (found && !available.has(compactCourseCode(prerequisite))) {
+          addCourse(found);
+          added = true;
+        }
+      });
+    }
+  }
+  const courses = Array.from(toSchedule.values());
+
+  // Fewest semesters: fill each semester up to its credit limit
+  const run = (includeSummer: boolean, cap: (plan: SemesterPlan) => number) =>
+    scheduleCourses(basePlans, courses, userInfo, includeSummer, cap);
+  let result = run(options.includeSummer, plan => getCreditLimit(plan.type));
+
+  // Balanced: lower the cap as far as possible without needing more semesters
+  if (options.objective === 'balanced') {
+    const semestersNeeded = lastUsedIndex(result.plans) + 1;
+    const usablePlans = result.plans
+      .slice(0, semestersNeeded)
+      .filter(plan => !plan.locked && (options.includeSummer || plan.type !== 'summer'));
+    const usable = usablePlans.length;
+    const totalCredits = usablePlans.reduce((total, plan) => total + plan.credits, 0);
+
+    for (let target = Math.ceil(totalCredits / Math.max(1, usable)); target < getCreditLimit('regular'); target++) {
+      const balanced = run(options.includeSummer, plan => Math.min(getCreditLimit(plan.type), target));
+      if (balanced.unscheduled.length <= result.unscheduled.length && lastUsedIndex(balanced.plans) + 1 <= semestersNeeded) {
+        result = balanced;
+        break;
+      }
+    }
+  }
+
+  const { plans, unscheduled } = result;
+
+  // Pinned courses whose prerequisites are still not met before their semester
+  const pinnedProblems: BindingConstraint[] = [];
+  plans.forEach((plan, i) => {
+    // Locked semesters record what was taken; there is nothing left to fix in them
+    if (plan.locked) return;
+
+    const context = createPrerequisiteContext(plans.slice(0, i), userInfo);
+    plan.courses
+      .filter(course => pinnedCodes.has(compactCourseCode(course.course_code)))
+      .filter(course => !arePrerequisitesSatisfied(course, context))
+      .forEach(course => pinnedProblems.push({
+        kind: 'pinned',
+        message: `${course.course_code} is pinned to ${plan.semester}, but its prerequisites cannot be completed before then`
+      }));
+
+    const pinnedCredits = plan.courses
+      .filter(course => pinnedCodes.has(compactCourseCode(course.course_code)))
+      .reduce((total, course) => total + courseCredits(course), 0);
+    if (pinnedCredits > getCreditLimit(plan.type)) {
+      pinnedProblems.push({
+        kind: 'pinned',
+        message: `The courses pinned to ${plan.semester} add up to ${pinnedCredits} credits, over its ${getCreditLimit(plan.type)} credit limit`
+      });
+    }
+  });
+
+  const catalogProblems: BindingConstraint[] = notInCatalog.map(code => ({
+    kind: 'not-in-catalog',
+    message: `${code} is required but not offered in the catalog, so it cannot be scheduled`
+  }));
+
+  const feasible = unscheduled.length === 0 && pinnedProblems.length === 0 && notInCatalog.length === 0;
+  const bindingConstraints = feasible
+    ? []
+    : [
+      ...catalogProblems,
+      ...pinnedProblems,
+      ...explainUnscheduled(semesterPlans, basePlans, courses, unscheduled, earliest, userInfo, options)
+    ];
+
+  const last = lastUsedIndex(plans);
+  return {
+    semesters: plans.map((plan, i) => ({
+      semester: plan.semester,
+      type: plan.type,
+      courses: plan.courses,
+      credits: plan.credits,
+      pinned: basePlans[i].courses.map(course => course.course_code),
+      locked: plan.locked ?? false
+    })),
+    feasible,
+    lastSemester: last === -1 ? null : plans[last].semester,
+    semestersUsed: last + 1,
+    unscheduled: [...unscheduled.map(course => course.course_code), ...notInCatalog],
+    bindingConstraints
+  };
+}
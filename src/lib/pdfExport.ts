@@ -0,0 +1,249 @@
+/**
+ * PDF Export
+ *
+ * This file builds a printable PDF of the degree plan for advisors to review and sign.
+ * The PDF contains:
+ * - A cover page with the student's information and timeline
+ * - One table per semester, grouped by academic year, with semester and year totals
+ * - Planned credits compared with the credits required to graduate
+ * - The requirement categories that are still outstanding
+ * - Signature and date lines for the student and the advisor
+ *
+ * It takes the same input as the Word export and groups semesters the same way.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { auditDegreePlan } from './degreeAudit';
+import { DegreePlanDocumentInput, groupSemestersByAcademicYear } from './docxExport';
+
+// Page size (US Letter, points) and margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// AUI green and the grays used for text and table lines
+const BRAND_COLOR = rgb(0.086, 0.396, 0.204);
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const LINE_COLOR = rgb(0.8, 0.8, 0.8);
+
+// Semester table columns: x offset from the left margin and width
+const COLUMNS = [
+  { title: 'Course ID', x: 0, width: 80 },
+  { title: 'Course Title', x: 80, width: 300 },
+  { title: 'Requirement', x: 380, width: 92 },
+  { title: 'SCH', x: 472, width: 40 }
+];
+const ROW_HEIGHT = 18;
+
+// Standard PDF fonts only cover Latin-1; replace anything else so drawing never fails
+const safeText = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+// Shorten text with an ellipsis so it fits in the given width
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = safeText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// Build the degree plan PDF and return it as a file
+export async function buildDegreePlanPdf(input: DegreePlanDocumentInput): Promise<Blob> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Degree Plan - ${safeText(input.studentName)}`);
+  pdf.setCreator('AUI Track');
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const audit = auditDegreePlan(input.semesterPlans, input.requirements);
+  const totalCredits = input.semesterPlans.reduce((total, semester) => total + semester.credits, 0);
+
+  // Requirement categories each planned course counts toward
+  const categoriesByCourse = new Map<string, string[]>();
+  audit.categories.forEach(category => {
+    category.appliedCourses.forEach(code => {
+      categoriesByCourse.set(code, [...(categoriesByCourse.get(code) ?? []), category.name]);
+    });
+  });
+
+  // Current page and the y position where the next line goes
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  // Start a new page when the next block would not fit
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  const drawText = (text: string, x: number, options: { size?: number; font?: PDFFont; color?: typeof TEXT_COLOR } = {}) => {
+    page.drawText(safeText(text), {
+      x,
+      y,
+      size: options.size ?? 10,
+      font: options.font ?? font,
+      color: options.color ?? TEXT_COLOR
+    });
+  };
+
+  const drawRule = (color = LINE_COLOR, thickness = 0.5) => {
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness, color });
+  };
+
+  // A section heading with a colored rule below it
+  const drawHeading = (text: string, size = 14) => {
+    ensureSpace(size + 40);
+    y -= size + 10;
+    drawText(text, MARGIN, { size, font: bold, color: BRAND_COLOR });
+    y -= 6;
+    drawRule(BRAND_COLOR, 1);
+    y -= 14;
+  };
+
+  // A "label: value" line
+  const drawInfoLine = (label: string, value: string) => {
+    ensureSpace(16);
+    drawText(`${label}:`, MARGIN, { font: bold, size: 11 });
+    drawText(value, MARGIN + 190, { size: 11 });
+    y -= 16;
+  };
+
+  // Cover page
+  if (input.logo) {
+    const logo = await pdf.embedPng(input.logo);
+    const scaled = logo.scale(140 / logo.width);
+    page.drawImage(logo, { x: (PAGE_WIDTH - scaled.width) / 2, y: y - scaled.height, width: scaled.width, height: scaled.height });
+    y -= scaled.height + 40;
+  } else {
+    y -= 80;
+  }
+
+  const title = 'Degree Plan';
+  page.drawText(title, { x: (PAGE_WIDTH - bold.widthOfTextAtSize(title, 28)) / 2, y, size: 28, font: bold, color: BRAND_COLOR });
+  y -= 24;
+  const subtitle = 'Al Akhawayn University in Ifrane';
+  page.drawText(subtitle, { x: (PAGE_WIDTH - font.widthOfTextAtSize(subtitle, 12)) / 2, y, size: 12, font, color: MUTED_COLOR });
+  y -= 40;
+
+  drawHeading('Student Information');
+  drawInfoLine('Name', input.studentName);
+  drawInfoLine('ID', input.studentId);
+  drawInfoLine('Major', input.major);
+  drawInfoLine('School', input.school);
+  if (input.semesterNames.length > 0) {
+    drawInfoLine('Timeline', `${input.semesterNames[0]} - ${input.semesterNames[input.semesterNames.length - 1]}`);
+  }
+  drawInfoLine('Credits Planned', `${totalCredits} of ${input.totalCreditsToGraduate}`);
+
+  // Semester tables, one academic year per page
+  groupSemestersByAcademicYear(input.semesterNames, input.semesterPlans).forEach(group => {
+    newPage();
+    drawHeading(`Academic Year ${group.academicYear}`, 16);
+
+    group.semesters.forEach(semester => {
+      // Keep the semester title, header row and at least one course together
+      ensureSpace(20 + ROW_HEIGHT * 3);
+      drawText(semester.name, MARGIN, { size: 12, font: bold });
+      y -= ROW_HEIGHT + 4;
+
+      // Header row
+      page.drawRectangle({ x: MARGIN, y: y - 5, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: BRAND_COLOR });
+      COLUMNS.forEach(column => drawText(column.title, MARGIN + column.x + 4, { font: bold, size: 9, color: rgb(1, 1, 1) }));
+      y -= ROW_HEIGHT;
+
+      const rows = semester.courses.length > 0
+        ? semester.courses.map(course => [
+          course.course_code,
+          course.course_name,
+          (categoriesByCourse.get(course.course_code) ?? ['-']).join(', '),
+          String(parseInt(course.credits) || 0)
+        ])
+        : [['NONE', 'No courses added', '', '0']];
+
+      rows.forEach(row => {
+        ensureSpace(ROW_HEIGHT);
+        row.forEach((cell, i) => {
+          const column = COLUMNS[i];
+          drawText(fitText(cell, font, 9, column.width - 8), MARGIN + column.x + 4, {
+            size: 9,
+            color: i === 2 || semester.courses.length === 0 ? MUTED_COLOR : TEXT_COLOR
+          });
+        });
+        y -= 5;
+        drawRule();
+        y -= ROW_HEIGHT - 5;
+      });
+
+      ensureSpace(ROW_HEIGHT);
+      drawText('Total SCH', MARGIN + COLUMNS[2].x + 4, { size: 9, font: bold });
+      drawText(String(semester.credits), MARGIN + COLUMNS[3].x + 4, { size: 9, font: bold });
+      y -= ROW_HEIGHT + 10;
+    });
+
+    ensureSpace(20);
+    drawText(`Total SCH for ${group.academicYear}: ${group.credits}`, MARGIN, { size: 11, font: bold });
+    y -= 20;
+  });
+
+  // Credit totals and outstanding requirements
+  newPage();
+  drawHeading('Degree Summary', 16);
+  drawInfoLine('Total Credits Planned', String(totalCredits));
+  drawInfoLine('Credits Required for Graduation', String(input.totalCreditsToGraduate));
+  drawInfoLine('Remaining Credits', String(Math.max(0, input.totalCreditsToGraduate - totalCredits)));
+
+  drawHeading('Outstanding Requirements');
+  const outstanding = audit.categories.filter(category => !category.isComplete);
+  if (outstanding.length === 0) {
+    ensureSpace(16);
+    drawText('Every requirement category is satisfied by the plan.', MARGIN, { size: 11 });
+    y -= 16;
+  }
+  outstanding.forEach(category => {
+    ensureSpace(32);
+    const remaining = Math.max(0, category.requiredCredits - category.satisfiedCredits);
+    drawText(category.name, MARGIN, { size: 10, font: bold });
+    drawText(`${category.satisfiedCredits} / ${category.requiredCredits} SCH (${remaining} remaining)`, MARGIN + 300, { size: 10 });
+    y -= 14;
+    if (category.missingRequired.length > 0) {
+      drawText(fitText(`Missing required: ${category.missingRequired.join(', ')}`, font, 9, CONTENT_WIDTH - 12), MARGIN + 12, { size: 9, color: MUTED_COLOR });
+      y -= 14;
+    }
+    y -= 4;
+  });
+
+  // Signature lines
+  ensureSpace(140);
+  y -= 50;
+  ['Student', 'Advisor'].forEach(role => {
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + 280, y }, thickness: 0.75, color: TEXT_COLOR });
+    page.drawLine({ start: { x: MARGIN + 340, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.75, color: TEXT_COLOR });
+    y -= 14;
+    drawText(`${role} Signature`, MARGIN, { size: 9, color: MUTED_COLOR });
+    drawText('Date', MARGIN + 340, { size: 9, color: MUTED_COLOR });
+    y -= 50;
+  });
+
+  // Page numbers
+  const pages = pdf.getPages();
+  pages.forEach((pdfPage, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    pdfPage.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR
+    });
+  });
+
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+}
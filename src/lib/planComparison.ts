@@ -0,0 +1,83 @@
+/**
+ * Plan Comparison Utilities
+ *
+ * This file compares two of a student's named plans. It provides:
+ * - Total credits and projected graduation term for a plan
+ * - The courses placed in different semesters in each plan
+ * - The courses that appear in only one of the plans
+ *
+ * It is used by the compare view on the degree plan page.
+ */
+
+import type { SemesterPlan } from './store';
+
+// Summary of one plan in a comparison
+export interface PlanSummary {
+  totalCredits: number;          // Sum of credits across all semesters
+  graduationTerm: string | null; // Last semester with courses (null when the plan is empty)
+  semesterCount: number;         // Number of semesters with at least one course
+}
+
+// A course that both plans include, but in different semesters
+export interface MovedCourse {
+  courseCode: string;
+  semesterA: string;
+  semesterB: string;
+}
+
+// Result of comparing plan A with plan B
+export interface PlanComparison {
+  summaryA: PlanSummary;
+  summaryB: PlanSummary;
+  moved: MovedCourse[];
+  onlyInA: string[];
+  onlyInB: string[];
+}
+
+// Summarize the credits and projected graduation term of a plan
+export function summarizePlan(semesterPlans: SemesterPlan[]): PlanSummary {
+  const usedSemesters = semesterPlans.filter(plan => plan.courses.length > 0);
+
+  return {
+    totalCredits: semesterPlans.reduce((total, plan) => total + plan.credits, 0),
+    graduationTerm: usedSemesters.length > 0 ? usedSemesters[usedSemesters.length - 1].semester : null,
+    semesterCount: usedSemesters.length
+  };
+}
+
+// Map each course code in a plan to the semester it is placed in
+const getCourseSemesters = (semesterPlans: SemesterPlan[]): Map<string, string> => {
+  const placements = new Map<string, string>();
+  semesterPlans.forEach(plan => {
+    plan.courses.forEach(course => placements.set(course.course_code, plan.semester));
+  });
+  return placements;
+};
+
+// Compare two plans course by course
+export function comparePlans(planA: SemesterPlan[], planB: SemesterPlan[]): PlanComparison {
+  const placementsA = getCourseSemesters(planA);
+  const placementsB = getCourseSemesters(planB);
+
+  const moved: MovedCourse[] = [];
+  const onlyInA: string[] = [];
+
+  placementsA.forEach((semesterA, courseCode) => {
+    const semesterB = placementsB.get(courseCode);
+    if (!semesterB) {
+      onlyInA.push(courseCode);
+    } else if (semesterA !== semesterB) {
+      moved.push({ courseCode, semesterA, semesterB });
+    }
+  });
+
+  const onlyInB = Array.from(placementsB.keys()).filter(courseCode => !placementsA.has(courseCode));
+
+  return {
+    summaryA: summarizePlan(planA),
+    summaryB: summarizePlan(planB),
+    moved,
+    onlyInA,
+    onlyInB
+  };
+}
@@ -0,0 +1,468 @@
+/**
+ * Plan File Format
+ *
+ * This file defines the JSON file students download to back up or move their plans,
+ * and reads it back. It includes:
+ * - A versioned, lossless format: user info, every named plan with its notes, the
+ *   courses of each semester, chosen sections, and the catalog version used
+ * - A runtime validator that reports each problem with the path of the bad field
+ *   (e.g., "plans[0].semesters[2].courses[1].credits: expected a string, found a number")
+ * - Import of the legacy text export ("DEGREE PLAN TEMPLATE") produced by older versions,
+ *   with its courses matched to the catalog again
+ *
+ * Bump PLAN_FILE_VERSION whenever the file shape changes, and keep reading older versions.
+ */
+
+import type { Course, NamedPlan, SemesterPlan, UserInfo, ImportedSemester } from './store';
+import { COURSE_STATUSES, LETTER_GRADES } from './courseStatus';
+
+// Identifies plan files written by this application
+export const PLAN_FILE_FORMAT = 'aui-track-plan';
+
+// Current version of the plan file format
+export const PLAN_FILE_VERSION = 1;
+
+// One named plan as stored in the file
+export interface PlanFilePlan {
+  id: string;
+  name: string;
+  notes: string;
+  semesters: SemesterPlan[];
+}
+
+// The complete plan file
+export interface PlanFile {
+  format: typeof PLAN_FILE_FORMAT;
+  version: number;
+  exportedAt: string;            // ISO timestamp of the export
+  catalogVersion: string | null; // Catalog the plan was made with (see getCatalogVersion)
+  userInfo: UserInfo;
+  activePlanId: string;
+  plans: PlanFilePlan[];
+}
+
+// Result of reading an uploaded file
+// - json: a validated plan file, restored as-is
+// - legacy: a text export; its courses must be matched against the catalog again
+export type PlanFileReadResult =
+  | { ok: true; kind: 'json'; file: PlanFile }
+  | { ok: true; kind: 'legacy'; userInfo: UserInfo; semesters: ImportedSemester[] }
+  | { ok: false; errors: string[] };
+
+const TERMS = ['Fall', 'Spring', 'Summer'];
+const SECTION_KINDS = ['lecture', 'lab', 'recitation'];
+
+// Identify a catalog by its size and a hash of its course codes and credits
+export function getCatalogVersion(courseData: Course[] | null): string | null {
+  if (!courseData || courseData.length === 0) return null;
+  let hash = 0;
+  courseData.forEach(course => {
+    const key = `${course.course_code}:${course.credits};`;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+  });
+  return `${courseData.length}-${(hash >>> 0).toString(16)}`;
+}
+
+// Build the plan file for the current user and plans
+export function createPlanFile(
+  userInfo: UserInfo,
+  plans: NamedPlan[],
+  activePlanId: string,
+  courseData: Course[] | null
+): PlanFile {
+  return {
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    catalogVersion: getCatalogVersion(courseData),
+    userInfo,
+    activePlanId,
+    plans: plans.map(plan => ({
+      id: plan.id,
+      name: plan.name,
+      notes: plan.notes ?? '',
+      semesters: plan.semesterPlans
+    }))
+  };
+}
+
+// Convert the plans of a validated file back into store plans
+export function getPlansFromFile(file: PlanFile): NamedPlan[] {
+  return file.plans.map(plan => ({
+    id: plan.id,
+    name: plan.name,
+    notes: plan.notes,
+    semesterPlans: plan.semesters
+  }));
+}
+
+// Describe the type of a value for error messages
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validation helpers: each records problems in `errors`, prefixed with the path of the field,
+// and the expect* helpers return whether the value has the expected type
+const fail = (errors: string[], path: string, message: string) => {
+  errors.push(`${path}: ${message}`);
+};
+
+const expectString = (value: unknown, path: string, errors: string[]): value is string => {
+  if (typeof value === 'string') return true;
+  fail(errors, path, `expected a string, found ${describe(value)}`);
+  return false;
+};
+
+const expectNumber = (value: unknown, path: string, errors: string[]): value is number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return true;
+  fail(errors, path, `expected a number, found ${describe(value)}`);
+  return false;
+};
+
+const expectObject = (value: unknown, path: string, errors: string[]): value is Record<string, unknown> => {
+  if (isObject(value)) return true;
+  fail(errors, path, `expected an object, found ${describe(value)}`);
+  return false;
+};
+
+const expectArray = (value: unknown, path: string, errors: string[]): value is unknown[] => {
+  if (Array.isArray(value)) return true;
+  fail(errors, path, `expected an array, found ${describe(value)}`);
+  return false;
+};
+
+const expectOneOf = (value: unknown, options: string[], path: string, errors: string[]) => {
+  if (expectString(value, path, errors) && !options.includes(value)) {
+    fail(errors, path, `expected one of ${options.map(o => `"${o}"`).join(', ')}, found "${value}"`);
+  }
+};
+
+const validateUserInfo = (value: unknown, path: string, errors: string[]) => {
+  if (!expectObject(value, path, errors)) return;
+  expectString(value.name, `${path}.name`, errors);
+  expectString(value.studentId, `${path}.studentId`, errors);
+  expectString(value.major, `${path}.major`, errors);
+  expectOneOf(value.startSemester, TERMS, `${path}.startSemester`, errors);
+  expectNumber(value.startYear, `${path}.startYear`, errors);
+  expectOneOf(value.endSemester, TERMS, `${path}.endSemester`, errors);
+  expectNumber(value.endYear, `${path}.endYear`, errors);
+  if (expectNumber(value.totalCreditsToGraduate, `${path}.totalCreditsToGraduate`, errors) && value.totalCreditsToGraduate <= 0) {
+    fail(errors, `${path}.totalCreditsToGraduate`, 'must be greater than 0');
+  }
+
+  // Placement results and instructor permissions are optional lists of strings
+  ['placements', 'instructorPermissions'].forEach(field => {
+    if (value[field] === undefined) return;
+    if (expectArray(value[field], `${path}.${field}`, errors)) {
+      value[field].forEach((entry: unknown, i: number) => expectString(entry, `${path}.${field}[${i}]`, errors));
+    }
+  });
+};
+
+const validateCourse = (value: unknown, path: string, errors: string[]) => {
+  if (!expectObject(value, path, errors)) return;
+  expectString(value.course_code, `${path}.course_code`, errors);
+  expectString(value.course_name, `${path}.course_name`, errors);
+  if (expectString(value.credits, `${path}.credits`, errors) && isNaN(parseInt(value.credits))) {
+    fail(errors, `${path}.credits`, `expected a number of credits such as "3.00", found "${value.credits}"`);
+  }
+
+  if (expectArray(value.prerequisites, `${path}.prerequisites`, errors)) {
+    value.prerequisites.forEach((group: unknown, g: number) => {
+      if (!expectArray(group, `${path}.prerequisites[${g}]`, errors)) return;
+      group.forEach((prereq, p) => {
+        const prereqPath = `${path}.prerequisites[${g}][${p}]`;
+        if (!expectObject(prereq, prereqPath, errors)) return;
+        expectString(prereq.type, `${prereqPath}.type`, errors);
+        expectString(prereq.value, `${prereqPath}.value`, errors);
+      });
+    });
+  }
+
+  if (expectArray(value.corequisites, `${path}.corequisites`, errors)) {
+    value.corequisites.forEach((code: unknown, c: number) => expectString(code, `${path}.corequisites[${c}]`, errors));
+  }
+
+  if (expectArray(value.sections, `${path}.sections`, errors)) {
+    value.sections.forEach((section: unknown, s: number) => {
+      const sectionPath = `${path}.sections[${s}]`;
+      if (!expectObject(section, sectionPath, errors)) return;
+      expectString(section.instructor, `${sectionPath}.instructor`, errors);
+      expectString(section.schedule, `${sectionPath}.schedule`, errors);
+      if (section.kind !== undefined) expectOneOf(section.kind, SECTION_KINDS, `${sectionPath}.kind`, errors);
+      if (section.lectureIndex !== undefined && section.lectureIndex !== null) {
+        expectNumber(section.lectureIndex, `${sectionPath}.lectureIndex`, errors);
+      }
+    });
+  }
+};
+
+// Section choices must point to planned courses and existing sections
+const validateSectionChoices = (value: unknown, courses: unknown[], path: string, errors: string[]) => {
+  if (value === undefined) return;
+  if (!expectObject(value, path, errors)) return;
+  Object.entries(value).forEach(([courseCode, index]) => {
+    const course = courses.filter(isObject).find(c => c.course_code === courseCode);
+    if (!course) {
+      fail(errors, `${path}["${courseCode}"]`, 'refers to a course that is not planned in this semester');
+    } else if (expectNumber(index, `${path}["${courseCode}"]`, errors) && !(Array.isArray(course.sections) && course.sections[index])) {
+      fail(errors, `${path}["${courseCode}"]`, `section ${index + 1} does not exist`);
+    }
+  });
+};
+
+const validateSemester = (value: unknown, path: string, errors: string[]) => {
+  if (!expectObject(value, path, errors)) return;
+  expectString(value.semester, `${path}.semester`, errors);
+  expectOneOf(value.type, ['regular', 'summer'], `${path}.type`, errors);
+  if (!expectArray(value.courses, `${path}.courses`, errors)) return;
+  const courses = value.courses;
+  courses.forEach((course, c) => validateCourse(course, `${path}.courses[${c}]`, errors));
+
+  // The stored total must match the courses so nothing is silently recomputed
+  if (expectNumber(value.credits, `${path}.credits`, errors)) {
+    const expected = courses.reduce<number>(
+      (total, course) => total + (isObject(course) ? parseInt(String(course.credits)) || 0 : 0),
+      0
+    );
+    if (expected !== value.credits) {
+      fail(errors, `${path}.credits`, `expected ${expected} (the sum of the course credits), found ${value.credits}`);
+    }
+  }
+
+  validateSectionChoices(value.selectedSections, courses, `${path}.selectedSections`, errors);
+  validateSectionChoices(value.selectedLinkedSections, courses, `${path}.selectedLinkedSections`, errors);
+
+  // Pinned courses must be planned in this semester
+  if (value.pinnedCourses !== undefined && expectArray(value.pinnedCourses, `${path}.pinnedCourses`, errors)) {
+    value.pinnedCourses.forEach((code: unknown, i: number) => {
+      if (!expectString(code, `${path}.pinnedCourses[${i}]`, errors)) return;
+      if (!courses.some(course => isObject(course) && course.course_code === code)) {
+        fail(errors, `${path}.pinnedCourses[${i}]`, 'refers to a course that is not planned in this semester');
+      }
+    });
+  }
+
+  // Course records must belong to planned courses, with a known status and grade
+  if (value.courseRecords !== undefined && expectObject(value.courseRecords, `${path}.courseRecords`, errors)) {
+    Object.entries(value.courseRecords).forEach(([courseCode, record]) => {
+      const recordPath = `${path}.courseRecords["${courseCode}"]`;
+      if (!courses.some(course => isObject(course) && course.course_code === courseCode)) {
+        fail(errors, recordPath, 'refers to a course that is not planned in this semester');
+      }
+      if (!expectObject(record, recordPath, errors)) return;
+      expectOneOf(record.status, COURSE_STATUSES.map(status => status.value), `${recordPath}.status`, errors);
+      if (record.grade !== undefined) expectOneOf(record.grade, LETTER_GRADES, `${recordPath}.grade`, errors);
+    });
+  }
+
+  if (value.locked !== undefined && typeof value.locked !== 'boolean') {
+    fail(errors, `${path}.locked`, `expected a boolean, found ${describe(value.locked)}`);
+  }
+};
+
+const validatePlan = (value: unknown, path: string, errors: string[]) => {
+  if (!expectObject(value, path, errors)) return;
+  expectString(value.id, `${path}.id`, errors);
+  expectString(value.name, `${path}.name`, errors);
+  expectString(value.notes, `${path}.notes`, errors);
+  if (expectArray(value.semesters, `${path}.semesters`, errors)) {
+    value.semesters.forEach((semester: unknown, s: number) => validateSemester(semester, `${path}.semesters[${s}]`, errors));
+  }
+};
+
+const validatePlanFileRoot = (value: unknown, errors: string[]) => {
+  if (!expectObject(value, 'file', errors)) return;
+  if (value.format !== PLAN_FILE_FORMAT) {
+    fail(errors, 'format', `expected "${PLAN_FILE_FORMAT}", found ${JSON.stringify(value.format) ?? 'nothing'}`);
+    return;
+  }
+  if (expectNumber(value.version, 'version', errors)) {
+    if (value.version > PLAN_FILE_VERSION) {
+      fail(errors, 'version', `the file was made with a newer version of the planner (format ${value.version}); this version reads up to ${PLAN_FILE_VERSION}`);
+      return;
+    }
+    if (value.version < 1 || !Number.isInteger(value.version)) {
+      fail(errors, 'version', `expected a whole number from 1 to ${PLAN_FILE_VERSION}, found ${value.version}`);
+    }
+  }
+  expectString(value.exportedAt, 'exportedAt', errors);
+  if (value.catalogVersion !== null) expectString(value.catalogVersion, 'catalogVersion', errors);
+  validateUserInfo(value.userInfo, 'userInfo', errors);
+
+  if (!expectArray(value.plans, 'plans', errors)) return;
+  if (value.plans.length === 0) fail(errors, 'plans', 'expected at least one plan');
+  value.plans.forEach((plan: unknown, p: number) => validatePlan(plan, `plans[${p}]`, errors));
+
+  const ids = value.plans.filter(isObject).map(plan => plan.id);
+  ids.forEach((id, p) => {
+    if (ids.indexOf(id) !== p) fail(errors, `plans[${p}].id`, `"${id}" is used by another plan`);
+  });
+  if (expectString(value.activePlanId, 'activePlanId', errors) && !ids.includes(value.activePlanId)) {
+    fail(errors, 'activePlanId', `"${value.activePlanId}" does not match any plan id`);
+  }
+};
+
+// Check that a parsed JSON value is a valid plan file; returns every problem found
+export function validatePlanFile(data: unknown): string[] {
+  const errors: string[] = [];
+  validatePlanFileRoot(data, errors);
+  return errors;
+}
+
+// Read a legacy text export ("DEGREE PLAN TEMPLATE"); returns null if it is not one
+// Courses come back without prerequisites or sections; resolve them with resolveLegacySemesters before importing
+export function parseLegacyTextPlan(content: string): { userInfo: UserInfo; semesters: ImportedSemester[] } | null {
+  const nameMatch = content.match(/Name:\s*(.+)/);
+  const idMatch = content.match(/ID:\s*(.+)/);
+  const majorMatch = content.match(/Major:\s*(.+)/);
+  if (!nameMatch || !idMatch || !majorMatch) return null;
+
+  // Convert the major's full name to its code
+  const majorName = majorMatch[1].trim();
+  const major = majorName.includes('Business') ? 'BA' : majorName.includes('International') ? 'IS' : 'CS';
+
+  const totalCreditsMatch = content.match(/Credits Required for Graduation:\s*(\d+)/);
+  const semesters: ImportedSemester[] = [];
+  const seen = new Set<string>();
+
+  // Each academic year holds semester blocks framed by dashed lines
+  content.split(/=+\s*ACADEMIC YEAR:/).slice(1).forEach(yearSection => {
+    const semesterMatches = Array.from(yearSection.matchAll(/\n-{3,}\s*([A-Za-z]+\s+\d{4})\s*\n-{3,}/g));
+
+    semesterMatches.forEach((match, j) => {
+      const name = match[1].trim();
+      if (seen.has(name)) return;
+      seen.add(name);
+
+      const start = match.index! + match[0].length;
+      const end = j < semesterMatches.length - 1 ? semesterMatches[j + 1].index : undefined;
+      semesters.push({ name, courses: parseLegacyCourses(yearSection.substring(start, end)) });
+    });
+  });
+
+  // The timeline runs from the first to the last semester; years count academic years (Fall starts one)
+  const academicYear = (semester: string) => {
+    const [term, year] = semester.split(' ');
+    return { term, year: term === 'Fall' ? parseInt(year) : parseInt(year) - 1 };
+  };
+  const first = academicYear(semesters[0]?.name ?? 'Fall 2024');
+  const last = academicYear(semesters[semesters.length - 1]?.name ?? 'Spring 2028');
+
+  return {
+    userInfo: {
+      name: nameMatch[1].trim(),
+      studentId: idMatch[1].trim(),
+      major,
+      startSemester: first.term,
+      startYear: first.year,
+      endSemester: last.term,
+      endYear: last.year,
+      totalCreditsToGraduate: totalCreditsMatch ? parseInt(totalCreditsMatch[1]) : 136
+    },
+    semesters
+  };
+}
+
+// Replace the courses of a legacy export with their catalog entries, so prerequisites and sections
+// are known again; courses the catalog does not contain are left out and reported
+export function resolveLegacySemesters(
+  semesters: ImportedSemester[],
+  courseData: Course[]
+): { semesters: ImportedSemester[]; missingCodes: string[] } {
+  const compactCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+  const catalog = new Map(courseData.map(course => [compactCode(course.course_code), course]));
+  const missingCodes: string[] = [];
+
+  return {
+    semesters: semesters.map(semester => ({
+      name: semester.name,
+      courses: semester.courses.flatMap(course => {
+        const found = catalog.get(compactCode(course.course_code));
+        if (!found) {
+          missingCodes.push(course.course_code);
+          return [];
+        }
+        return [found];
+      })
+    })),
+    missingCodes
+  };
+}
+
+// Read the course rows of one semester block of the legacy text export
+const parseLegacyCourses = (content: string): Course[] => {
+  const lines = content.split('\n').filter(line => !line.trim().match(/^=+$/));
+  const headerIndex = lines.findIndex(line =>
+    line.includes('Course ID') || line.includes('Course Title') || line.includes('SCH'));
+  if (headerIndex === -1) return [];
+
+  const courses: Course[] = [];
+
+  // Rows start after the header and its separator line
+  lines.slice(headerIndex + 2).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('-') || line.includes('Total SCH:')) return;
+    if (line.startsWith('NONE') || line.includes('No courses added')) return;
+
+    // Rows are tab separated or padded to fixed widths
+    let courseCode: string | undefined;
+    let courseName: string | undefined;
+    let credits: string | undefined;
+    if (line.includes('\t')) {
+      const parts = line.split('\t').filter(part => part.trim());
+      courseCode = parts[0]?.trim();
+      courseName = parts[1]?.trim();
+      credits = parts[2]?.trim() || parts[parts.length - 1]?.trim();
+    } else {
+      courseCode = line.substring(0, 15).trim();
+      courseName = line.substring(15, 55).trim();
+      credits = line.substring(55).trim();
+    }
+
+    const parsedCredits = parseInt(credits ?? '');
+    if (courseCode && courseName && !isNaN(parsedCredits)) {
+      courses.push({
+        course_code: courseCode,
+        course_name: courseName,
+        credits: parsedCredits.toString(),
+        prerequisites: [],
+        corequisites: [],
+        sections: []
+      });
+    }
+  });
+
+  return courses;
+};
+
+// Read an uploaded plan file, accepting the JSON format and the legacy text export
+export function readPlanFile(content: string): PlanFileReadResult {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (error) {
+      return { ok: false, errors: [`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    const errors = validatePlanFile(data);
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, kind: 'json', file: data as PlanFile };
+  }
+
+  const legacy = parseLegacyTextPlan(content);
+  if (!legacy) {
+    return { ok: false, errors: ['The file is neither a plan file (.json) nor a text export from an older version of the planner.'] };
+  }
+  return { ok: true, kind: 'legacy', ...legacy };
+}
@@ -0,0 +1,115 @@
+/**
+ * Saved Plan Migrations
+ *
+ * This file keeps plans saved in the browser readable as the store evolves.
+ * It includes:
+ * - The current schema version of the persisted store
+ * - One migration function per version bump, applied in order on load
+ * - Normalization that repairs partially saved or hand-edited course entries
+ *
+ * Whenever the shape of a persisted type (Course, SemesterPlan, UserInfo) changes,
+ * bump PLAN_SCHEMA_VERSION and add a migration that upgrades the previous shape.
+ */
+
+import type { Course, NamedPlan, SemesterPlan, UserInfo } from './store';
+
+// Current version of the persisted plan data
+export const PLAN_SCHEMA_VERSION = 2;
+
+// Key under which the plan is saved in localStorage
+export const PLAN_STORAGE_KEY = 'aui_track_plan';
+
+// Persisted state at version 1: a single plan
+interface PersistedPlanStateV1 {
+  semesterPlans: SemesterPlan[];
+  userInfo: UserInfo | null;
+  lastSavedAt: number | null;
+}
+
+// Persisted state at version 2 (current): several named plans, one of them active
+export interface PersistedPlanStateV2 extends PersistedPlanStateV1 {
+  plans: NamedPlan[];
+  activePlanId: string;
+}
+
+// A migration receives the state saved at the previous version and returns the next version's state
+// Saved data may be partial or hand-edited, so each migration narrows what it reads
+type Migration = (state: unknown) => unknown;
+
+// Read a saved value as an object (anything else reads as an empty one)
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// Parse a credit value that may be stored as a number or a string such as "3.00"
+const toCredits = (value: unknown): number => {
+  const credits = parseInt(String(value ?? '0'));
+  return isNaN(credits) ? 0 : credits;
+};
+
+// Bring a saved course back to the catalog shape, filling in any missing fields
+const normalizeCourse = (value: unknown): Course => {
+  const course = asRecord(value);
+  return {
+    course_code: String(course.course_code ?? ''),
+    course_name: String(course.course_name ?? ''),
+    credits: String(course.credits ?? '0'),
+    prerequisites: Array.isArray(course.prerequisites) ? course.prerequisites : [],
+    corequisites: Array.isArray(course.corequisites) ? course.corequisites : [],
+    sections: Array.isArray(course.sections) ? course.sections : []
+  };
+};
+
+// Bring a saved semester back to the store shape and recompute its credit total
+const normalizeSemester = (value: unknown): SemesterPlan => {
+  const plan = asRecord(value);
+  const courses = (Array.isArray(plan.courses) ? plan.courses : [])
+    .map(normalizeCourse)
+    .filter(course => course.course_code);
+
+  return {
+    semester: String(plan.semester ?? ''),
+    type: plan.type === 'summer' ? 'summer' : 'regular',
+    courses,
+    credits: courses.reduce((total, course) => total + toCredits(course.credits), 0)
+  };
+};
+
+// Migrations indexed by the version they produce
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0 -> 1: first versioned format; repair course and semester shapes
+  1: (value): PersistedPlanStateV1 => {
+    const state = asRecord(value);
+    return {
+      semesterPlans: (Array.isArray(state.semesterPlans) ? state.semesterPlans : []).map(normalizeSemester),
+      userInfo: state.userInfo ? asRecord(state.userInfo) as unknown as UserInfo : null,
+      lastSavedAt: typeof state.lastSavedAt === 'number' ? state.lastSavedAt : null
+    };
+  },
+
+  // Version 1 -> 2: a student can hold several named plans; the saved plan becomes "Plan A"
+  2: (value): PersistedPlanStateV2 => {
+    const state = asRecord(value) as Partial<PersistedPlanStateV1>;
+    const semesterPlans = Array.isArray(state.semesterPlans) ? state.semesterPlans : [];
+    return {
+      semesterPlans,
+      userInfo: state.userInfo ?? null,
+      lastSavedAt: typeof state.lastSavedAt === 'number' ? state.lastSavedAt : null,
+      plans: [{ id: 'plan-1', name: 'Plan A', semesterPlans }],
+      activePlanId: 'plan-1'
+    };
+  }
+};
+
+// Upgrade a persisted plan from the version it was saved with to the current version
+export function migratePlanState(persistedState: unknown, version: number): PersistedPlanStateV2 {
+  let state = persistedState;
+
+  for (let next = version + 1; next <= PLAN_SCHEMA_VERSION; next++) {
+    const migration = MIGRATIONS[next];
+    if (migration) {
+      state = migration(state);
+    }
+  }
+
+  return state as PersistedPlanStateV2;
+}
@@ -0,0 +1,133 @@
+/**
+ * Plan Suggestion ("auto-fill my plan")
+ *
+ * This file turns the output of generateDegreePlan into semesters the store understands.
+ * It includes:
+ * - Lookup of the major requirements the generator runs against
+ * - Mapping of the generator's numbered semesters onto the student's actual terms
+ * - Conversion of generated courses into real catalog entries
+ *
+ * The generator numbers semesters 1, 2, 3, ... with every third one a summer, as if the
+ * student started in Fall. Generated regular semesters are placed on the next regular
+ * term of the student's timeline, and the lighter generated summers on the next term of
+ * any type, so the suggested order is kept without leaving gaps for Spring starters.
+ */
+
+import type { Course, SemesterPlan } from './store';
+import { generateDegreePlan, DegreePlanOptions } from './degreePlanGenerator';
+import type { MajorRequirements } from './pdfParser';
+import { csMajorData } from '@/data/csMajor';
+
+// Specialization tracks understood by the generator
+export const SPECIALIZATION_TRACKS = [
+  { id: 'ai', name: 'Artificial Intelligence' },
+  { id: 'bigdata', name: 'Big Data' },
+  { id: 'systems', name: 'Systems' },
+  { id: 'software', name: 'Software Engineering' }
+];
+
+// A semester of the suggestion, already matched to a term in the student's plan
+export interface SuggestedSemester {
+  semester: string;              // Term name from the plan (e.g., "Fall 2025")
+  type: SemesterPlan['type'];
+  courses: Course[];             // Catalog entries suggested for this term
+  credits: number;
+  notInCatalog: string[];        // Generated courses for this term with no matching catalog entry
+}
+
+// The full suggestion produced for a plan
+export interface PlanSuggestion {
+  semesters: SuggestedSemester[];
+  notInCatalog: string[];        // Generated courses with no matching catalog entry
+  unscheduled: string[];         // Generated courses with no term left in the timeline
+}
+
+// Options the student can choose before generating a suggestion
+export interface SuggestionOptions {
+  includeSummer: boolean;
+  specialization: string | null; // One of SPECIALIZATION_TRACKS, or null for none
+}
+
+// Compare course codes without spaces or hyphens (e.g., "MTH1304" and "MTH 1304")
+const normalizeCourseCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+// Return the requirements the generator uses for a major (null when the major has none yet)
+export function getMajorRequirements(major: string): MajorRequirements | null {
+  switch (major) {
+    case 'CS':
+      return csMajorData;
+    default:
+      return null;
+  }
+}
+
+// Generate a suggested plan for the student's timeline, leaving out courses already planned
+export function suggestDegreePlan(
+  semesterPlans: SemesterPlan[],
+  courseData: Course[],
+  requirements: MajorRequirements,
+  options: SuggestionOptions
+): PlanSuggestion {
+  const generatorOptions: DegreePlanOptions = {
+    includeSummer: options.includeSummer,
+    summerTerms: semesterPlans.filter(plan => plan.type === 'summer').length,
+    transferCredits: [],
+    specializations: options.specialization ? [options.specialization] : []
+  };
+  const generated = generateDegreePlan(requirements, generatorOptions);
+
+  // Catalog entries and already planned courses keyed by normalized code
+  const catalog = new Map(courseData.map(course => [normalizeCourseCode(course.course_code), course]));
+  const planned = new Set(
+    semesterPlans.flatMap(plan => plan.courses.map(course => normalizeCourseCode(course.course_code)))
+  );
+
+  const semesters: SuggestedSemester[] = [];
+  const notInCatalog: string[] = [];
+  const unscheduled: string[] = [];
+  let nextTerm = 0;
+
+  generated.forEach(generatedSemester => {
+    const codes: string[] = generatedSemester.courses.map((course: { code: string }) => course.code);
+
+    // Place the generated semester on the next term it fits in
+    const termIndex = semesterPlans.findIndex(
+      (plan, index) => index >= nextTerm && (generatedSemester.type === 'summer' || plan.type === 'regular')
+    );
+    if (termIndex === -1) {
+      unscheduled.push(...codes.filter(code => !planned.has(normalizeCourseCode(code))));
+      return;
+    }
+    nextTerm = termIndex + 1;
+
+    // Swap generated courses for their catalog entries
+    const courses: Course[] = [];
+    const missing: string[] = [];
+    codes.forEach(code => {
+      const key = normalizeCourseCode(code);
+      if (planned.has(key)) return;
+
+      const course = catalog.get(key);
+      if (!course) {
+        missing.push(code);
+        return;
+      }
+      courses.push(course);
+    });
+    notInCatalog.push(...missing);
+
+    // Terms whose courses are all missing are kept so the student sees what to add by hand
+    if (courses.length > 0 || missing.length > 0) {
+      const term = semesterPlans[termIndex];
+      semesters.push({
+        semester: term.semester,
+        type: term.type,
+        courses,
+        credits: courses.reduce((total, course) => total + parseInt(course.credits), 0),
+        notInCatalog: missing
+      });
+    }
+  });
+
+  return { semesters, notInCatalog, unscheduled };
+}
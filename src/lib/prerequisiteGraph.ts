@@ -0,0 +1,196 @@
+/**
+ * Prerequisite Graph Model
+ *
+ * This file builds the data behind the prerequisite graph view. It provides:
+ * - The courses to show, with their planned/unplanned/blocked status
+ * - The prerequisite and corequisite relations between them
+ * - A column layout: one column per semester, then columns for unplanned courses
+ *
+ * Prerequisites are read through the shared expression model (lib/prerequisites.ts).
+ * A course required by every alternative is drawn as a solid edge, one required by only
+ * some alternatives as an "or" edge. Non-course prerequisites such as classifications are
+ * not drawn and count as satisfied.
+ */
+
+import type { Course, SemesterPlan } from './store';
+import { evaluatePrerequisites, getCoursePrerequisites, getPrerequisiteAlternatives } from './prerequisites';
+
+// Status of a course in the graph
+// - planned: the course is in a semester of the plan
+// - unplanned: not in the plan, but its prerequisites are satisfied by planned courses
+// - blocked: not in the plan, and its prerequisites are not satisfied by planned courses
+export type GraphCourseStatus = 'planned' | 'unplanned' | 'blocked';
+
+// Which courses the graph shows
+// - plan: planned courses and the prerequisites/corequisites they point to
+// - catalog: every course in the catalog
+export type GraphScope = 'plan' | 'catalog';
+
+// A course placed in the graph layout
+export interface GraphCourse {
+  id: string;                    // Normalized course code, used by relations
+  course: Course;
+  status: GraphCourseStatus;
+  semester: string | null;       // Semester the course is planned in (null when unplanned)
+  column: number;                // Index into the graph's columns
+  row: number;                   // Position within the column
+}
+
+// A relation drawn from a required course to the course that requires it
+export interface GraphRelation {
+  id: string;
+  source: string;                // Course code of the prerequisite/corequisite
+  target: string;                // Course code of the course that requires it
+  kind: 'and' | 'or' | 'coreq';  // Required by every alternative, by only some, or a corequisite
+  group: number;                 // Index of the first alternative requiring it (-1 for corequisites)
+}
+
+// The complete graph model
+export interface PrerequisiteGraphModel {
+  columns: string[];             // Column labels (semester names, then "Not planned")
+  courses: GraphCourse[];
+  relations: GraphRelation[];
+}
+
+// Compare course codes without spaces or hyphens (e.g., "MTH1304" and "MTH 1304")
+const normalizeCourseCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+// Return the catalog codes of the course prerequisites in each alternative (non-course entries dropped)
+const getPrerequisiteGroups = (course: Course, catalog: Map<string, Course>): string[][] =>
+  getPrerequisiteAlternatives(getCoursePrerequisites(course))
+    .map(alternative => Array.from(new Set(
+      alternative
+        .flatMap(leaf => leaf.type === 'course' ? [normalizeCourseCode(leaf.code)] : [])
+        .filter(code => catalog.has(code))
+    )));
+
+// Return the catalog codes of the course corequisites (ignoring the course itself)
+const getCorequisites = (course: Course, catalog: Map<string, Course>): string[] =>
+  (course.corequisites || [])
+    .map(normalizeCourseCode)
+    .filter(code => code && code !== normalizeCourseCode(course.course_code) && catalog.has(code));
+
+// Build the graph model for the plan or the full catalog
+export function buildPrerequisiteGraph(
+  courseData: Course[],
+  semesterPlans: SemesterPlan[],
+  scope: GraphScope
+): PrerequisiteGraphModel {
+  const catalog = new Map(courseData.map(course => [normalizeCourseCode(course.course_code), course]));
+
+  // Semester each planned course is in, and its column
+  const plannedSemester = new Map<string, string>();
+  const plannedColumn = new Map<string, number>();
+  semesterPlans.forEach((plan, index) => {
+    plan.courses.forEach(course => {
+      const key = normalizeCourseCode(course.course_code);
+      plannedSemester.set(key, plan.semester);
+      plannedColumn.set(key, index);
+    });
+  });
+
+  // Courses to show
+  const shown = new Set<string>();
+  if (scope === 'catalog') {
+    catalog.forEach((_, key) => shown.add(key));
+  } else {
+    plannedSemester.forEach((_, key) => {
+      shown.add(key);
+      const course = catalog.get(key);
+      if (!course) return;
+      getPrerequisiteGroups(course, catalog).flat().forEach(code => shown.add(code));
+      getCorequisites(course, catalog).forEach(code => shown.add(code));
+    });
+  }
+
+  // Planned courses may come from an older catalog; fall back to the copy stored in the plan
+  const getCourse = (key: string): Course | undefined =>
+    catalog.get(key) ??
+    semesterPlans.flatMap(plan => plan.courses).find(course => normalizeCourseCode(course.course_code) === key);
+
+  // Status of a course given everything that is planned
+  const getStatus = (key: string): GraphCourseStatus => {
+    if (plannedSemester.has(key)) return 'planned';
+    const course = getCourse(key);
+    if (!course) return 'blocked';
+    const satisfied = evaluatePrerequisites(getCoursePrerequisites(course), {
+      completedCourses: new Set(plannedSemester.keys())
+    });
+    return satisfied ? 'unplanned' : 'blocked';
+  };
+
+  // Unplanned courses go after the semesters, one column further than their deepest unplanned prerequisite
+  const depthCache = new Map<string, number>();
+  const getUnplannedDepth = (key: string, visiting: Set<string>): number => {
+    if (depthCache.has(key)) return depthCache.get(key)!;
+    const course = getCourse(key);
+    if (!course || visiting.has(key)) return 0;
+
+    visiting.add(key);
+    const prerequisiteDepths = getPrerequisiteGroups(course, catalog)
+      .flat()
+      .filter(code => shown.has(code) && !plannedSemester.has(code) && code !== key)
+      .map(code => getUnplannedDepth(code, visiting) + 1);
+    visiting.delete(key);
+
+    const depth = Math.max(0, ...prerequisiteDepths);
+    depthCache.set(key, depth);
+    return depth;
+  };
+
+  const columns = semesterPlans.map(plan => plan.semester);
+  const rowsUsed: number[] = columns.map(() => 0);
+  const courses: GraphCourse[] = [];
+
+  Array.from(shown)
+    .sort()
+    .forEach(key => {
+      const course = getCourse(key);
+      if (!course) return;
+
+      let column = plannedColumn.get(key);
+      if (column === undefined) {
+        column = semesterPlans.length + getUnplannedDepth(key, new Set());
+        while (columns.length <= column) {
+          columns.push('Not planned');
+          rowsUsed.push(0);
+        }
+      }
+
+      courses.push({
+        id: key,
+        course,
+        status: getStatus(key),
+        semester: plannedSemester.get(key) ?? null,
+        column,
+        row: rowsUsed[column]++
+      });
+    });
+
+  // Relations between the shown courses
+  const relations: GraphRelation[] = [];
+  courses.forEach(({ id: target, course }) => {
+    const groups = getPrerequisiteGroups(course, catalog);
+    Array.from(new Set(groups.flat()))
+      .filter(source => shown.has(source) && source !== target)
+      .forEach(source => relations.push({
+        id: `prereq-${source}-${target}`,
+        source,
+        target,
+        kind: groups.every(group => group.includes(source)) ? 'and' : 'or',
+        group: groups.findIndex(group => group.includes(source))
+      }));
+
+    getCorequisites(course, catalog)
+      .filter(source => shown.has(source))
+      .forEach(source => relations.push({
+        id: `coreq-${source}-${target}`,
+        source,
+        target,
+        kind: 'coreq',
+        group: -1
+      }));
+  });
+
+  return { columns, courses, relations };
+}
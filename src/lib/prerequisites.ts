@@ -0,0 +1,424 @@
+/**
+ * Prerequisite Expressions
+ *
+ * This file turns the scraped prerequisite arrays into a normalized AND/OR expression
+ * and evaluates it. It provides:
+ * - The expression type: AND/OR nodes over course, standing, placement and other leaves
+ * - A normalizer for the scraped catalog format, with hand-written overrides taking precedence
+ * - One evaluator shared by the store, the Add Course modal and the prerequisite graph
+ * - Student conditions: class standing from credits planned before the semester, placement
+ *   results from the student information, the major, and instructor permission per course
+ * - Only courses that were not failed or withdrawn count, for courses and for class standing
+ * - Minimum grades: a prerequisite completed with a lower grade does not count. The minimum
+ *   comes from the prerequisite itself or from the student's major (see data/minimumGrades)
+ * - Helpers to list the courses an expression mentions and to describe it for display
+ *
+ * The scraped format is an OR of AND groups: the course can be taken when every entry
+ * of at least one group is satisfied. Groups often repeat a course once per allowed
+ * classification or major (e.g., "CSC2306 + JR Classification", "CSC2306 + SR
+ * Classification"), contain blank entries, or list test scores as courses; the
+ * normalizer cleans these up and factors out entries shared by every group.
+ */
+
+import type { Course, Prerequisite, SemesterPlan, UserInfo } from './store';
+import { PREREQUISITE_OVERRIDES } from '@/data/prerequisiteOverrides';
+import { MINIMUM_PREREQUISITE_GRADES } from '@/data/minimumGrades';
+import { countsTowardPrerequisites, getCountedCredits, getCourseRecord, meetsMinimumGrade } from './courseStatus';
+
+// Student classifications, from first year to final year
+export type Standing = 'FR' | 'SO' | 'JR' | 'SR';
+
+// A course that must be taken in an earlier semester
+export interface CoursePrerequisite {
+  type: 'course';
+  code: string;                  // Course code with a space (e.g., "CSC 1401")
+  minimumGrade?: string;         // Lowest grade that counts (e.g., "C"); the major's rules apply when omitted
+}
+
+// A minimum classification (e.g., junior standing or higher)
+export interface StandingPrerequisite {
+  type: 'standing';
+  standing: Standing;
+}
+
+// A placement or test result (e.g., "LC" Language Center placement, "TEF2")
+export interface PlacementPrerequisite {
+  type: 'placement';
+  value: string;
+}
+
+// Any other condition the catalog lists (e.g., "CSC Major", "Tuition Regular")
+export interface NonCoursePrerequisite {
+  type: 'non-course';
+  value: string;
+}
+
+// Conditions that are not courses
+export type PrerequisiteCondition = StandingPrerequisite | PlacementPrerequisite | NonCoursePrerequisite;
+
+export type PrerequisiteLeaf = CoursePrerequisite | PrerequisiteCondition;
+
+// A normalized prerequisite expression
+export type PrerequisiteExpression =
+  | PrerequisiteLeaf
+  | { type: 'and'; items: PrerequisiteExpression[] }   // Every item must be satisfied
+  | { type: 'or'; items: PrerequisiteExpression[] };   // At least one item must be satisfied
+
+// What the evaluator knows about the student at the semester being checked
+export interface PrerequisiteContext {
+  completedCourses: Set<string>; // Codes of courses taken in earlier semesters, without spaces (e.g., "CSC1401")
+  // Decides standing, placement and other conditions; they count as satisfied when omitted
+  isConditionMet?: (condition: PrerequisiteCondition) => boolean;
+  instructorPermissions?: Set<string>; // Courses whose prerequisites the instructor waived (codes without spaces)
+  courseGrades?: Map<string, string>; // Latest recorded grade of the completed courses (codes without spaces)
+  // Lowest grade a course prerequisite needs (null when any passing grade counts)
+  getMinimumGrade?: (prerequisite: CoursePrerequisite) => string | null;
+}
+
+// Minimum grades of one major, by subject prefix (e.g., "CSC") and by course (code without spaces)
+export interface MinimumGradeRules {
+  subjects: Record<string, string>;
+  courses: Record<string, string>;
+}
+
+// A completed prerequisite whose grade is below the minimum
+export interface InsufficientGrade {
+  code: string;                  // e.g., "CSC 1401"
+  grade: string;                 // Grade earned (e.g., "D")
+  minimumGrade: string;          // Grade needed (e.g., "C")
+}
+
+// The student's situation at the start of a semester, used for non-course conditions
+export interface StudentConditions {
+  creditsCompleted: number;      // Credits planned in earlier semesters
+  standing: Standing;            // Classification those credits give
+  placements: string[];          // Placement results from the student information (e.g., ["LC", "TEF2"])
+  major: string | null;          // Major code (e.g., "CS"), null when unknown
+}
+
+// A non-course condition with whether the student meets it and why
+export interface ConditionExplanation {
+  condition: PrerequisiteCondition;
+  met: boolean;
+  reason: string;                // e.g., "45 credits planned before this semester; junior standing starts at 60"
+}
+
+// Display names of the classifications
+export const STANDING_LABELS: Record<Standing, string> = {
+  FR: 'Freshman',
+  SO: 'Sophomore',
+  JR: 'Junior',
+  SR: 'Senior'
+};
+
+// Classification order, used to compare standings
+export const STANDING_ORDER: Standing[] = ['FR', 'SO', 'JR', 'SR'];
+
+// Credits a student needs before a semester to hold each classification
+export const STANDING_MIN_CREDITS: Record<Standing, number> = { FR: 0, SO: 30, JR: 60, SR: 90 };
+
+// Placement results the catalog refers to, as students enter them in their information
+export const PLACEMENT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'LC', label: 'Placed in the Language Center (LC)' },
+  { value: 'TOEFL Scores - LC2', label: 'TOEFL score for Language Center level 2' },
+  { value: 'TEF1', label: 'French placement test (TEF) level 1' },
+  { value: 'TEF2', label: 'French placement test (TEF) level 2' },
+  { value: 'TEF3', label: 'French placement test (TEF) level 3' },
+  { value: 'TEF4', label: 'French placement test (TEF) level 4' }
+];
+
+// Catalog program names that include each major
+const MAJOR_PROGRAMS: Record<string, string[]> = {
+  CS: ['CSC Major', 'SSE Undergraduate Majors'],
+  BA: ['BA Major', 'SBA Undergraduate Majors'],
+  IS: ['SHSS Undergraduate Majors']
+};
+
+// Program conditions name a major or a school's majors (e.g., "GE Major", "SBA Undergraduate Majors")
+const PROGRAM_PATTERN = /\bMajors?$/;
+
+const COURSE_CODE_PATTERN = /^([A-Z]{2,4})\s*-?\s*(\d{4})$/i;
+const STANDING_PATTERN = /^(FR|SO|JR|SR)\s+Classification$/i;
+
+// Compare course codes without spaces or hyphens (e.g., "MTH1304" and "MTH 1304")
+export const compactCourseCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+// Convert one scraped entry into a leaf; blank entries return null
+const parseLeaf = (entry: Prerequisite): PrerequisiteLeaf | null => {
+  const value = (entry?.value ?? '').trim();
+  if (!value) return null;
+
+  const courseMatch = value.match(COURSE_CODE_PATTERN);
+  if (courseMatch) {
+    return { type: 'course', code: `${courseMatch[1].toUpperCase()} ${courseMatch[2]}` };
+  }
+
+  const standingMatch = value.match(STANDING_PATTERN);
+  if (standingMatch) {
+    return { type: 'standing', standing: standingMatch[1].toUpperCase() as Standing };
+  }
+
+  // Test scores are scraped as courses (e.g., "TEF2", "TOEFL Scores - LC2"); "LC" is the Language Center placement
+  if (entry.type === 'course' || value === 'LC') {
+    return { type: 'placement', value };
+  }
+
+  return { type: 'non-course', value };
+};
+
+// Key identifying a leaf, used to remove duplicates
+const leafKey = (leaf: PrerequisiteLeaf): string => {
+  switch (leaf.type) {
+    case 'course': return `course:${compactCourseCode(leaf.code)}`;
+    case 'standing': return `standing:${leaf.standing}`;
+    default: return `${leaf.type}:${leaf.value}`;
+  }
+};
+
+// Combine leaves into an AND node (a single leaf stays as is)
+const allOf = (leaves: PrerequisiteLeaf[]): PrerequisiteExpression =>
+  leaves.length === 1 ? leaves[0] : { type: 'and', items: leaves };
+
+// Normalize the scraped prerequisite groups; returns null when the course has no prerequisites
+export function normalizePrerequisites(raw: Prerequisite[][] | undefined): PrerequisiteExpression | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  // Each group becomes a duplicate-free list of leaves
+  let groups = raw.map(group => {
+    const leaves = new Map<string, PrerequisiteLeaf>();
+    (Array.isArray(group) ? group : [group]).forEach(entry => {
+      const leaf = parseLeaf(entry);
+      if (leaf) leaves.set(leafKey(leaf), leaf);
+    });
+    return leaves;
+  });
+
+  // An empty group is an alternative without requirements, so the course is always available
+  if (groups.some(group => group.size === 0)) return null;
+
+  // Drop repeated groups and groups that contain every entry of another group
+  const isSubset = (a: Map<string, PrerequisiteLeaf>, b: Map<string, PrerequisiteLeaf>) =>
+    Array.from(a.keys()).every(key => b.has(key));
+  groups = groups.filter((group, i) =>
+    !groups.some((other, j) => j !== i && isSubset(other, group) && (other.size < group.size || j < i))
+  );
+
+  // Entries shared by every group are required whichever group is used
+  const sharedKeys = groups.length > 1
+    ? Array.from(groups[0].keys()).filter(key => groups.every(group => group.has(key)))
+    : [];
+  const shared = sharedKeys.map(key => groups[0].get(key)!);
+  const alternatives = groups.map(group =>
+    Array.from(group.entries()).filter(([key]) => !sharedKeys.includes(key)).map(([, leaf]) => leaf)
+  );
+
+  if (alternatives.length === 1) return allOf(alternatives[0]);
+
+  const choice: PrerequisiteExpression = { type: 'or', items: alternatives.map(allOf) };
+  return shared.length > 0 ? { type: 'and', items: [...shared, choice] } : choice;
+}
+
+// Normalized prerequisites of each scraped array, so catalog courses are normalized once
+const normalizedCache = new WeakMap<Prerequisite[][], PrerequisiteExpression | null>();
+
+// Return the prerequisite expression of a course (overrides first, then the scraped data)
+export function getCoursePrerequisites(course: Course): PrerequisiteExpression | null {
+  const override = PREREQUISITE_OVERRIDES[compactCourseCode(course.course_code)];
+  if (override !== undefined) return override;
+
+  const raw = course.prerequisites;
+  if (!Array.isArray(raw)) return null;
+  if (!normalizedCache.has(raw)) normalizedCache.set(raw, normalizePrerequisites(raw));
+  return normalizedCache.get(raw)!;
+}
+
+// Return the minimum grade of a course prerequisite for a major (null when any passing grade counts)
+export function getMinimumGrade(prerequisite: CoursePrerequisite, major: string | null): string | null {
+  if (prerequisite.minimumGrade) return prerequisite.minimumGrade;
+  const rules = major ? MINIMUM_PREREQUISITE_GRADES[major] : undefined;
+  if (!rules) return null;
+  const code = compactCourseCode(prerequisite.code);
+  return rules.courses[code] ?? rules.subjects[prerequisite.code.split(' ')[0]] ?? null;
+}
+
+// Check a course prerequisite's recorded grade against its minimum
+// Courses without a grade yet (planned or in progress) are assumed to reach it
+const getInsufficientGrade = (prerequisite: CoursePrerequisite, context: PrerequisiteContext): InsufficientGrade | null => {
+  const grade = context.courseGrades?.get(compactCourseCode(prerequisite.code));
+  const minimumGrade = context.getMinimumGrade ? context.getMinimumGrade(prerequisite) : prerequisite.minimumGrade ?? null;
+  if (!grade || !minimumGrade || meetsMinimumGrade(grade, minimumGrade)) return null;
+  return { code: prerequisite.code, grade, minimumGrade };
+};
+
+// List the completed prerequisites of an expression whose grades are below their minimum
+export function getInsufficientGrades(
+  expression: PrerequisiteExpression | null,
+  context: PrerequisiteContext
+): InsufficientGrade[] {
+  if (!expression) return [];
+  if (expression.type === 'and' || expression.type === 'or') {
+    return expression.items.flatMap(item => getInsufficientGrades(item, context));
+  }
+  if (expression.type !== 'course' || !context.completedCourses.has(compactCourseCode(expression.code))) return [];
+  const insufficient = getInsufficientGrade(expression, context);
+  return insufficient ? [insufficient] : [];
+}
+
+// Evaluate an expression for a student (no expression is always satisfied)
+export function evaluatePrerequisites(
+  expression: PrerequisiteExpression | null,
+  context: PrerequisiteContext
+): boolean {
+  if (!expression) return true;
+
+  switch (expression.type) {
+    case 'and': return expression.items.every(item => evaluatePrerequisites(item, context));
+    case 'or': return expression.items.some(item => evaluatePrerequisites(item, context));
+    case 'course':
+      return context.completedCourses.has(compactCourseCode(expression.code)) && !getInsufficientGrade(expression, context);
+    default: return context.isConditionMet ? context.isConditionMet(expression) : true;
+  }
+}
+
+// Check whether a course's prerequisites are satisfied (or waived by the instructor)
+export function arePrerequisitesSatisfied(course: Course, context: PrerequisiteContext): boolean {
+  if (context.instructorPermissions?.has(compactCourseCode(course.course_code))) return true;
+  return evaluatePrerequisites(getCoursePrerequisites(course), context);
+}
+
+// Classification given by a number of completed credits
+export const getStanding = (credits: number): Standing =>
+  [...STANDING_ORDER].reverse().find(standing => credits >= STANDING_MIN_CREDITS[standing]) ?? 'FR';
+
+// Describe the student at the start of a semester from the semesters before it
+export function getStudentConditions(earlierSemesters: SemesterPlan[], userInfo: UserInfo | null): StudentConditions {
+  const creditsCompleted = earlierSemesters.reduce((total, plan) => total + getCountedCredits(plan), 0);
+  return {
+    creditsCompleted,
+    standing: getStanding(creditsCompleted),
+    placements: userInfo?.placements ?? [],
+    major: userInfo?.major ?? null
+  };
+}
+
+// Decide a non-course condition and explain the outcome
+// Conditions the planner cannot check (e.g., "Tuition Regular") are assumed to be met
+export function explainCondition(condition: PrerequisiteCondition, student: StudentConditions): ConditionExplanation {
+  if (condition.type === 'standing') {
+    const needed = STANDING_MIN_CREDITS[condition.standing];
+    const met = STANDING_ORDER.indexOf(student.standing) >= STANDING_ORDER.indexOf(condition.standing);
+    return {
+      condition,
+      met,
+      reason: `${student.creditsCompleted} credits planned before this semester; ${STANDING_LABELS[condition.standing].toLowerCase()} standing starts at ${needed}`
+    };
+  }
+
+  if (condition.type === 'placement') {
+    const met = student.placements.includes(condition.value);
+    return {
+      condition,
+      met,
+      reason: met ? 'Listed in your placement results' : 'Not in your placement results (add it in your student information)'
+    };
+  }
+
+  if (PROGRAM_PATTERN.test(condition.value) && student.major) {
+    const met = (MAJOR_PROGRAMS[student.major] ?? []).includes(condition.value);
+    return { condition, met, reason: met ? 'Matches your major' : 'Only for students in this program' };
+  }
+
+  return { condition, met: true, reason: 'Cannot be checked by the planner; assumed to be met' };
+}
+
+// Build the evaluation context for a semester from the semesters before it and the student information
+export function createPrerequisiteContext(earlierSemesters: SemesterPlan[], userInfo: UserInfo | null): PrerequisiteContext {
+  const student = getStudentConditions(earlierSemesters, userInfo);
+  const counted = earlierSemesters.flatMap(plan => plan.courses
+    .filter(course => countsTowardPrerequisites(plan, course.course_code))
+    .map(course => ({ code: compactCourseCode(course.course_code), grade: getCourseRecord(plan, course.course_code).grade })));
+
+  // Later attempts come later in the plan, so the latest grade wins
+  const courseGrades = new Map<string, string>();
+  counted.forEach(({ code, grade }) => {
+    if (grade) courseGrades.set(code, grade);
+    else courseGrades.delete(code);
+  });
+
+  return {
+    completedCourses: new Set(counted.map(({ code }) => code)),
+    isConditionMet: condition => explainCondition(condition, student).met,
+    instructorPermissions: new Set((userInfo?.instructorPermissions ?? []).map(compactCourseCode)),
+    courseGrades,
+    getMinimumGrade: prerequisite => getMinimumGrade(prerequisite, userInfo?.major ?? null)
+  };
+}
+
+// List the non-course conditions an expression mentions (duplicates removed)
+export function getPrerequisiteConditions(expression: PrerequisiteExpression | null): PrerequisiteCondition[] {
+  if (!expression || expression.type === 'course') return [];
+  if (expression.type === 'and' || expression.type === 'or') {
+    const conditions = new Map<string, PrerequisiteCondition>();
+    expression.items.flatMap(getPrerequisiteConditions).forEach(condition => conditions.set(leafKey(condition), condition));
+    return Array.from(conditions.values());
+  }
+  return [expression];
+}
+
+// Split an expression into the groups that must all be satisfied (the items of a top-level AND)
+export function getRequiredGroups(expression: PrerequisiteExpression | null): PrerequisiteExpression[] {
+  if (!expression) return [];
+  return expression.type === 'and' ? expression.items : [expression];
+}
+
+// List the codes of every course an expression mentions (e.g., ["CSC 2306", "CSC 2303"])
+export function getPrerequisiteCourseCodes(expression: PrerequisiteExpression | null): string[] {
+  if (!expression) return [];
+  if (expression.type === 'course') return [expression.code];
+  if (expression.type === 'and' || expression.type === 'or') {
+    return Array.from(new Set(expression.items.flatMap(getPrerequisiteCourseCodes)));
+  }
+  return [];
+}
+
+// Expand an expression into its alternatives: each is a list of leaves that together satisfy it
+export function getPrerequisiteAlternatives(expression: PrerequisiteExpression | null): PrerequisiteLeaf[][] {
+  if (!expression) return [[]];
+
+  switch (expression.type) {
+    case 'or':
+      return expression.items.flatMap(getPrerequisiteAlternatives);
+    case 'and':
+      return expression.items.reduce<PrerequisiteLeaf[][]>(
+        (combined, item) => combined.flatMap(partial =>
+          getPrerequisiteAlternatives(item).map(alternative => [...partial, ...alternative])
+        ),
+        [[]]
+      );
+    default:
+      return [[expression]];
+  }
+}
+
+// Describe a leaf for display (e.g., "CSC 1401", "Junior standing", "Placement: TEF2")
+export function formatPrerequisite(leaf: PrerequisiteLeaf): string {
+  switch (leaf.type) {
+    case 'course': return leaf.minimumGrade ? `${leaf.code} (${leaf.minimumGrade} or better)` : leaf.code;
+    case 'standing': return `${STANDING_LABELS[leaf.standing]} standing`;
+    case 'placement': return leaf.value === 'LC' ? 'Language Center placement' : `Placement: ${leaf.value}`;
+    default: return leaf.value;
+  }
+}
+
+// Describe an expression on one line (e.g., "CSC 2306 and (Junior standing or Senior standing)")
+export function describePrerequisites(expression: PrerequisiteExpression | null): string {
+  if (!expression) return 'None';
+  if (expression.type !== 'and' && expression.type !== 'or') return formatPrerequisite(expression);
+
+  return expression.items
+    .map(item => {
+      const text = describePrerequisites(item);
+      return (item.type === 'and' || item.type === 'or') && item.type !== expression.type ? `(${text})` : text;
+    })
+    .join(expression.type === 'and' ? ' and ' : ' or ');
+}
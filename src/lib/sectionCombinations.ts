@@ -0,0 +1,194 @@
+/**
+ * Section Combination Generator
+ *
+ * This file finds every way to pick one section per planned course without time
+ * overlaps, and ranks the results by the student's preferences:
+ * - No classes before a chosen time
+ * - Free Fridays
+ * - Preferred instructors
+ * - Compact days (few days on campus, short gaps between classes)
+ *
+ * Courses with labs or recitations are offered as compatible lecture+lab pairs, so every
+ * combination attends one lecture and one paired lab for such courses.
+ *
+ * Courses are explored from the fewest options to the most so conflicts prune the
+ * search early. The search stops after MAX_COMBINATIONS valid combinations to keep
+ * the page responsive for semesters with many large courses.
+ */
+
+import type { Course } from './store';
+import { MeetingBlock, parseSchedule } from './sectionSchedule';
+import { getLectureSections, getLinkedSections, requiresLinkedSection } from './sectionPairing';
+
+// Upper bound on the number of valid combinations collected before ranking
+const MAX_COMBINATIONS = 20000;
+
+// Preferences used to rank combinations
+export interface SchedulePreferences {
+  noClassesBefore: number | null; // Minutes after midnight (e.g., 540 for 9:00 AM), null to ignore
+  freeFridays: boolean;
+  preferredInstructors: string[]; // Instructor names (partial, case-insensitive)
+  compactDays: boolean;
+}
+
+// A ranked, conflict-free choice of sections
+export interface SectionCombination {
+  selections: Record<string, number>; // Lecture section index per course code
+  linkedSelections: Record<string, number>; // Lab/recitation section index per course code
+  score: number;                      // Higher is better
+  daysOnCampus: number;               // Distinct days with at least one meeting
+  earliestStart: number | null;       // Earliest meeting start (minutes after midnight)
+}
+
+// Result of a combination search
+export interface CombinationResult {
+  combinations: SectionCombination[]; // Best combinations first
+  totalFound: number;                 // Valid combinations found before ranking
+  truncated: boolean;                 // The search stopped at MAX_COMBINATIONS
+  unsectioned: string[];              // Courses without any listed section
+}
+
+export const DEFAULT_SCHEDULE_PREFERENCES: SchedulePreferences = {
+  noClassesBefore: null,
+  freeFridays: false,
+  preferredInstructors: [],
+  compactDays: false
+};
+
+// A lecture (and paired lab/recitation) option of a course with its parsed meetings
+interface SectionOption {
+  sectionIndex: number;
+  linkedIndex: number | null;
+  instructor: string;
+  meetings: MeetingBlock[];
+}
+
+// Check whether two sets of meetings overlap in time
+const overlaps = (a: MeetingBlock[], b: MeetingBlock[]) =>
+  a.some(x => b.some(y => x.day === y.day && Math.max(x.start, y.start) < Math.min(x.end, y.end)));
+
+// List the ways to attend a course: each lecture, paired with each compatible lab/recitation
+// Pairs whose lecture and lab overlap are left out
+const getSectionOptions = (course: Course): SectionOption[] =>
+  getLectureSections(course).flatMap((lecture): SectionOption[] => {
+    const lectureMeetings = parseSchedule(lecture.schedule).meetings;
+    const base = { sectionIndex: lecture.index, instructor: lecture.instructor || '' };
+
+    if (!requiresLinkedSection(course)) {
+      return [{ ...base, linkedIndex: null, meetings: lectureMeetings }];
+    }
+
+    return getLinkedSections(course, lecture.index)
+      .map(linked => ({ ...base, linkedIndex: linked.index, meetings: [...lectureMeetings, ...parseSchedule(linked.schedule).meetings] }))
+      .filter(option => !overlaps(lectureMeetings, option.meetings.slice(lectureMeetings.length)));
+  });
+
+// Score a combination against the preferences
+const scoreCombination = (options: SectionOption[], preferences: SchedulePreferences) => {
+  const meetings = options.flatMap(option => option.meetings);
+  const days = Array.from(new Set(meetings.map(m => m.day)));
+  let score = 0;
+
+  // Each meeting that starts too early costs points
+  if (preferences.noClassesBefore !== null) {
+    score -= 10 * meetings.filter(m => m.start < preferences.noClassesBefore!).length;
+  }
+
+  // Each Friday meeting costs points
+  if (preferences.freeFridays) {
+    score -= 15 * meetings.filter(m => m.day === 'F').length;
+  }
+
+  // Each section taught by a preferred instructor earns points
+  const preferred = preferences.preferredInstructors.map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (preferred.length > 0) {
+    score += 10 * options.filter(option =>
+      preferred.some(name => option.instructor.toLowerCase().includes(name))
+    ).length;
+  }
+
+  // Fewer days on campus and shorter gaps between classes earn points
+  if (preferences.compactDays) {
+    score -= 5 * days.length;
+    days.forEach(day => {
+      const dayMeetings = meetings.filter(m => m.day === day).sort((a, b) => a.start - b.start);
+      for (let i = 1; i < dayMeetings.length; i++) {
+        const gap = dayMeetings[i].start - dayMeetings[i - 1].end;
+        if (gap > 0) score -= gap / 30;
+      }
+    });
+  }
+
+  return {
+    score: Math.round(score * 10) / 10,
+    daysOnCampus: days.length,
+    earliestStart: meetings.length > 0 ? Math.min(...meetings.map(m => m.start)) : null
+  };
+};
+
+// Find and rank every conflict-free combination of sections for the given courses
+export function generateSectionCombinations(
+  courses: Course[],
+  preferences: SchedulePreferences,
+  limit = 5
+): CombinationResult {
+  const unsectioned = courses
+    .filter(course => !course.sections || course.sections.length === 0)
+    .map(course => course.course_code);
+
+  // Section options per course, fewest options first
+  const candidates = courses
+    .filter(course => course.sections && course.sections.length > 0)
+    .map(course => ({
+      courseCode: course.course_code,
+      options: getSectionOptions(course)
+    }))
+    .sort((a, b) => a.options.length - b.options.length);
+
+  const found: SectionCombination[] = [];
+  const chosen: SectionOption[] = [];
+  let truncated = false;
+
+  // Depth-first search, skipping any section that overlaps one already chosen
+  const search = (depth: number) => {
+    if (found.length >= MAX_COMBINATIONS) {
+      truncated = true;
+      return;
+    }
+
+    if (depth === candidates.length) {
+      const selections: Record<string, number> = {};
+      const linkedSelections: Record<string, number> = {};
+      candidates.forEach((candidate, i) => {
+        selections[candidate.courseCode] = chosen[i].sectionIndex;
+        if (chosen[i].linkedIndex !== null) linkedSelections[candidate.courseCode] = chosen[i].linkedIndex!;
+      });
+      found.push({ selections, linkedSelections, ...scoreCombination(chosen, preferences) });
+      return;
+    }
+
+    for (const option of candidates[depth].options) {
+      if (chosen.some(other => overlaps(other.meetings, option.meetings))) continue;
+      chosen.push(option);
+      search(depth + 1);
+      chosen.pop();
+      if (truncated) return;
+    }
+  };
+
+  if (candidates.length > 0) search(0);
+
+  // Best score first; ties go to fewer days on campus, then a later first class
+  found.sort((a, b) =>
+    b.score - a.score ||
+    a.daysOnCampus - b.daysOnCampus ||
+    (b.earliestStart ?? 0) - (a.earliestStart ?? 0)
+  );
+
+  return {
+    combinations: found.slice(0, limit),
+    totalFound: found.length,
+    truncated,
+    unsectioned
+  };
+}
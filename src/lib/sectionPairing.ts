@@ -0,0 +1,104 @@
+/**
+ * Section Kinds and Lecture/Lab Pairing
+ *
+ * The catalog lists lab and recitation meetings as extra sections without an
+ * instructor, interleaved with the lectures they belong to (e.g., CSC 1401 lists a
+ * "MWF 9:00 AM-9:50 AM" lecture followed by its "M 1:40 PM-3:30 PM" lab). This file:
+ * - Classifies each section of a course as a lecture, lab or recitation
+ * - Infers which lecture each lab/recitation is paired with
+ * - Lists the lab/recitation sections that can be taken with a chosen lecture
+ *
+ * The catalog loader annotates sections once; plans saved before the annotation
+ * existed are classified on the fly.
+ */
+
+import type { Course, CourseSection } from './store';
+import { parseSchedule } from './sectionSchedule';
+
+// Kind of meeting a section represents
+export type SectionKind = 'lecture' | 'lab' | 'recitation';
+
+// A section with its kind and pairing resolved
+export interface ClassifiedSection extends CourseSection {
+  index: number;                 // Index into course.sections
+  kind: SectionKind;
+  lectureIndex: number | null;   // Paired lecture (null for lectures)
+}
+
+// Instructor-less meetings on a single day at least this long are labs (minutes)
+const MIN_LAB_MINUTES = 100;
+
+// Display names for each kind
+export const SECTION_KIND_LABELS: Record<SectionKind, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  recitation: 'Recitation'
+};
+
+// Guess the kind of a section from its instructor and meeting pattern
+// Instructor-less sections meeting on one day are labs (long) or recitations (short);
+// other instructor-less sections are lectures whose instructor is not announced yet
+const guessSectionKind = (section: CourseSection): SectionKind => {
+  if (section.instructor?.trim()) return 'lecture';
+
+  const { meetings } = parseSchedule(section.schedule);
+  const days = new Set(meetings.map(m => m.day));
+  if (days.size !== 1) return 'lecture';
+
+  const longest = Math.max(...meetings.map(m => m.end - m.start));
+  return longest >= MIN_LAB_MINUTES ? 'lab' : 'recitation';
+};
+
+// Classify every section of a course and pair labs/recitations with a lecture
+// Each lab/recitation belongs to the nearest lecture listed before it; ones listed
+// before the first lecture belong to the first lecture
+export function classifySections(sections: CourseSection[]): ClassifiedSection[] {
+  const kinds = sections.map(section => section.kind ?? guessSectionKind(section));
+
+  // A course without any lecture keeps every section as a lecture
+  if (!kinds.includes('lecture')) {
+    return sections.map((section, index) => ({ ...section, index, kind: 'lecture', lectureIndex: null }));
+  }
+
+  const firstLecture = kinds.indexOf('lecture');
+  let currentLecture = firstLecture;
+
+  return sections.map((section, index) => {
+    if (kinds[index] === 'lecture') {
+      currentLecture = index;
+      return { ...section, index, kind: 'lecture', lectureIndex: null };
+    }
+    return {
+      ...section,
+      index,
+      kind: kinds[index],
+      lectureIndex: section.lectureIndex ?? (index < firstLecture ? firstLecture : currentLecture)
+    };
+  });
+}
+
+// Annotate every catalog course with section kinds and pairings
+export function annotateCatalogSections(courses: Course[]): Course[] {
+  return courses.map(course => ({
+    ...course,
+    sections: classifySections(course.sections || []).map(({ index, ...section }) => section)
+  }));
+}
+
+// Return the lecture sections of a course
+export function getLectureSections(course: Course): ClassifiedSection[] {
+  return classifySections(course.sections || []).filter(section => section.kind === 'lecture');
+}
+
+// Return the lab/recitation sections that can be taken with the given lecture
+// A lecture without any paired section may be combined with any lab/recitation of the course
+export function getLinkedSections(course: Course, lectureIndex: number): ClassifiedSection[] {
+  const linked = classifySections(course.sections || []).filter(section => section.kind !== 'lecture');
+  const paired = linked.filter(section => section.lectureIndex === lectureIndex);
+  return paired.length > 0 ? paired : linked;
+}
+
+// Check whether a course needs a lab/recitation in addition to a lecture
+export function requiresLinkedSection(course: Course): boolean {
+  return classifySections(course.sections || []).some(section => section.kind !== 'lecture');
+}
@@ -0,0 +1,131 @@
+/**
+ * Section Schedule Parsing
+ *
+ * This file turns the schedule strings of catalog sections into weekly time blocks.
+ * It provides:
+ * - A parser for schedule strings (e.g., "MWF 9:00 AM-9:50 AM; AUI CAMPUS")
+ * - Detection of time conflicts between the sections a student has chosen
+ * - Formatting helpers for the weekly calendar
+ *
+ * A schedule string holds one meeting pattern per line. Lines may lack a location
+ * ("TR 12:30 PM-1:50 PM;"), a time ("TR; AUI CAMPUS") or be empty; meetings without
+ * both days and times are reported as unscheduled instead of being placed on the calendar.
+ */
+
+// Days as written in schedule strings (R is Thursday, S Saturday, U Sunday)
+export type Weekday = 'M' | 'T' | 'W' | 'R' | 'F' | 'S' | 'U';
+
+// Days in calendar order, with their display names
+export const WEEKDAYS: { day: Weekday; name: string }[] = [
+  { day: 'M', name: 'Monday' },
+  { day: 'T', name: 'Tuesday' },
+  { day: 'W', name: 'Wednesday' },
+  { day: 'R', name: 'Thursday' },
+  { day: 'F', name: 'Friday' },
+  { day: 'S', name: 'Saturday' },
+  { day: 'U', name: 'Sunday' }
+];
+
+// One meeting of a section on a given day
+export interface MeetingBlock {
+  day: Weekday;
+  start: number;                 // Minutes after midnight
+  end: number;                   // Minutes after midnight
+  location: string | null;       // Location text (null when the schedule has none)
+}
+
+// Parsed form of a schedule string
+export interface ParsedSchedule {
+  meetings: MeetingBlock[];
+  unscheduled: boolean;          // Some meeting has no day or time (to be announced)
+}
+
+// A chosen section, ready to be checked for conflicts
+export interface ScheduledSection {
+  courseCode: string;
+  sectionIndex: number;
+  meetings: MeetingBlock[];
+}
+
+// Two chosen sections that meet at the same time
+export interface ScheduleConflict {
+  courseA: string;
+  courseB: string;
+  day: Weekday;
+  start: number;                 // Start of the overlap (minutes after midnight)
+  end: number;                   // End of the overlap (minutes after midnight)
+}
+
+// Matches "MWF 9:00 AM-9:50 AM" (days optional so time-only lines are recognized)
+const MEETING_PATTERN = /^([MTWRFSU]*)\s*(\d{1,2}):(\d{2})\s*(AM|PM)\s*-\s*(\d{1,2}):(\d{2})\s*(AM|PM)$/i;
+
+// Convert a 12-hour clock time to minutes after midnight
+const toMinutes = (hours: string, minutes: string, period: string): number => {
+  const hour = parseInt(hours) % 12 + (period.toUpperCase() === 'PM' ? 12 : 0);
+  return hour * 60 + parseInt(minutes);
+};
+
+// Parse a section's schedule string into meeting blocks
+export function parseSchedule(schedule: string): ParsedSchedule {
+  const meetings: MeetingBlock[] = [];
+  let unscheduled = false;
+
+  (schedule || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .forEach(line => {
+      // Split "<days> <time>; <location>" at the first semicolon
+      const separator = line.indexOf(';');
+      const timePart = (separator === -1 ? line : line.slice(0, separator)).trim();
+      const location = separator === -1 ? null : line.slice(separator + 1).trim() || null;
+
+      const match = timePart.match(MEETING_PATTERN);
+      // Days without times ("TR;"), times without days, or a location only
+      if (!match || !match[1]) {
+        unscheduled = true;
+        return;
+      }
+
+      const [, days, startHour, startMinute, startPeriod, endHour, endMinute, endPeriod] = match;
+      const start = toMinutes(startHour, startMinute, startPeriod);
+      const end = toMinutes(endHour, endMinute, endPeriod);
+
+      Array.from(new Set(days.toUpperCase().split(''))).forEach(day => {
+        meetings.push({ day: day as Weekday, start, end, location });
+      });
+    });
+
+  // An empty schedule means the meetings have not been announced yet
+  return { meetings, unscheduled: unscheduled || meetings.length === 0 };
+}
+
+// Find every pair of chosen sections that meet at overlapping times
+export function findScheduleConflicts(sections: ScheduledSection[]): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+
+  for (let i = 0; i < sections.length; i++) {
+    for (let j = i + 1; j < sections.length; j++) {
+      sections[i].meetings.forEach(a => {
+        sections[j].meetings.forEach(b => {
+          if (a.day !== b.day) return;
+          const start = Math.max(a.start, b.start);
+          const end = Math.min(a.end, b.end);
+          if (start < end) {
+            conflicts.push({ courseA: sections[i].courseCode, courseB: sections[j].courseCode, day: a.day, start, end });
+          }
+        });
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Format minutes after midnight as a 12-hour time (e.g., 570 -> "9:30 AM")
+export function formatMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const period = hour >= 12 ? 'PM' : 'AM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:${minute.toString().padStart(2, '0')} ${period}`;
+}
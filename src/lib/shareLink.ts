@@ -0,0 +1,197 @@
+/**
+ * Shareable Plan Links
+ *
+ * This file packs a student's plan into a URL so it can be sent to an advisor or a
+ * friend without exchanging files. It provides:
+ * - A compact payload holding the user information and the courses of each semester
+ * - Compression (raw deflate) and URL-safe base64 encoding of that payload
+ * - Decoding and validation of a link's payload
+ * - Resolution of the course codes against the current catalog
+ *
+ * The plan travels in the URL fragment (after "#"), which browsers never send to the
+ * server. Only course codes and their status and grade are stored, so section choices
+ * are not part of a link and course details always come from the catalog of whoever opens it.
+ */
+
+import type { Course, ImportedSemester, SemesterPlan, UserInfo } from './store';
+import { COURSE_STATUSES, CourseRecord, CourseStatus, getCourseRecord, normalizeCourseRecord } from './courseStatus';
+
+// Version of the payload layout (bump it when the layout changes)
+// Version 1 links carry no placements, permissions or course records and can still be opened
+const SHARE_LINK_VERSION = 2;
+const LEGACY_SHARE_LINK_VERSION = 1;
+
+// Route of the read-only viewer and the fragment parameter holding the plan
+export const SHARE_ROUTE = '/share';
+const FRAGMENT_KEY = 'plan';
+
+// Compact payload: [version, user info fields, [semester name, ...course entries][]]
+// A course entry is its code, followed by its status and grade when it is not planned
+// (e.g., "CSC1401", "MTH1303:failed:F", "CSC2306:completed:B+")
+type UserInfoFields = [string, string, string, string, number, string, number, number, string[]?, string[]?];
+type SharedPayload = [number, UserInfoFields, string[][]];
+
+// Types of the user information fields (version 1 links stop after the first eight)
+const FIELD_TYPES = ['string', 'string', 'string', 'string', 'number', 'string', 'number', 'number', 'array', 'array'];
+const LEGACY_FIELD_COUNT = 8;
+
+// A shared plan resolved against the catalog
+export interface SharedPlan {
+  userInfo: UserInfo;
+  semesters: ImportedSemester[]; // Only semesters with courses, in timeline order
+  missingCodes: string[];        // Course codes the catalog does not know (e.g., "CSC 9999")
+}
+
+// Course codes are stored without spaces ("CSC1401")
+const compactCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+// Run bytes through a compression or decompression stream
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// Encode bytes as URL-safe base64 without padding
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Check one user information field against its expected type (arrays hold strings)
+const hasFieldType = (field: unknown, type: string) =>
+  type === 'array'
+    ? Array.isArray(field) && field.every(entry => typeof entry === 'string')
+    : typeof field === type;
+
+// Check that decoded JSON has the payload layout of the current or the legacy version
+const isSharedPayload = (value: unknown): value is SharedPayload => {
+  if (!Array.isArray(value) || value.length !== 3) return false;
+
+  const [version, fields, semesters] = value;
+  const fieldCount = version === SHARE_LINK_VERSION
+    ? FIELD_TYPES.length
+    : version === LEGACY_SHARE_LINK_VERSION ? LEGACY_FIELD_COUNT : -1;
+  return Array.isArray(fields) &&
+    fields.length === fieldCount &&
+    fields.every((field, i) => hasFieldType(field, FIELD_TYPES[i])) &&
+    Array.isArray(semesters) &&
+    semesters.every(semester =>
+      Array.isArray(semester) && semester.length > 0 && semester.every(entry => typeof entry === 'string')
+    );
+};
+
+// Statuses a course entry may carry
+const STATUS_VALUES = COURSE_STATUSES.map(status => status.value);
+
+// Write a course as a payload entry, with its status and grade when it is not planned
+const encodeCourseEntry = (code: string, record: CourseRecord) => {
+  if (record.status === 'planned') return compactCode(code);
+  return [compactCode(code), record.status, ...(record.grade ? [record.grade] : [])].join(':');
+};
+
+// Read a payload entry back into a course code and record (unknown statuses count as planned)
+const decodeCourseEntry = (entry: string): { code: string; record: CourseRecord } => {
+  const [code, status, grade] = entry.split(':');
+  const record: CourseRecord = STATUS_VALUES.includes(status as CourseStatus)
+    ? normalizeCourseRecord({ status: status as CourseStatus, grade })
+    : { status: 'planned' };
+  return { code, record };
+};
+
+// Encode the user information and the courses of each semester for a link
+export async function encodeSharedPlan(userInfo: UserInfo, semesterPlans: SemesterPlan[]): Promise<string> {
+  const payload: SharedPayload = [
+    SHARE_LINK_VERSION,
+    [
+      userInfo.name,
+      userInfo.studentId,
+      userInfo.major,
+      userInfo.startSemester,
+      userInfo.startYear,
+      userInfo.endSemester,
+      userInfo.endYear,
+      userInfo.totalCreditsToGraduate,
+      userInfo.placements ?? [],
+      userInfo.instructorPermissions ?? []
+    ],
+    semesterPlans
+      .filter(plan => plan.courses.length > 0)
+      .map(plan => [
+        plan.semester,
+        ...plan.courses.map(course => encodeCourseEntry(course.course_code, getCourseRecord(plan, course.course_code)))
+      ])
+  ];
+
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+}
+
+// Build the full viewer URL for an encoded plan
+export function buildShareUrl(origin: string, encoded: string): string {
+  return `${origin}${SHARE_ROUTE}#${FRAGMENT_KEY}=${encoded}`;
+}
+
+// Read the encoded plan from a URL fragment (e.g., "#plan=..."); returns null when absent
+export function getEncodedPlanFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(FRAGMENT_KEY) || null;
+}
+
+// Decode a link's plan and resolve its course codes against the catalog
+// Throws an Error when the link is damaged or was made by an incompatible version
+export async function decodeSharedPlan(encoded: string, courseData: Course[]): Promise<SharedPlan> {
+  let payload: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This plan link is incomplete or damaged. Ask for the link to be sent again.');
+  }
+
+  if (!isSharedPayload(payload)) {
+    throw new Error('This plan link was made by a different version of AUI Track and cannot be opened.');
+  }
+
+  const [, fields, semesterEntries] = payload;
+  const [
+    name, studentId, major, startSemester, startYear, endSemester, endYear, totalCreditsToGraduate,
+    placements, instructorPermissions
+  ] = fields;
+  const catalog = new Map(courseData.map(course => [compactCode(course.course_code), course]));
+  const missingCodes: string[] = [];
+
+  const semesters = semesterEntries.map(([semesterName, ...entries]) => {
+    const courses: Course[] = [];
+    const courseRecords: Record<string, CourseRecord> = {};
+
+    entries.map(decodeCourseEntry).forEach(({ code, record }) => {
+      const course = catalog.get(code);
+      if (!course) {
+        missingCodes.push(code.replace(/^([A-Z]+)(\d)/, '$1 $2'));
+        return;
+      }
+      courses.push(course);
+      if (record.status !== 'planned') courseRecords[course.course_code] = record;
+    });
+
+    return { name: semesterName, courses, courseRecords };
+  });
+
+  return {
+    userInfo: {
+      name, studentId, major, startSemester, startYear, endSemester, endYear, totalCreditsToGraduate,
+      // Version 1 links did not carry these, so they are left out rather than emptied
+      ...(placements ? { placements } : {}),
+      ...(instructorPermissions ? { instructorPermissions } : {})
+    },
+    semesters,
+    missingCodes
+  };
+}
@@ -7,30 +7,72 @@
  * - The main store with initial state and actions for manipulating the state
  * - Logic for adding/removing courses with prerequisite validation
  * - Functions for managing semester plans and user information
+ * - Course statuses and grades, and locks that keep past semesters from accidental edits
+ * - Retakes of failed courses and a "what if I fail this course" simulation with a repaired plan
  * - Utilities for calculating credits and checking graduation requirements
+ * - Versioned persistence of the plan and user information in localStorage
  *
  * The store serves as the central data management system for the entire application,
  * ensuring consistent state across all components and pages.
  */
 
 import { create } from 'zustand';
-
-// Define the Prerequisite type which represents a course prerequisite
-// A prerequisite can have a type (e.g., "course") and a value (e.g., "MTH 1303")
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { PLAN_SCHEMA_VERSION, PLAN_STORAGE_KEY, migratePlanState } from './planMigrations';
+import { annotateCatalogSections, classifySections, getLinkedSections, SectionKind } from './sectionPairing';
+import {
+  canRetake,
+  countsTowardPrerequisites,
+  CourseRecord,
+  getCountedCredits,
+  getCourseRecord,
+  isSemesterLocked,
+  normalizeCourseRecord
+} from './courseStatus';
+import {
+  arePrerequisitesSatisfied,
+  createPrerequisiteContext,
+  describePrerequisites,
+  evaluatePrerequisites,
+  explainCondition,
+  formatPrerequisite,
+  getCoursePrerequisites,
+  getInsufficientGrades,
+  getMinimumGrade,
+  getPrerequisiteAlternatives,
+  getPrerequisiteCourseCodes,
+  getRequiredGroups,
+  getStudentConditions,
+  PrerequisiteLeaf,
+  STANDING_MIN_CREDITS
+} from './prerequisites';
+
+// Define the Prerequisite type which represents one scraped prerequisite entry
+// A prerequisite can have a type (e.g., "course") and a value (e.g., "MTH1303");
+// lib/prerequisites.ts normalizes these entries into an AND/OR expression
 interface Prerequisite {
   type: string;
   value: string;
 }
 
+// Define the CourseSection type which represents one section listed for a course
+// Lab and recitation sections are paired with a lecture section of the same course
+interface CourseSection {
+  instructor: string;         // Instructor name (empty for labs and unannounced lectures)
+  schedule: string;           // Meeting days, times and location (e.g., "MWF 9:00 AM-9:50 AM; AUI CAMPUS")
+  kind?: SectionKind;         // Lecture, lab or recitation (set when the catalog is loaded)
+  lectureIndex?: number | null; // Index of the paired lecture section (labs and recitations only)
+}
+
 // Define the Course type which represents a course in the curriculum
 // Each course has a code, name, credits, prerequisites, corequisites, and sections
 interface Course {
   course_code: string;        // Unique identifier for the course (e.g., "CSC 1401")
   course_name: string;        // Full name of the course (e.g., "Introduction to Programming")
   credits: string;            // Number of credit hours as a string (e.g., "3")
-  prerequisites: Prerequisite[][]; // Nested array for complex prerequisite logic (AND/OR conditions)
+  prerequisites: Prerequisite[][]; // Scraped prerequisite groups (any one group, with all of its entries)
   corequisites: string[];     // Array of course codes that must be taken concurrently
-  sections: { instructor: string; schedule: string; }[]; // Available sections with instructor and schedule info
+  sections: CourseSection[];  // Available sections with instructor and schedule info
 }
 
 // Define the SemesterPlan type which represents a semester in the degree plan
@@ -40,6 +82,11 @@ interface SemesterPlan {
   type: 'regular' | 'summer'; // Type of semester (regular or summer) which affects credit limits
   courses: Course[];          // Array of courses planned for this semester
   credits: number;            // Total credits for this semester (sum of all course credits)
+  selectedSections?: Record<string, number>; // Chosen lecture section (index into course.sections) per course code
+  selectedLinkedSections?: Record<string, number>; // Chosen lab/recitation section paired with the lecture per course code
+  pinnedCourses?: string[];   // Courses the student fixed to this semester (the optimizer leaves them in place)
+  courseRecords?: Record<string, CourseRecord>; // Status and grade per course code (courses without one are planned)
+  locked?: boolean;           // Whether the courses are locked against edits (unset: locked once the semester has ended)
 }
 
 // Define the UserInfo type which represents student information
@@ -53,6 +100,86 @@ interface UserInfo {
   endSemester: string;        // Expected graduation semester
   endYear: number;            // Expected graduation year
   totalCreditsToGraduate: number; // Total credits required for graduation based on major
+  placements?: string[];      // Placement results that satisfy prerequisites (e.g., ["LC", "TEF2"])
+  instructorPermissions?: string[]; // Courses whose prerequisites an instructor waived (e.g., ["CSC 3326"])
+}
+
+// Define the NamedPlan type which represents one of the student's alternative plans
+// (e.g., "AI track with summers" vs "Software track, no summers")
+interface NamedPlan {
+  id: string;                 // Unique identifier for the plan
+  name: string;               // Name chosen by the student
+  semesterPlans: SemesterPlan[]; // Semesters of this plan (the active plan's copy is refreshed on switch)
+  notes?: string;             // Free-form notes kept with the plan (carried through plan files)
+}
+
+// Define the PlanSnapshot type which captures everything an undoable change can affect
+interface PlanSnapshot {
+  semesterPlans: SemesterPlan[]; // Semester plans of the active plan
+  userInfo: UserInfo | null;  // User information
+  plans: NamedPlan[];         // All named plans
+  activePlanId: string;       // Identifier of the plan being edited
+}
+
+// Define the HistoryEntry type which represents one undoable change to the plan
+// It stores the state as it was before the change, along with a readable description
+interface HistoryEntry extends PlanSnapshot {
+  label: string;              // Description of the change (e.g., "Added CSC 3326 to Fall 2025")
+  timestamp: number;          // When the change was made (milliseconds since epoch)
+}
+
+// Define the ImportedSemester type which represents a semester read from an exported plan
+interface ImportedSemester {
+  name: string;               // Semester name (e.g., "Fall 2024")
+  courses: Course[];          // Courses listed for this semester
+  courseRecords?: Record<string, CourseRecord>; // Status and grade per course code (courses without one are planned)
+}
+
+// Define the PrerequisiteStep type which is one missing piece of a way to satisfy a prerequisite group
+interface PrerequisiteStep {
+  label: string;              // Missing course or condition (e.g., "CSC 2306", "Junior standing")
+  semester: string | null;    // Earliest semester where it can be placed or reached (null when it cannot be planned)
+  note: string;               // Why it is missing or how to get it (e.g., "Planned in Fall 2026, too late")
+}
+
+// Define the PrerequisiteOption type which is one way (an OR alternative) to satisfy a group
+interface PrerequisiteOption {
+  description: string;        // All leaves of the alternative (e.g., "CSC 2302 and CSC 1401")
+  missing: PrerequisiteStep[]; // Leaves that are not satisfied yet
+  availableFrom: string | null; // Earliest semester the course could be taken through this option (null when none)
+}
+
+// Define the UnmetPrerequisiteGroup type which is a required (AND) group that is not satisfied
+interface UnmetPrerequisiteGroup {
+  description: string;        // The group as a whole (e.g., "CSC 2306 or CSC 2303")
+  options: PrerequisiteOption[]; // Alternatives that would satisfy it
+}
+
+// Define the PrerequisiteExplanation type which answers "why can't I take this course here?"
+interface PrerequisiteExplanation {
+  courseCode: string;         // Course that was rejected (e.g., "CSC 3326")
+  semester: string;           // Semester it was checked against
+  message: string;            // Short message shown with the explanation
+  groups: UnmetPrerequisiteGroup[]; // Required groups that are not satisfied
+}
+
+// Define the FailureMove type which is one invalidated course and where the repaired plan puts it
+interface FailureMove {
+  courseCode: string;         // Course that lost its prerequisites (e.g., "PHY 1401")
+  from: string;               // Semester it was planned in
+  to: string | null;          // Semester it moves to (null when no semester fits)
+}
+
+// Define the FailureSimulation type which shows what failing a course would invalidate and how to repair the plan
+interface FailureSimulation {
+  courseCode: string;         // Course assumed to be failed (e.g., "MTH 1303")
+  semester: string;           // Semester of the failed attempt
+  invalidated: { semester: string; courseCode: string }[]; // Planned courses that lose their prerequisites or corequisites, directly or down the chain
+  retakeSemester: string | null; // Where the repaired plan retakes the course (null when no semester fits)
+  moves: FailureMove[];       // Invalidated courses in unlocked semesters, moved to where they fit again
+  repairedPlans: SemesterPlan[]; // Semester plans with the failure, the retake and the moves applied
+  lastSemesterBefore: string | null; // Last semester with courses in the current plan
+  lastSemesterAfter: string | null; // Last semester with courses in the repaired plan
 }
 
 // Define the DegreePlanState interface which represents the complete application state
@@ -60,7 +187,13 @@ interface DegreePlanState {
   courseData: Course[] | null;  // Complete catalog of available courses (null when not loaded)
   semesterPlans: SemesterPlan[]; // Array of semester plans with their courses
   error: string | null;         // Error message for validation failures (null when no errors)
+  errorExplanation: PrerequisiteExplanation | null; // Details when the error is about unmet prerequisites
   userInfo: UserInfo | null;    // Student information (null when not set)
+  plans: NamedPlan[];           // All of the student's named plans
+  activePlanId: string;         // Identifier of the plan whose semesters are in semesterPlans
+  lastSavedAt: number | null;   // When the plan or user info was last saved (null when never saved)
+  past: HistoryEntry[];         // Changes that can be undone (oldest first)
+  future: HistoryEntry[];       // Changes that can be redone (most recently undone last)
 
   // Action to set the course catalog data
   setCourseData: (data: Course[]) => void;
@@ -68,14 +201,80 @@ interface DegreePlanState {
   // Action to reset the plan (initialize empty semesters)
   resetPlan: () => void;
 
+  // Action to save edited user information, fitting every named plan to a changed timeline in the same step
+  updateUserInfo: (info: UserInfo) => void;
+
   // Action to add a course to a specific semester
   addCourse: (semester: string, course: Course) => void;
 
+  // Action to add a course and its missing corequisites to a semester in one step
+  addCourseWithCorequisites: (semester: string, course: Course) => void;
+
+  // Action to move a course between semesters, revalidating everything that depends on it
+  moveCourse: (from: string, to: string, courseCode: string) => void;
+
   // Action to remove a course from a specific semester
   removeCourse: (semester: string, courseCode: string) => void;
 
+  // Action to choose a lecture or lab/recitation section of a planned course (null clears both)
+  selectSection: (semester: string, courseCode: string, sectionIndex: number | null) => void;
+
+  // Action to replace every section choice of a semester with a generated combination
+  pinSections: (semester: string, selections: Record<string, number>, linkedSelections?: Record<string, number>) => void;
+
   // Action to set the user information
   setUserInfo: (info: UserInfo) => void;
+
+  // Action to record or withdraw an instructor's permission to skip a course's prerequisites
+  toggleInstructorPermission: (courseCode: string) => void;
+
+  // Action to replace the user information and plan with an imported plan
+  importPlan: (info: UserInfo, semesters: ImportedSemester[]) => void;
+
+  // Action to restore the user info and every named plan exactly as saved in a plan file
+  loadPlanFile: (info: UserInfo, plans: NamedPlan[], activePlanId: string) => void;
+
+  // Action to add suggested courses to the current plan, skipping the ones that do not fit
+  applySuggestedCourses: (semesters: ImportedSemester[]) => void;
+
+  // Action to pin a planned course to its semester, or unpin it
+  togglePinnedCourse: (semester: string, courseCode: string) => void;
+
+  // Action to rearrange the plan's unpinned courses into the given semesters
+  applyOptimizedPlan: (semesters: ImportedSemester[]) => void;
+
+  // Action to record the status and grade of a planned course
+  setCourseRecord: (semester: string, courseCode: string, record: CourseRecord) => void;
+
+  // Action to lock a semester against edits, or unlock it
+  setSemesterLocked: (semester: string, locked: boolean) => void;
+
+  // Action to record a failed course and apply the repaired plan from the failure simulation
+  applyFailureRepair: (semester: string, courseCode: string) => void;
+
+  // Action to start a new empty plan and switch to it
+  createPlan: (name: string) => void;
+
+  // Action to copy a plan under a new name and switch to the copy
+  duplicatePlan: (id: string) => void;
+
+  // Action to rename a plan
+  renamePlan: (id: string, name: string) => void;
+
+  // Action to replace the notes kept with a plan
+  setPlanNotes: (id: string, notes: string) => void;
+
+  // Action to delete a plan (the last remaining plan cannot be deleted)
+  deletePlan: (id: string) => void;
+
+  // Action to make another plan the one being edited
+  switchPlan: (id: string) => void;
+
+  // Action to revert the most recent change
+  undo: () => void;
+
+  // Action to re-apply the most recently undone change
+  redo: () => void;
 }
 
 const SEMESTERS = [
@@ -89,6 +288,18 @@ const SEMESTERS = [
 const REGULAR_SEMESTER_CREDIT_LIMIT = 22;
 const SUMMER_SEMESTER_CREDIT_LIMIT = 10;
 
+// Maximum number of changes kept for undo
+const MAX_HISTORY_ENTRIES = 50;
+
+// Identifier and name of the plan every student starts with
+const DEFAULT_PLAN_ID = 'plan-1';
+const DEFAULT_PLAN_NAME = 'Plan A';
+
+// Get the credit limit for a semester type
+const getCreditLimit = (type: SemesterPlan['type']): number => {
+  return type === 'summer' ? SUMMER_SEMESTER_CREDIT_LIMIT : REGULAR_SEMESTER_CREDIT_LIMIT;
+};
+
 const createEmptyPlans = (): SemesterPlan[] => {
   return SEMESTERS.map(semester => ({
     semester,
@@ -98,28 +309,630 @@ const createEmptyPlans = (): SemesterPlan[] => {
   }));
 };
 
-// Helper function to get course code from prerequisite object
-const getPrereqCode = (prereq: any): string => {
-  if (typeof prereq === 'string') return prereq;
-  if (prereq.type === 'course' && prereq.value) {
-    // Format: "CSC1401" -> "CSC 1401"
-    const code = prereq.value;
-    return code.slice(0, 3) + ' ' + code.slice(3);
+// Helper function to normalize course codes for comparison
+// Removes spaces and hyphens so "CSC 1401", "CSC1401" and "csc-1401" all match
+const normalizeCourseCode = (code: string): string => {
+  if (!code) return '';
+  return code.replace(/[\s-]+/g, '').toUpperCase();
+};
+
+// Helper function to format a scraped course code for display
+// Format: "MTH1304" -> "MTH 1304" (codes that already contain a space are kept as-is)
+const formatCourseCode = (code: string): string => {
+  const trimmed = code.trim();
+  if (trimmed.includes(' ')) return trimmed;
+  return trimmed.slice(0, 3) + ' ' + trimmed.slice(3);
+};
+
+// Get the corequisites of a course that are not planned in the given semester or earlier
+// A corequisite is satisfied when it is taken in the same semester or any previous one
+const getMissingCorequisites = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course
+): string[] => {
+  if (!course.corequisites || course.corequisites.length === 0) return [];
+
+  // Collect the courses planned up to and including the target semester (failed and withdrawn attempts do not count)
+  const plannedCodes = new Set<string>();
+  for (const plan of semesterPlans) {
+    plan.courses
+      .filter(c => countsTowardPrerequisites(plan, c.course_code))
+      .forEach(c => plannedCodes.add(normalizeCourseCode(c.course_code)));
+    if (plan.semester === semester) break;
+  }
+
+  const ownCode = normalizeCourseCode(course.course_code);
+  return course.corequisites.filter(code => {
+    const normalized = normalizeCourseCode(code);
+    // Ignore blank entries and courses that list themselves (e.g. EGR 4402)
+    if (!normalized || normalized === ownCode) return false;
+    return !plannedCodes.has(normalized);
+  });
+};
+
+// List the planned courses whose corequisites are met before a change but not after it
+const getBrokenCorequisites = (
+  before: SemesterPlan[],
+  after: SemesterPlan[]
+): { semester: string; course: Course }[] =>
+  after.flatMap(plan => plan.courses
+    .filter(course =>
+      getMissingCorequisites(after, plan.semester, course).length > 0 &&
+      getMissingCorequisites(before, plan.semester, course).length === 0
+    )
+    .map(course => ({ semester: plan.semester, course }))
+  );
+
+// Check whether the prerequisites of a course are satisfied in a semester
+// Courses, credits (for class standing) and the student's placements and permissions all count
+const arePrerequisitesMet = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null
+): boolean => {
+  const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+  const earlierSemesters = semesterIndex === -1 ? semesterPlans : semesterPlans.slice(0, semesterIndex);
+  return arePrerequisitesSatisfied(course, createPrerequisiteContext(earlierSemesters, userInfo));
+};
+
+// List the planned courses whose prerequisites held before a change but not after it
+// (e.g., a removed prerequisite, or fewer credits lowering the class standing of a later semester)
+const getBrokenPrerequisites = (
+  before: SemesterPlan[],
+  after: SemesterPlan[],
+  userInfo: UserInfo | null
+): { semester: string; course: Course }[] =>
+  after.flatMap(plan => plan.courses
+    .filter(course =>
+      !arePrerequisitesMet(after, plan.semester, course, userInfo) &&
+      arePrerequisitesMet(before, plan.semester, course, userInfo)
+    )
+    .map(course => ({ semester: plan.semester, course }))
+  );
+
+// List the planned courses that lose their prerequisites or corequisites because of a change
+const getBrokenPlacements = (
+  before: SemesterPlan[],
+  after: SemesterPlan[],
+  userInfo: UserInfo | null
+): { semester: string; course: Course }[] => {
+  const broken = getBrokenPrerequisites(before, after, userInfo);
+  getBrokenCorequisites(before, after).forEach(entry => {
+    if (!broken.some(b => b.semester === entry.semester && b.course.course_code === entry.course.course_code)) {
+      broken.push(entry);
+    }
+  });
+  return broken;
+};
+
+// Message used when a course's prerequisites are not satisfied
+const getPrerequisiteErrorMessage = (course: Course) => `Prerequisites for ${course.course_code} are not satisfied`;
+
+// Check whether a course may be planned in a semester alongside its other attempts
+// Every other attempt must come earlier and allow a retake (failed, withdrawn or completed below the
+// grade the student's major requires of the course)
+const getRetakeError = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null
+): string | null => {
+  const minimumGrade = getMinimumGrade({ type: 'course', code: course.course_code }, userInfo?.major ?? null);
+  const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+  const otherAttempts = semesterPlans
+    .map((plan, index) => ({ plan, index }))
+    .filter(({ plan }) => plan.semester !== semester && plan.courses.some(c => c.course_code === course.course_code));
+
+  const blocking = otherAttempts.find(({ plan }) => !canRetake(getCourseRecord(plan, course.course_code), minimumGrade));
+  if (blocking) return `${course.course_code} is already in another semester`;
+
+  const later = otherAttempts.find(({ index }) => index > semesterIndex);
+  if (later) return `${course.course_code} is also attempted in ${later.plan.semester}; a retake must come after every earlier attempt`;
+
+  return null;
+};
+
+// Check whether a course can be placed in a semester
+// Returns a message describing the first failed check, or null if the course fits
+const validateCourseAddition = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null
+): string | null => {
+  // Find the semester plan to add the course to
+  const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+  if (!semesterPlan) return `${semester} is not part of the plan`;
+
+  // Check if course already exists in this semester
+  if (semesterPlan.courses.some(c => c.course_code === course.course_code)) {
+    return `${course.course_code} is already in ${semester}`;
+  }
+
+  // Check if course exists in any other semester (retakes of earlier attempts are allowed)
+  const retakeError = getRetakeError(semesterPlans, semester, course, userInfo);
+  if (retakeError) return retakeError;
+
+  // Check credit limit (22 for regular semesters, 10 for summer)
+  const creditLimit = getCreditLimit(semesterPlan.type);
+  const newCredits = semesterPlan.credits + parseInt(course.credits);
+
+  if (newCredits > creditLimit) {
+    return `Adding ${course.course_code} would exceed the credit limit for ${semester}`;
+  }
+
+  // Check prerequisites
+  if (!arePrerequisitesMet(semesterPlans, semester, course, userInfo)) {
+    return getPrerequisiteErrorMessage(course);
+  }
+
+  // Check corequisites (same semester or earlier)
+  const missingCorequisites = getMissingCorequisites(semesterPlans, semester, course);
+  if (missingCorequisites.length > 0) {
+    const missing = missingCorequisites.map(formatCourseCode).join(', ');
+    return `${course.course_code} requires corequisite ${missing} in ${semester} or an earlier semester`;
+  }
+
+  return null;
+};
+
+// Return a copy of the semester plans with the course appended to the given semester
+const placeCourse = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course
+): SemesterPlan[] => {
+  return semesterPlans.map(plan => {
+    if (plan.semester !== semester) return plan;
+    return {
+      ...plan,
+      courses: [...plan.courses, course],
+      credits: plan.credits + parseInt(course.credits)
+    };
+  });
+};
+
+// Return a copy of per-course choices (sections, records) without the entry for the given course
+const withoutChoice = <T>(choices: Record<string, T> | undefined, courseCode: string) => {
+  if (!choices || !(courseCode in choices)) return choices;
+  return Object.fromEntries(Object.entries(choices).filter(([code]) => code !== courseCode));
+};
+
+// Return the lecture and lab/recitation choices of a semester without those for the given course
+const dropSectionChoice = (
+  plan: SemesterPlan,
+  courseCode: string
+): Pick<SemesterPlan, 'selectedSections' | 'selectedLinkedSections'> => ({
+  selectedSections: withoutChoice(plan.selectedSections, courseCode),
+  selectedLinkedSections: withoutChoice(plan.selectedLinkedSections, courseCode)
+});
+
+// Return the section choices, pin and record of a semester without those for the given course
+const dropCourseState = (
+  plan: SemesterPlan,
+  courseCode: string
+): Pick<SemesterPlan, 'selectedSections' | 'selectedLinkedSections' | 'pinnedCourses' | 'courseRecords'> => ({
+  ...dropSectionChoice(plan, courseCode),
+  pinnedCourses: plan.pinnedCourses?.filter(code => code !== courseCode),
+  courseRecords: withoutChoice(plan.courseRecords, courseCode)
+});
+
+// Message for an edit to a locked semester (null when none of the semesters is locked)
+const getLockError = (semesterPlans: SemesterPlan[], ...semesters: string[]): string | null => {
+  const locked = semesterPlans.find(plan => semesters.includes(plan.semester) && isSemesterLocked(plan));
+  return locked ? `${locked.semester} is locked. Unlock it to change its courses.` : null;
+};
+
+// Return a copy of the semester plans with the course taken out of the given semester
+const unplaceCourse = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  courseCode: string
+): SemesterPlan[] => {
+  return semesterPlans.map(plan => {
+    if (plan.semester !== semester) return plan;
+    const course = plan.courses.find(c => c.course_code === courseCode);
+    if (!course) return plan;
+    return {
+      ...plan,
+      courses: plan.courses.filter(c => c.course_code !== courseCode),
+      credits: plan.credits - parseInt(course.credits),
+      ...dropCourseState(plan, courseCode)
+    };
+  });
+};
+
+// Check whether a course lists another course as a prerequisite or corequisite
+const dependsOn = (course: Course, courseCode: string): boolean => {
+  const normalizedCode = normalizeCourseCode(courseCode);
+  const inPrerequisites = getPrerequisiteCourseCodes(getCoursePrerequisites(course)).some(code =>
+    normalizeCourseCode(code) === normalizedCode
+  );
+  const inCorequisites = (course.corequisites || []).some(coreq =>
+    normalizeCourseCode(coreq) === normalizedCode
+  );
+  return inPrerequisites || inCorequisites;
+};
+
+// Collect every planned course that depends on the given course, directly or through a chain
+// Each entry is paired with the semester it is planned in
+const getDownstreamDependents = (
+  semesterPlans: SemesterPlan[],
+  courseCode: string
+): { semester: string; course: Course }[] => {
+  const planned = semesterPlans.flatMap(plan =>
+    plan.courses.map(course => ({ semester: plan.semester, course }))
+  );
+  const dependents: { semester: string; course: Course }[] = [];
+  const visited = new Set<string>([normalizeCourseCode(courseCode)]);
+  const queue = [courseCode];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const entry of planned) {
+      const code = normalizeCourseCode(entry.course.course_code);
+      if (visited.has(code) || !dependsOn(entry.course, current)) continue;
+      visited.add(code);
+      dependents.push(entry);
+      queue.push(entry.course.course_code);
+    }
+  }
+
+  return dependents;
+};
+
+// List every rule a planned course breaks where it currently sits (prerequisites and corequisites)
+const getPlacementViolations = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null
+): string[] => {
+  const violations: string[] = [];
+
+  if (!arePrerequisitesMet(semesterPlans, semester, course, userInfo)) {
+    violations.push(`Prerequisites for ${course.course_code} would not be satisfied in ${semester}`);
+  }
+
+  const missingCorequisites = getMissingCorequisites(semesterPlans, semester, course);
+  if (missingCorequisites.length > 0) {
+    const missing = missingCorequisites.map(formatCourseCode).join(', ');
+    violations.push(`${course.course_code} in ${semester} would be missing corequisite ${missing}`);
+  }
+
+  return violations;
+};
+
+// Find the earliest semester where a course could be placed, moving it there if it is already planned
+// When no semester fits, the reason is the check that fails in the last semester
+const findEarliestSemester = (
+  semesterPlans: SemesterPlan[],
+  course: Course,
+  userInfo: UserInfo | null
+): { semester: string | null; reason: string | null } => {
+  const current = semesterPlans.find(plan =>
+    plan.courses.some(c => c.course_code === course.course_code) && countsTowardPrerequisites(plan, course.course_code)
+  );
+  const withoutCourse = current ? unplaceCourse(semesterPlans, current.semester, course.course_code) : semesterPlans;
+  const earliest = withoutCourse.find(plan =>
+    validateCourseAddition(withoutCourse, plan.semester, course, userInfo) === null
+  );
+  if (earliest) return { semester: earliest.semester, reason: null };
+
+  const lastSemester = withoutCourse[withoutCourse.length - 1];
+  return {
+    semester: null,
+    reason: lastSemester ? validateCourseAddition(withoutCourse, lastSemester.semester, course, userInfo) : null
+  };
+};
+
+// Describe one missing leaf of an alternative and where it could be satisfied
+const explainMissingLeaf = (
+  leaf: PrerequisiteLeaf,
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  userInfo: UserInfo | null,
+  courseData: Course[] | null
+): PrerequisiteStep => {
+  const label = formatPrerequisite(leaf);
+  const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+  const earlierSemesters = semesterIndex === -1 ? semesterPlans : semesterPlans.slice(0, semesterIndex);
+
+  if (leaf.type === 'course') {
+    const course = courseData?.find(c => normalizeCourseCode(c.course_code) === normalizeCourseCode(leaf.code));
+    if (!course) return { label, semester: null, note: 'Not in the course catalog' };
+
+    // Taken in time, but with a grade below the minimum
+    const [insufficient] = getInsufficientGrades(leaf, createPrerequisiteContext(earlierSemesters, userInfo));
+    if (insufficient) {
+      return {
+        label,
+        semester: null,
+        note: `Earned a ${insufficient.grade}, but ${insufficient.minimumGrade} or better is required; schedule a retake before ${semester}`
+      };
+    }
+
+    const { semester: earliest, reason } = findEarliestSemester(semesterPlans, course, userInfo);
+    const planned = semesterPlans.find(plan =>
+      plan.courses.some(c => c.course_code === course.course_code) && countsTowardPrerequisites(plan, course.course_code)
+    );
+    const where = planned ? `Planned in ${planned.semester}, which is not before ${semester}` : 'Not in your plan';
+    if (!earliest) {
+      return { label, semester: null, note: `${where}; it cannot be placed in any semester yet (${reason ?? 'no semesters'})` };
+    }
+
+    const inTime = semesterPlans.findIndex(plan => plan.semester === earliest) < semesterIndex;
+    return {
+      label,
+      semester: earliest,
+      note: `${where}; it can be placed from ${earliest}${inTime ? '' : `, too late for ${semester}`}`
+    };
+  }
+
+  if (leaf.type === 'standing') {
+    // First semester that starts with enough credits planned before it
+    const needed = STANDING_MIN_CREDITS[leaf.standing];
+    let credits = 0;
+    const reached = semesterPlans.find(plan => {
+      const enough = credits >= needed;
+      credits += getCountedCredits(plan);
+      return enough;
+    });
+    return {
+      label,
+      semester: reached?.semester ?? null,
+      note: reached
+        ? `Needs ${needed} credits planned before the semester; your plan reaches that in ${reached.semester}`
+        : `Needs ${needed} credits planned before the semester; your plan does not reach that yet`
+    };
+  }
+
+  return { label, semester: null, note: explainCondition(leaf, getStudentConditions(earlierSemesters, userInfo)).reason };
+};
+
+// Explain why a course's prerequisites are not satisfied in a semester
+// Lists each unmet required group, the alternatives that would satisfy it and where their pieces could go
+const explainUnmetPrerequisites = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null,
+  courseData: Course[] | null
+): PrerequisiteExplanation => {
+  const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+  const earlierSemesters = semesterIndex === -1 ? semesterPlans : semesterPlans.slice(0, semesterIndex);
+  const context = createPrerequisiteContext(earlierSemesters, userInfo);
+
+  const groups = getRequiredGroups(getCoursePrerequisites(course))
+    .filter(group => !evaluatePrerequisites(group, context))
+    .map(group => ({
+      description: describePrerequisites(group),
+      options: getPrerequisiteAlternatives(group).map(leaves => {
+        const missingLeaves = leaves.filter(leaf => !evaluatePrerequisites(leaf, context));
+        const missing = missingLeaves.map(leaf => explainMissingLeaf(leaf, semesterPlans, semester, userInfo, courseData));
+
+        // The course can come right after the latest missing course, and once the standing is reached
+        const indexes = missing.map((step, i) => {
+          const index = semesterPlans.findIndex(plan => plan.semester === step.semester);
+          return index !== -1 && missingLeaves[i].type === 'course' ? index + 1 : index;
+        });
+        const availableIndex = indexes.includes(-1) ? -1 : Math.max(semesterIndex, ...indexes);
+
+        return {
+          description: leaves.map(formatPrerequisite).join(' and '),
+          missing,
+          availableFrom: semesterPlans[availableIndex]?.semester ?? null
+        };
+      })
+    }));
+
+  return { courseCode: course.course_code, semester, message: getPrerequisiteErrorMessage(course), groups };
+};
+
+// Build the error state for a course that cannot be added, with an explanation for unmet prerequisites
+const getAdditionError = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  course: Course,
+  userInfo: UserInfo | null,
+  courseData: Course[] | null,
+  message: string
+): Pick<DegreePlanState, 'error' | 'errorExplanation'> => ({
+  error: message,
+  errorExplanation: message === getPrerequisiteErrorMessage(course)
+    ? explainUnmetPrerequisites(semesterPlans, semester, course, userInfo, courseData)
+    : null
+});
+
+// Build the error state for any other message, or clear it with null
+// Every error goes through here or getAdditionError so an explanation never outlives its message
+const getErrorState = (message: string | null): Pick<DegreePlanState, 'error' | 'errorExplanation'> => ({
+  error: message,
+  errorExplanation: null
+});
+
+// Simulate failing a planned course: find every course that loses its prerequisites,
+// then repair the plan with a retake in the earliest semester that fits and each invalidated
+// course moved to the earliest semester where it is valid again (locked semesters stay as they are)
+const simulateCourseFailure = (
+  semesterPlans: SemesterPlan[],
+  semester: string,
+  courseCode: string,
+  userInfo: UserInfo | null
+): FailureSimulation | null => {
+  const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+  const course = semesterPlans[semesterIndex]?.courses.find(c => c.course_code === courseCode);
+  if (!course) return null;
+
+  const failedPlans = semesterPlans.map(plan => plan.semester !== semester ? plan : {
+    ...plan,
+    courseRecords: { ...plan.courseRecords, [courseCode]: { status: 'failed' as const } }
+  });
+
+  // Take out what breaks, then whatever breaks because of that, until the plan is consistent
+  const invalidated: { semester: string; course: Course }[] = [];
+  const removed: { semester: string; course: Course }[] = [];
+  let repairedPlans = failedPlans;
+  let broken = getBrokenPlacements(semesterPlans, failedPlans, userInfo);
+  while (broken.length > 0) {
+    invalidated.push(...broken);
+    const before = repairedPlans;
+    broken
+      .filter(entry => !isSemesterLocked(repairedPlans.find(plan => plan.semester === entry.semester)!))
+      .forEach(entry => {
+        removed.push(entry);
+        repairedPlans = unplaceCourse(repairedPlans, entry.semester, entry.course.course_code);
+      });
+    broken = getBrokenPlacements(before, repairedPlans, userInfo);
   }
-  return '';
+
+  // Earliest unlocked semester after a given index where the course passes every check
+  const findSlot = (plans: SemesterPlan[], next: Course, fromIndex: number) =>
+    plans.find((plan, i) => i >= fromIndex && !isSemesterLocked(plan) &&
+      validateCourseAddition(plans, plan.semester, next, userInfo) === null);
+
+  // Retake the failed course as soon as possible
+  const retake = findSlot(repairedPlans, course, semesterIndex + 1);
+  if (retake) repairedPlans = placeCourse(repairedPlans, retake.semester, course);
+
+  // Put the invalidated courses back in plan order, no earlier than they were
+  const indexOf = (name: string) => semesterPlans.findIndex(plan => plan.semester === name);
+  const moves = removed
+    .sort((a, b) => indexOf(a.semester) - indexOf(b.semester))
+    .map(entry => {
+      const slot = findSlot(repairedPlans, entry.course, indexOf(entry.semester));
+      if (slot) repairedPlans = placeCourse(repairedPlans, slot.semester, entry.course);
+      return { courseCode: entry.course.course_code, from: entry.semester, to: slot?.semester ?? null };
+    });
+
+  const lastSemester = (plans: SemesterPlan[]) =>
+    [...plans].reverse().find(plan => plan.courses.length > 0)?.semester ?? null;
+
+  return {
+    courseCode,
+    semester,
+    invalidated: invalidated.map(entry => ({ semester: entry.semester, courseCode: entry.course.course_code })),
+    retakeSemester: retake?.semester ?? null,
+    moves,
+    repairedPlans,
+    lastSemesterBefore: lastSemester(semesterPlans),
+    lastSemesterAfter: lastSemester(repairedPlans)
+  };
+};
+
+// Build the empty semester plans that span the user's start and end terms
+const createPlansForUser = (userInfo: UserInfo | null): SemesterPlan[] => {
+  if (!userInfo) {
+    // Default plan with Fall-Spring-Summer pattern if no user info is available
+    return createEmptyPlans();
+  }
+
+  // Generate semesters based on user's selected start and end
+  const startYear = userInfo.startYear;
+  const endYear = userInfo.endYear;
+  const startSemester = userInfo.startSemester;
+  const endSemester = userInfo.endSemester;
+
+  // Order of semesters in a year
+  const semesterOrder = ['Fall', 'Spring', 'Summer'];
+
+  // Find the index of the starting semester
+  const startSemesterIndex = semesterOrder.indexOf(startSemester);
+  if (startSemesterIndex === -1) {
+    // Invalid semester, use default
+    return createEmptyPlans().slice(0, 3);
+  }
+
+  // Generate all semesters between start and end
+  const semesterPlans: SemesterPlan[] = [];
+  let currentYear = startYear;
+  let currentSemester = startSemester;
+
+  while (
+    currentYear < endYear ||
+    (currentYear === endYear && semesterOrder.indexOf(currentSemester) <= semesterOrder.indexOf(endSemester))
+  ) {
+    // Determine the year to display for this semester
+    const displayYear = currentSemester === 'Fall' ? currentYear : currentYear + 1;
+
+    semesterPlans.push({
+      semester: `${currentSemester} ${displayYear}`,
+      type: currentSemester === 'Summer' ? 'summer' : 'regular',
+      courses: [],
+      credits: 0
+    });
+
+    // Move to the next semester
+    const nextSemesterIndex = (semesterOrder.indexOf(currentSemester) + 1) % semesterOrder.length;
+    currentSemester = semesterOrder[nextSemesterIndex];
+
+    // If we've gone through all semesters in a year, increment the year
+    if (nextSemesterIndex === 0) {
+      currentYear++;
+    }
+  }
+
+  return semesterPlans;
+};
+
+// Fit semester plans to the user's timeline: semesters still in it keep their courses, the rest are dropped
+const fitToTimeline = (semesterPlans: SemesterPlan[], userInfo: UserInfo | null): SemesterPlan[] =>
+  createPlansForUser(userInfo).map(empty => semesterPlans.find(plan => plan.semester === empty.semester) ?? empty);
+
+// Capture the parts of the state that undo and redo restore
+const takeSnapshot = (state: DegreePlanState): PlanSnapshot => ({
+  semesterPlans: state.semesterPlans,
+  userInfo: state.userInfo,
+  plans: state.plans,
+  activePlanId: state.activePlanId
+});
+
+// Get every named plan with the active plan's current semesters filled in
+const getPlansWithActive = (state: Pick<DegreePlanState, 'plans' | 'activePlanId' | 'semesterPlans'>): NamedPlan[] => {
+  return state.plans.map(plan =>
+    plan.id === state.activePlanId ? { ...plan, semesterPlans: state.semesterPlans } : plan
+  );
+};
+
+// Create an identifier for a new plan
+const createPlanId = (): string => `plan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Record the state before a change so it can be undone
+// Returns the history fields to merge into the update; a new change discards anything available to redo
+const recordHistory = (state: DegreePlanState, label: string): Pick<DegreePlanState, 'past' | 'future'> => {
+  const entry: HistoryEntry = {
+    label,
+    timestamp: Date.now(),
+    ...takeSnapshot(state)
+  };
+
+  return {
+    past: [...state.past, entry].slice(-MAX_HISTORY_ENTRIES),
+    future: []
+  };
 };
 
 // Create the Zustand store with initial state and actions
-const useDegreePlanStore = create<DegreePlanState>((set, get) => ({
+// The plan and user info are persisted; the catalog and undo history are rebuilt each session
+const useDegreePlanStore = create<DegreePlanState>()(persist((set, get) => ({
   // Initial state
   courseData: null,           // Start with no course data
   semesterPlans: [],          // Start with no semester plans
   error: null,                // Start with no errors
+  errorExplanation: null,     // Start with nothing to explain
   userInfo: null,             // Start with no user info
+  plans: [{ id: DEFAULT_PLAN_ID, name: DEFAULT_PLAN_NAME, semesterPlans: [] }], // Start with one empty plan
+  activePlanId: DEFAULT_PLAN_ID, // Start by editing the default plan
+  lastSavedAt: null,          // Start with nothing saved
+  past: [],                   // Start with nothing to undo
+  future: [],                 // Start with nothing to redo
 
   // Action to set the course catalog data
   setCourseData: (data) => {
-    set({ courseData: data });
+    // Classify lecture/lab/recitation sections once, when the catalog is loaded
+    set({ courseData: annotateCatalogSections(data) });
   },
 
   // Action to set the user information
@@ -127,223 +940,531 @@ const useDegreePlanStore = create<DegreePlanState>((set, get) => ({
     set({ userInfo: info });
   },
 
+  // Action to toggle the instructor permission of a course (undoable, kept with the user info)
+  toggleInstructorPermission: (courseCode) => {
+    const { userInfo } = get();
+    if (!userInfo) return;
+
+    const permissions = userInfo.instructorPermissions ?? [];
+    const normalizedCode = normalizeCourseCode(courseCode);
+    const hasPermission = permissions.some(code => normalizeCourseCode(code) === normalizedCode);
+
+    set({
+      userInfo: {
+        ...userInfo,
+        instructorPermissions: hasPermission
+          ? permissions.filter(code => normalizeCourseCode(code) !== normalizedCode)
+          : [...permissions, courseCode]
+      },
+      ...recordHistory(get(), hasPermission
+        ? `Withdrew instructor permission for ${courseCode}`
+        : `Recorded instructor permission for ${courseCode}`)
+    });
+  },
+
   // Action to reset the plan and initialize empty semesters
-  resetPlan: () => set(() => {
+  resetPlan: () => {
     // Get the user info to determine the starting semester
-    const { userInfo } = get();
+    const { userInfo, semesterPlans } = get();
+    const changes = { semesterPlans: createPlansForUser(userInfo), ...getErrorState(null) };
+
+    // Only record history when there is planning work to get back
+    if (semesterPlans.some(plan => plan.courses.length > 0)) {
+      set({ ...changes, ...recordHistory(get(), 'Reset plan') });
+    } else {
+      set(changes);
+    }
+  },
 
-    if (!userInfo) {
-      // Default plan with Fall-Spring-Summer pattern if no user info is available
-      return {
-        semesterPlans: [
-          { semester: 'Fall 2024', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Spring 2025', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Summer 2025', type: 'summer', courses: [], credits: 0 },
-          { semester: 'Fall 2025', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Spring 2026', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Summer 2026', type: 'summer', courses: [], credits: 0 },
-          { semester: 'Fall 2026', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Spring 2027', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Summer 2027', type: 'summer', courses: [], credits: 0 },
-          { semester: 'Fall 2027', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Spring 2028', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Summer 2028', type: 'summer', courses: [], credits: 0 }
-        ],
-        error: null
-      };
+  // Action to save edited user information; when the timeline changed, every named plan keeps
+  // the semesters still in it, and undo restores the previous timeline together with those semesters
+  updateUserInfo: (info) => {
+    const state = get();
+    const previous = state.userInfo;
+    const timelineChanged = !previous ||
+      previous.startSemester !== info.startSemester || previous.startYear !== info.startYear ||
+      previous.endSemester !== info.endSemester || previous.endYear !== info.endYear;
+    if (!timelineChanged) {
+      set({ userInfo: info });
+      return;
     }
 
-    // Generate semesters based on user's selected start and end
-    const startYear = userInfo.startYear;
-    const endYear = userInfo.endYear;
-    const startSemester = userInfo.startSemester;
-    const endSemester = userInfo.endSemester;
+    const plans = getPlansWithActive(state);
 
-    // Order of semesters in a year
-    const semesterOrder = ['Fall', 'Spring', 'Summer'];
+    // Courses planned in semesters outside the new timeline are dropped
+    const dropped: string[] = [];
+    const fittedPlans = plans.map(plan => {
+      const semesterPlans = fitToTimeline(plan.semesterPlans, info);
+      plan.semesterPlans
+        .filter(old => old.courses.length > 0 && !semesterPlans.some(fitted => fitted.semester === old.semester))
+        .forEach(old => dropped.push(`${plan.name}, ${old.semester}: ${old.courses.map(course => course.course_code).join(', ')}`));
+      return { ...plan, semesterPlans };
+    });
 
-    // Find the index of the starting semester
-    const startSemesterIndex = semesterOrder.indexOf(startSemester);
-    if (startSemesterIndex === -1) {
-      // Invalid semester, use default
-      return {
-        semesterPlans: [
-          { semester: 'Fall 2024', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Spring 2025', type: 'regular', courses: [], credits: 0 },
-          { semester: 'Summer 2025', type: 'summer', courses: [], credits: 0 }
-        ],
-        error: null
-      };
+    const changes = {
+      userInfo: info,
+      plans: fittedPlans,
+      semesterPlans: fittedPlans.find(plan => plan.id === state.activePlanId)!.semesterPlans,
+      ...getErrorState(dropped.length > 0
+        ? `These semesters are outside your new timeline and were removed:\n${dropped.map(entry => `• ${entry}`).join('\n')}`
+        : null)
+    };
+
+    // Only record history when there is planning work to get back
+    if (plans.some(plan => plan.semesterPlans.some(semester => semester.courses.length > 0))) {
+      set({ ...changes, ...recordHistory(state, 'Changed the timeline') });
+    } else {
+      set(changes);
     }
+  },
+
+  // Action to replace the user info and plan with an imported plan in one step
+  importPlan: (info, semesters) => {
+    // Start from empty semesters spanning the imported user's timeline
+    let semesterPlans = createPlansForUser(info);
+    const skipped: string[] = [];
+
+    // Place each imported course, keeping track of the ones that do not fit
+    // Records are applied as courses are placed so a failed attempt allows its retake later on
+    semesters.forEach(sem => {
+      if (!semesterPlans.some(plan => plan.semester === sem.name)) return;
+      sem.courses.forEach(course => {
+        const validationError = validateCourseAddition(semesterPlans, sem.name, course, info);
+        if (validationError) {
+          skipped.push(validationError);
+          return;
+        }
+        semesterPlans = placeCourse(semesterPlans, sem.name, course);
 
-    // Generate all semesters between start and end
-    const semesterPlans = [];
-    let currentYear = startYear;
-    let currentSemester = startSemester;
-
-    while (
-      currentYear < endYear ||
-      (currentYear === endYear && semesterOrder.indexOf(currentSemester) <= semesterOrder.indexOf(endSemester))
-    ) {
-      // Determine the year to display for this semester
-      const displayYear = currentSemester === 'Fall' ? currentYear : currentYear + 1;
-
-      semesterPlans.push({
-        semester: `${currentSemester} ${displayYear}`,
-        type: currentSemester === 'Summer' ? 'summer' : 'regular',
-        courses: [],
-        credits: 0
+        const record = sem.courseRecords?.[course.course_code];
+        if (record && record.status !== 'planned') {
+          semesterPlans = semesterPlans.map(plan => plan.semester === sem.name
+            ? { ...plan, courseRecords: { ...plan.courseRecords, [course.course_code]: normalizeCourseRecord(record) } }
+            : plan
+          );
+        }
       });
+    });
+
+    set({
+      userInfo: info,
+      semesterPlans,
+      ...getErrorState(skipped.length > 0
+        ? `Some courses could not be imported:\n${skipped.map(e => `• ${e}`).join('\n')}`
+        : null),
+      ...recordHistory(get(), `Imported plan for ${info.name}`)
+    });
+  },
+
+  // Action to restore a plan file in a single undoable step
+  // The file was validated when it was read, so its courses are restored without re-checking prerequisites
+  loadPlanFile: (info, plans, activePlanId) => {
+    const activePlan = plans.find(plan => plan.id === activePlanId) ?? plans[0];
+    if (!activePlan) return;
+
+    set({
+      userInfo: info,
+      plans,
+      activePlanId: activePlan.id,
+      semesterPlans: activePlan.semesterPlans,
+      ...getErrorState(null),
+      ...recordHistory(get(), `Imported plan file for ${info.name}`)
+    });
+  },
+
+  // Action to add the accepted part of an auto-fill suggestion to the current plan
+  applySuggestedCourses: (semesters) => {
+    let { semesterPlans } = get();
+    const { userInfo } = get();
+    const skipped: string[] = [];
+    let added = 0;
 
-      // Move to the next semester
-      const nextSemesterIndex = (semesterOrder.indexOf(currentSemester) + 1) % semesterOrder.length;
-      currentSemester = semesterOrder[nextSemesterIndex];
+    semesters.forEach(sem => {
+      if (!semesterPlans.some(plan => plan.semester === sem.name)) return;
+
+      // Nothing is added to locked semesters
+      const lockError = getLockError(semesterPlans, sem.name);
+      if (lockError) {
+        if (sem.courses.length > 0) skipped.push(lockError);
+        return;
+      }
 
-      // If we've gone through all semesters in a year, increment the year
-      if (nextSemesterIndex === 0) {
-        currentYear++;
+      // Courses waiting on a corequisite suggested later in the same semester get a second attempt
+      let pending = sem.courses;
+      let errors: string[] = [];
+      for (let attempt = 0; attempt < 2 && pending.length > 0; attempt++) {
+        const failed: Course[] = [];
+        errors = [];
+        pending.forEach(course => {
+          const validationError = validateCourseAddition(semesterPlans, sem.name, course, userInfo);
+          if (validationError) {
+            failed.push(course);
+            errors.push(validationError);
+            return;
+          }
+          semesterPlans = placeCourse(semesterPlans, sem.name, course);
+          added++;
+        });
+        pending = failed;
       }
+      skipped.push(...errors);
+    });
+
+    const error = skipped.length > 0
+      ? `Some suggested courses could not be added:\n${skipped.map(e => `• ${e}`).join('\n')}`
+      : null;
+
+    // Nothing was added, so there is no change to record
+    if (added === 0) {
+      set(getErrorState(error));
+      return;
     }
 
-    return {
+    set({
       semesterPlans,
-      error: null
-    };
-  }),
+      ...getErrorState(error),
+      ...recordHistory(get(), `Auto-filled ${added} course${added === 1 ? '' : 's'}`)
+    });
+  },
 
-  // Action to add a course to a specific semester
-  addCourse: (semester, course) => {
-    // Get the current state
+  // Action to pin a course to its semester, or unpin it (undoable)
+  togglePinnedCourse: (semester, courseCode) => {
     const { semesterPlans } = get();
+    const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+    if (!semesterPlan?.courses.some(course => course.course_code === courseCode)) return;
+
+    const pinned = semesterPlan.pinnedCourses ?? [];
+    const isPinned = pinned.includes(courseCode);
+
+    set({
+      semesterPlans: semesterPlans.map(plan => plan.semester !== semester ? plan : {
+        ...plan,
+        pinnedCourses: isPinned ? pinned.filter(code => code !== courseCode) : [...pinned, courseCode]
+      }),
+      ...getErrorState(null),
+      ...recordHistory(get(), isPinned ? `Unpinned ${courseCode}` : `Pinned ${courseCode} to ${semester}`)
+    });
+  },
+
+  // Action to rearrange the plan: pinned courses stay, every other course goes where the semesters say
+  applyOptimizedPlan: (semesters) => {
+    const { semesterPlans, userInfo } = get();
+
+    // Start from the pinned courses, failed and withdrawn attempts and the courses of locked semesters only
+    let updatedSemesterPlans = semesterPlans;
+    semesterPlans.filter(plan => !isSemesterLocked(plan)).forEach(plan => plan.courses
+      .filter(course => !plan.pinnedCourses?.includes(course.course_code) && countsTowardPrerequisites(plan, course.course_code))
+      .forEach(course => {
+        updatedSemesterPlans = unplaceCourse(updatedSemesterPlans, plan.semester, course.course_code);
+      }));
+
+    // Place the courses semester by semester (a second attempt catches corequisites listed later)
+    const skipped: string[] = [];
+    semesters.forEach(sem => {
+      if (!updatedSemesterPlans.some(plan => plan.semester === sem.name)) return;
+
+      const lockError = getLockError(updatedSemesterPlans, sem.name);
+      if (lockError) {
+        if (sem.courses.length > 0) skipped.push(lockError);
+        return;
+      }
+
+      let pending = sem.courses;
+      let errors: string[] = [];
+      for (let attempt = 0; attempt < 2 && pending.length > 0; attempt++) {
+        const failed: Course[] = [];
+        errors = [];
+        pending.forEach(course => {
+          const validationError = validateCourseAddition(updatedSemesterPlans, sem.name, course, userInfo);
+          if (validationError) {
+            failed.push(course);
+            errors.push(validationError);
+            return;
+          }
+          updatedSemesterPlans = placeCourse(updatedSemesterPlans, sem.name, course);
+        });
+        pending = failed;
+      }
+      skipped.push(...errors);
+    });
+
+    // Keep section choices and records of courses that are still in the same semester
+    updatedSemesterPlans = updatedSemesterPlans.map(plan => {
+      const previous = semesterPlans.find(p => p.semester === plan.semester);
+      const kept = <T>(choices: Record<string, T> | undefined) => choices && Object.fromEntries(
+        Object.entries(choices).filter(([code]) => plan.courses.some(course => course.course_code === code))
+      );
+      return {
+        ...plan,
+        selectedSections: kept(previous?.selectedSections),
+        selectedLinkedSections: kept(previous?.selectedLinkedSections),
+        courseRecords: kept(previous?.courseRecords)
+      };
+    });
 
-    // Find the semester plan to add the course to
+    const usedSemesters = updatedSemesterPlans.filter(plan => plan.courses.length > 0).length;
+    set({
+      semesterPlans: updatedSemesterPlans,
+      ...getErrorState(skipped.length > 0
+        ? `Some courses could not be placed and were left out:\n${skipped.map(e => `• ${e}`).join('\n')}`
+        : null),
+      ...recordHistory(get(), `Optimized the plan into ${usedSemesters} semester${usedSemesters === 1 ? '' : 's'}`)
+    });
+  },
+
+  // Action to record the status and grade of a course (allowed in locked semesters)
+  // Courses that lose their prerequisites are reported but stay in the plan: what happened cannot be undone
+  setCourseRecord: (semester, courseCode, record) => {
+    const { semesterPlans, userInfo } = get();
     const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+    if (!semesterPlan?.courses.some(course => course.course_code === courseCode)) return;
+
+    const normalized = normalizeCourseRecord(record);
+    const current = semesterPlan.courseRecords?.[courseCode] ?? { status: 'planned' };
+    if (current.status === normalized.status && current.grade === normalized.grade) return;
+
+    // Planned courses need no record
+    const courseRecords = normalized.status === 'planned'
+      ? withoutChoice(semesterPlan.courseRecords, courseCode)
+      : { ...semesterPlan.courseRecords, [courseCode]: normalized };
+    const updatedSemesterPlans = semesterPlans.map(plan => plan.semester === semester ? { ...plan, courseRecords } : plan);
+
+    const broken = getBrokenPrerequisites(semesterPlans, updatedSemesterPlans, userInfo);
+    const brokenCorequisites = getBrokenCorequisites(semesterPlans, updatedSemesterPlans);
+    const statusLabel = normalized.grade ? `${normalized.status} (${normalized.grade})` : normalized.status;
+
+    // A passing grade below a prerequisite's minimum calls for a retake rather than a new course
+    const belowMinimum = normalized.status === 'completed' && broken.some(entry => {
+      const index = updatedSemesterPlans.findIndex(plan => plan.semester === entry.semester);
+      const context = createPrerequisiteContext(updatedSemesterPlans.slice(0, index), userInfo);
+      return getInsufficientGrades(getCoursePrerequisites(entry.course), context)
+        .some(insufficient => normalizeCourseCode(insufficient.code) === normalizeCourseCode(courseCode));
+    });
+
+    // Later attempts are only retakes while every earlier attempt allows one
+    const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
+    const course = semesterPlan.courses.find(c => c.course_code === courseCode)!;
+    const retakeErrors = updatedSemesterPlans
+      .filter((plan, index) => index > semesterIndex && plan.courses.some(c => c.course_code === courseCode))
+      .flatMap(plan => {
+        const retakeError = getRetakeError(updatedSemesterPlans, plan.semester, course, userInfo);
+        return retakeError ? [`${courseCode} in ${plan.semester} is no longer a valid retake: ${retakeError}`] : [];
+      });
+
+    const problems = [
+      ...(broken.length > 0
+        ? [`With ${courseCode} ${statusLabel}, these courses no longer have their prerequisites:\n${
+          broken.map(entry => `• ${entry.course.course_code} in ${entry.semester}`).join('\n')}${
+          belowMinimum ? `\nThe grade is below the minimum they require; schedule a retake of ${courseCode} before them.` : ''}`]
+        : []),
+      ...(brokenCorequisites.length > 0
+        ? [`These courses are now missing their corequisite ${courseCode}:\n${
+          brokenCorequisites.map(entry => `• ${entry.course.course_code} in ${entry.semester}`).join('\n')}`]
+        : []),
+      ...retakeErrors
+    ];
+
+    set({
+      semesterPlans: updatedSemesterPlans,
+      ...getErrorState(problems.length > 0 ? problems.join('\n') : null),
+      ...recordHistory(get(), `Marked ${courseCode} in ${semester} as ${statusLabel}`)
+    });
+  },
+
+  // Action to lock or unlock a semester (undoable)
+  setSemesterLocked: (semester, locked) => {
+    const { semesterPlans } = get();
+    const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+    if (!semesterPlan || isSemesterLocked(semesterPlan) === locked) return;
+
+    set({
+      semesterPlans: semesterPlans.map(plan => plan.semester === semester ? { ...plan, locked } : plan),
+      ...getErrorState(null),
+      ...recordHistory(get(), `${locked ? 'Locked' : 'Unlocked'} ${semester}`)
+    });
+  },
+
+  // Action to mark a course as failed and repair the plan around it in one undoable step
+  applyFailureRepair: (semester, courseCode) => {
+    const { semesterPlans, userInfo } = get();
+    const simulation = simulateCourseFailure(semesterPlans, semester, courseCode, userInfo);
+    if (!simulation) return;
+
+    const leftOut = simulation.moves.filter(move => move.to === null).map(move => move.courseCode);
+    const problems = [
+      ...(simulation.retakeSemester ? [] : [`No semester has room for a retake of ${courseCode}`]),
+      ...(leftOut.length > 0 ? [`No semester fits ${leftOut.join(', ')}, so they were left out`] : [])
+    ];
+
+    set({
+      semesterPlans: simulation.repairedPlans,
+      ...getErrorState(problems.length > 0 ? `The plan was only partly repaired:\n${problems.map(p => `• ${p}`).join('\n')}` : null),
+      ...recordHistory(get(), simulation.retakeSemester
+        ? `Failed ${courseCode} in ${semester}, retake planned in ${simulation.retakeSemester}`
+        : `Failed ${courseCode} in ${semester}`)
+    });
+  },
+
+  // Action to add a course to a specific semester
+  addCourse: (semester, course) => {
+    // Get the current state
+    const { semesterPlans, userInfo, courseData } = get();
 
     // If semester not found, do nothing
-    if (!semesterPlan) return;
+    if (!semesterPlans.some(plan => plan.semester === semester)) return;
 
-    // Check if course already exists in this semester
-    if (semesterPlan.courses.some(c => c.course_code === course.course_code)) {
-      set({ error: `${course.course_code} is already in ${semester}` });
+    // Locked semesters keep the courses the student recorded
+    const lockError = getLockError(semesterPlans, semester);
+    if (lockError) {
+      set(getErrorState(lockError));
       return;
     }
 
-    // Check if course exists in any other semester
-    const existsInOtherSemester = semesterPlans.some(plan =>
-      plan.semester !== semester &&
-      plan.courses.some(c => c.course_code === course.course_code)
-    );
-
-    if (existsInOtherSemester) {
-      set({ error: `${course.course_code} is already in another semester` });
+    // Run every placement check (duplicates, credits, prerequisites, corequisites)
+    const validationError = validateCourseAddition(semesterPlans, semester, course, userInfo);
+    if (validationError) {
+      set(getAdditionError(semesterPlans, semester, course, userInfo, courseData, validationError));
       return;
     }
 
-    // Check credit limit (22 for regular semesters, 10 for summer)
-    const creditLimit = semesterPlan.type === 'summer' ? 10 : 22;
-    const newCredits = semesterPlan.credits + parseInt(course.credits);
+    // All checks passed, add the course
+    set({
+      semesterPlans: placeCourse(semesterPlans, semester, course),
+      ...getErrorState(null), // Clear any previous errors
+      ...recordHistory(get(), `Added ${course.course_code} to ${semester}`)
+    });
+  },
+
+  // Action to add a course together with any corequisites it is still missing
+  addCourseWithCorequisites: (semester, course) => {
+    // Get the current state
+    const { semesterPlans, courseData, userInfo } = get();
 
-    if (newCredits > creditLimit) {
-      set({ error: `Adding ${course.course_code} would exceed the credit limit for ${semester}` });
+    // If semester not found, do nothing
+    if (!semesterPlans.some(plan => plan.semester === semester)) return;
+
+    // Locked semesters keep the courses the student recorded
+    const lockError = getLockError(semesterPlans, semester);
+    if (lockError) {
+      set(getErrorState(lockError));
       return;
     }
 
-    // Check prerequisites
-    if (course.prerequisites && course.prerequisites.length > 0) {
-      // Get all courses that have been added to previous semesters
-      const previousSemesters = [];
-      let foundCurrentSemester = false;
+    // Resolve every missing corequisite against the catalog
+    const missingCorequisites = getMissingCorequisites(semesterPlans, semester, course);
+    const corequisiteCourses: Course[] = [];
 
-      for (const plan of semesterPlans) {
-        if (plan.semester === semester) {
-          foundCurrentSemester = true;
-          break;
-        }
-        previousSemesters.push(...plan.courses);
+    for (const code of missingCorequisites) {
+      const corequisite = courseData?.find(c => normalizeCourseCode(c.course_code) === normalizeCourseCode(code));
+      if (!corequisite) {
+        set(getErrorState(`Corequisite ${formatCourseCode(code)} for ${course.course_code} is not in the course catalog`));
+        return;
       }
+      corequisiteCourses.push(corequisite);
+    }
 
-      // Helper function to normalize course codes for comparison
-      const normalizeCourseCode = (code: string) => {
-        if (!code) return '';
-        // Remove spaces, hyphens, and convert to uppercase
-        return code.replace(/[\s-]+/g, '').toUpperCase();
-      };
-
-      // Special case for CSC 2302 which requires CSC 1401
-      if (course.course_code === "CSC 2302") {
-        const hasCSC1401 = previousSemesters.some(c =>
-          normalizeCourseCode(c.course_code) === normalizeCourseCode("CSC1401")
-        );
-
-        if (hasCSC1401) {
-          // Skip the regular prerequisite check for CSC 2302
-          // All checks passed, add the course
-          const updatedSemesterPlans = semesterPlans.map(plan => {
-            if (plan.semester === semester) {
-              // Add course to this semester
-              return {
-                ...plan,
-                courses: [...plan.courses, course],
-                credits: plan.credits + parseInt(course.credits)
-              };
-            }
-            return plan;
-          });
-
-          set({
-            semesterPlans: updatedSemesterPlans,
-            error: null // Clear any previous errors
-          });
-          return;
-        }
+    // Place the corequisites first, then the course itself, on a working copy
+    // so that nothing is applied unless the whole group fits
+    let updatedSemesterPlans = semesterPlans;
+    for (const next of [...corequisiteCourses, course]) {
+      const validationError = validateCourseAddition(updatedSemesterPlans, semester, next, userInfo);
+      if (validationError) {
+        set(getAdditionError(updatedSemesterPlans, semester, next, userInfo, courseData, validationError));
+        return;
       }
+      updatedSemesterPlans = placeCourse(updatedSemesterPlans, semester, next);
+    }
 
-      // Check if prerequisites are satisfied
-      const prerequisitesSatisfied = course.prerequisites.every(group => {
-        // If the group is empty, it's satisfied
-        if (group.length === 0) return true;
+    const corequisiteCodes = corequisiteCourses.map(c => c.course_code).join(', ');
+    set({
+      semesterPlans: updatedSemesterPlans,
+      ...getErrorState(null), // Clear any previous errors
+      ...recordHistory(get(), corequisiteCodes
+        ? `Added ${course.course_code} with ${corequisiteCodes} to ${semester}`
+        : `Added ${course.course_code} to ${semester}`)
+    });
+  },
 
-        // For OR conditions, at least one prerequisite must be satisfied
-        return group.some(prereq => {
-          // Normalize the prerequisite value
-          const normalizedPrereq = normalizeCourseCode(prereq.value);
+  // Action to move a course from one semester to another
+  // The move is applied only if the moved course and all of its dependents stay valid
+  moveCourse: (from, to, courseCode) => {
+    // Get the current state
+    const { semesterPlans, userInfo } = get();
 
-          // Check if the prerequisite course exists in previous semesters
-          return previousSemesters.some(c =>
-            normalizeCourseCode(c.course_code) === normalizedPrereq
-          );
-        });
-      });
+    // Moving within the same semester changes nothing
+    if (from === to) return;
 
-      if (!prerequisitesSatisfied) {
-        set({ error: `Prerequisites for ${course.course_code} are not satisfied` });
-        return;
-      }
+    // Find the source and target semesters and the course being moved
+    const sourcePlan = semesterPlans.find(plan => plan.semester === from);
+    const targetPlan = semesterPlans.find(plan => plan.semester === to);
+    const course = sourcePlan?.courses.find(c => c.course_code === courseCode);
+
+    // If either semester or the course is not found, do nothing
+    if (!sourcePlan || !targetPlan || !course) return;
+
+    // Locked semesters keep the courses the student recorded
+    const lockError = getLockError(semesterPlans, from, to);
+    if (lockError) {
+      set(getErrorState(lockError));
+      return;
     }
 
-    // All checks passed, add the course
-    const updatedSemesterPlans = semesterPlans.map(plan => {
-      if (plan.semester === semester) {
-        // Add course to this semester
-        return {
-          ...plan,
-          courses: [...plan.courses, course],
-          credits: plan.credits + parseInt(course.credits)
-        };
-      }
-      return plan;
-    });
+    // Pinned courses stay where the student fixed them
+    if (sourcePlan.pinnedCourses?.includes(courseCode)) {
+      set(getErrorState(`${courseCode} is pinned to ${from}. Unpin it before moving it.`));
+      return;
+    }
+
+    // A semester holds at most one attempt of a course
+    if (targetPlan.courses.some(c => c.course_code === courseCode)) {
+      set(getErrorState(`${courseCode} is already in ${to}`));
+      return;
+    }
+
+    // Build the plan as it would look after the move
+    const updatedSemesterPlans = placeCourse(unplaceCourse(semesterPlans, from, courseCode), to, course);
+    const violations: string[] = [];
+
+    // Check credit limit of the target semester
+    const creditLimit = getCreditLimit(targetPlan.type);
+    if (targetPlan.credits + parseInt(course.credits) > creditLimit) {
+      violations.push(`${to} would exceed its ${creditLimit} credit limit`);
+    }
+
+    // Attempts of a retaken course must stay in order
+    const retakeError = getRetakeError(updatedSemesterPlans, to, course, userInfo);
+    if (retakeError) violations.push(retakeError);
+
+    // Revalidate the moved course and everything downstream of it
+    violations.push(...getPlacementViolations(updatedSemesterPlans, to, course, userInfo));
+    const dependents = getDownstreamDependents(updatedSemesterPlans, courseCode);
+    for (const dependent of dependents) {
+      violations.push(...getPlacementViolations(updatedSemesterPlans, dependent.semester, dependent.course, userInfo));
+    }
+
+    // Moving credits can also lower the class standing other courses rely on
+    const checkedCodes = new Set([courseCode, ...dependents.map(dependent => dependent.course.course_code)]);
+    getBrokenPrerequisites(semesterPlans, updatedSemesterPlans, userInfo)
+      .filter(entry => !checkedCodes.has(entry.course.course_code))
+      .forEach(entry => violations.push(`Prerequisites for ${entry.course.course_code} would not be satisfied in ${entry.semester}`));
+
+    // If anything would break, report every violation and leave the plan untouched
+    if (violations.length > 0) {
+      set(getErrorState(`Cannot move ${courseCode} to ${to}:\n${violations.map(v => `• ${v}`).join('\n')}`));
+      return;
+    }
 
     set({
       semesterPlans: updatedSemesterPlans,
-      error: null // Clear any previous errors
+      ...getErrorState(null), // Clear any previous errors
+      ...recordHistory(get(), `Moved ${courseCode} from ${from} to ${to}`)
     });
   },
 
   // Action to remove a course from a specific semester
   removeCourse: (semester, courseCode) => {
     // Get the current state
-    const { semesterPlans } = get();
+    const { semesterPlans, userInfo } = get();
 
     // Find the semester plan to remove the course from
     const semesterIndex = semesterPlans.findIndex(plan => plan.semester === semester);
@@ -351,6 +1472,13 @@ const useDegreePlanStore = create<DegreePlanState>((set, get) => ({
     // If semester not found, do nothing
     if (semesterIndex === -1) return;
 
+    // Locked semesters keep the courses the student recorded
+    const lockError = getLockError(semesterPlans, semester);
+    if (lockError) {
+      set(getErrorState(lockError));
+      return;
+    }
+
     // Find the course to remove
     const courseIndex = semesterPlans[semesterIndex].courses.findIndex(
       course => course.course_code === courseCode
@@ -359,57 +1487,324 @@ const useDegreePlanStore = create<DegreePlanState>((set, get) => ({
     // If course not found, do nothing
     if (courseIndex === -1) return;
 
-    // Get the course to calculate credits
-    const course = semesterPlans[semesterIndex].courses[courseIndex];
-
-    // Check if this course is a prerequisite for any course in later semesters
-    let isPrerequisite = false;
-    let dependentCourse = '';
-
-    // Loop through all semesters after the current one
-    for (let i = semesterIndex + 1; i < semesterPlans.length; i++) {
-      // Check each course in the semester
-      for (const c of semesterPlans[i].courses) {
-        // Skip if no prerequisites
-        if (!c.prerequisites || c.prerequisites.length === 0) continue;
-
-        // Check if this course is a prerequisite
-        const isRequired = c.prerequisites.some(group =>
-          group.some(prereq => prereq.value === courseCode)
-        );
-
-        if (isRequired) {
-          isPrerequisite = true;
-          dependentCourse = c.course_code;
-          break;
-        }
-      }
-      if (isPrerequisite) break;
-    }
+    // Check if removing this course breaks the prerequisites of a later course
+    // A course is only blocked when nothing else in the plan satisfies its prerequisites instead
+    const normalizedCode = normalizeCourseCode(courseCode);
+    const updatedSemesterPlans = unplaceCourse(semesterPlans, semester, courseCode);
+    const broken = getBrokenPrerequisites(semesterPlans, updatedSemesterPlans, userInfo);
 
     // If it's a prerequisite, show error and don't remove
-    if (isPrerequisite) {
-      set({ error: `Cannot remove ${courseCode} because it's a prerequisite for ${dependentCourse}` });
+    if (broken.length > 0) {
+      const dependent = broken.find(({ course: c }) =>
+        getPrerequisiteCourseCodes(getCoursePrerequisites(c)).some(code => normalizeCourseCode(code) === normalizedCode)
+      );
+      set(getErrorState(dependent
+        ? `Cannot remove ${courseCode} because it's a prerequisite for ${dependent.course.course_code}`
+        : `Cannot remove ${courseCode} because ${broken[0].course.course_code} in ${broken[0].semester} would lose the class standing it requires`
+      ));
       return;
     }
 
-    // Create updated semester plans
-    const updatedSemesterPlans = [...semesterPlans];
+    // Check if removing this course leaves a course without its corequisite
+    // Another attempt of the course that still covers the corequisite keeps the removal allowed
+    const corequisiteDependent = getBrokenCorequisites(semesterPlans, updatedSemesterPlans)[0];
 
-    // Remove the course and update credits
-    updatedSemesterPlans[semesterIndex] = {
-      ...updatedSemesterPlans[semesterIndex],
-      courses: updatedSemesterPlans[semesterIndex].courses.filter(c => c.course_code !== courseCode),
-      credits: updatedSemesterPlans[semesterIndex].credits - parseInt(course.credits)
-    };
+    // If it's a corequisite, show error and don't remove
+    if (corequisiteDependent) {
+      set(getErrorState(`Cannot remove ${courseCode} because it's a corequisite for ${corequisiteDependent.course.course_code}`));
+      return;
+    }
 
     // Update state
     set({
       semesterPlans: updatedSemesterPlans,
-      error: null // Clear any previous errors
+      ...getErrorState(null), // Clear any previous errors
+      ...recordHistory(get(), `Removed ${courseCode} from ${semester}`)
+    });
+  },
+
+  // Action to choose which section of a planned course the student will attend
+  // Choosing a lecture keeps the lab/recitation only if it is paired with that lecture;
+  // a lab/recitation can only be chosen alongside a lecture it is paired with
+  selectSection: (semester, courseCode, sectionIndex) => {
+    const { semesterPlans } = get();
+    const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+    const course = semesterPlan?.courses.find(c => c.course_code === courseCode);
+
+    // Ignore courses that are not planned in this semester and sections that do not exist
+    if (!semesterPlan || !course) return;
+    if (isSemesterLocked(semesterPlan)) {
+      set(getErrorState(getLockError(semesterPlans, semester)));
+      return;
+    }
+    const section = sectionIndex === null ? null : classifySections(course.sections || [])[sectionIndex];
+    if (sectionIndex !== null && !section) return;
+
+    const lectureIndex = semesterPlan.selectedSections?.[courseCode];
+    const linkedIndex = semesterPlan.selectedLinkedSections?.[courseCode];
+    let changes: Pick<SemesterPlan, 'selectedSections' | 'selectedLinkedSections'>;
+    let label: string;
+
+    if (sectionIndex === null || !section) {
+      if (lectureIndex === undefined && linkedIndex === undefined) return;
+      changes = dropSectionChoice(semesterPlan, courseCode);
+      label = `Cleared sections of ${courseCode} in ${semester}`;
+    } else if (section.kind === 'lecture') {
+      if (lectureIndex === sectionIndex) return;
+      const keepLinked = linkedIndex !== undefined &&
+        getLinkedSections(course, sectionIndex).some(linked => linked.index === linkedIndex);
+      changes = {
+        selectedSections: { ...semesterPlan.selectedSections, [courseCode]: sectionIndex },
+        selectedLinkedSections: keepLinked
+          ? semesterPlan.selectedLinkedSections
+          : withoutChoice(semesterPlan.selectedLinkedSections, courseCode)
+      };
+      label = `Chose section ${sectionIndex + 1} of ${courseCode} in ${semester}`;
+    } else {
+      if (linkedIndex === sectionIndex) return;
+      if (lectureIndex === undefined || !getLinkedSections(course, lectureIndex).some(linked => linked.index === sectionIndex)) {
+        set(getErrorState(`Choose a lecture of ${courseCode} that this ${section.kind} is paired with first`));
+        return;
+      }
+      changes = {
+        selectedSections: semesterPlan.selectedSections,
+        selectedLinkedSections: { ...semesterPlan.selectedLinkedSections, [courseCode]: sectionIndex }
+      };
+      label = `Chose ${section.kind} section ${sectionIndex + 1} of ${courseCode} in ${semester}`;
+    }
+
+    set({
+      semesterPlans: semesterPlans.map(plan =>
+        plan.semester === semester ? { ...plan, ...changes } : plan
+      ),
+      ...getErrorState(null),
+      ...recordHistory(get(), label)
+    });
+  },
+
+  // Action to pin a whole combination of sections to a semester in one step
+  pinSections: (semester, selections, linkedSelections = {}) => {
+    const { semesterPlans } = get();
+    const semesterPlan = semesterPlans.find(plan => plan.semester === semester);
+    if (!semesterPlan) return;
+    if (isSemesterLocked(semesterPlan)) {
+      set(getErrorState(getLockError(semesterPlans, semester)));
+      return;
+    }
+
+    // Keep only choices for courses planned in this semester with an existing section
+    const keepExisting = (choices: Record<string, number>) => Object.fromEntries(
+      Object.entries(choices).filter(([courseCode, sectionIndex]) =>
+        semesterPlan.courses.some(c => c.course_code === courseCode && c.sections?.[sectionIndex])
+      )
+    );
+    const selectedSections = keepExisting(selections);
+    const selectedLinkedSections = Object.fromEntries(
+      Object.entries(keepExisting(linkedSelections)).filter(([courseCode]) => courseCode in selectedSections)
+    );
+
+    set({
+      semesterPlans: semesterPlans.map(plan =>
+        plan.semester === semester ? { ...plan, selectedSections, selectedLinkedSections } : plan
+      ),
+      ...getErrorState(null),
+      ...recordHistory(get(), `Pinned a section combination to ${semester}`)
+    });
+  },
+
+  // Action to start a new empty plan and switch to it
+  createPlan: (name) => {
+    const state = get();
+    const plan: NamedPlan = { id: createPlanId(), name, semesterPlans: createPlansForUser(state.userInfo) };
+
+    set({
+      plans: [...getPlansWithActive(state), plan],
+      activePlanId: plan.id,
+      semesterPlans: plan.semesterPlans,
+      ...getErrorState(null),
+      ...recordHistory(state, `Created ${name}`)
+    });
+  },
+
+  // Action to copy a plan under a new name and switch to the copy
+  duplicatePlan: (id) => {
+    const state = get();
+    const plans = getPlansWithActive(state);
+    const source = plans.find(plan => plan.id === id);
+    if (!source) return;
+
+    const copy: NamedPlan = {
+      id: createPlanId(),
+      name: `${source.name} (copy)`,
+      semesterPlans: source.semesterPlans,
+      ...(source.notes ? { notes: source.notes } : {})
+    };
+
+    set({
+      plans: [...plans, copy],
+      activePlanId: copy.id,
+      semesterPlans: copy.semesterPlans,
+      ...getErrorState(null),
+      ...recordHistory(state, `Duplicated ${source.name}`)
+    });
+  },
+
+  // Action to rename a plan
+  renamePlan: (id, name) => {
+    const state = get();
+    const plan = state.plans.find(p => p.id === id);
+    const trimmed = name.trim();
+    if (!plan || !trimmed || plan.name === trimmed) return;
+
+    set({
+      plans: state.plans.map(p => (p.id === id ? { ...p, name: trimmed } : p)),
+      ...recordHistory(state, `Renamed ${plan.name} to ${trimmed}`)
+    });
+  },
+
+  // Action to replace the notes kept with a plan (blank notes are removed)
+  setPlanNotes: (id, notes) => {
+    const state = get();
+    const plan = state.plans.find(p => p.id === id);
+    const trimmed = notes.trim();
+    if (!plan || (plan.notes ?? '') === trimmed) return;
+
+    set({
+      plans: state.plans.map(p => (p.id === id ? { ...p, notes: trimmed || undefined } : p)),
+      ...recordHistory(state, `Edited the notes of ${plan.name}`)
+    });
+  },
+
+  // Action to delete a plan (the last remaining plan cannot be deleted)
+  deletePlan: (id) => {
+    const state = get();
+    const plan = state.plans.find(p => p.id === id);
+    if (!plan) return;
+
+    if (state.plans.length === 1) {
+      set(getErrorState(`Cannot delete ${plan.name} because it is your only plan`));
+      return;
+    }
+
+    // If the active plan is deleted, continue editing the first remaining one
+    const remaining = getPlansWithActive(state).filter(p => p.id !== id);
+    const nextActive = id === state.activePlanId ? remaining[0] : remaining.find(p => p.id === state.activePlanId)!;
+
+    set({
+      plans: remaining,
+      activePlanId: nextActive.id,
+      semesterPlans: nextActive.semesterPlans,
+      ...getErrorState(null),
+      ...recordHistory(state, `Deleted ${plan.name}`)
+    });
+  },
+
+  // Action to make another plan the one being edited
+  switchPlan: (id) => {
+    const state = get();
+    if (id === state.activePlanId) return;
+
+    const plans = getPlansWithActive(state);
+    const plan = plans.find(p => p.id === id);
+    if (!plan) return;
+
+    set({
+      plans,
+      activePlanId: plan.id,
+      semesterPlans: plan.semesterPlans,
+      ...getErrorState(null)
+    });
+  },
+
+  // Action to revert the most recent change
+  undo: () => {
+    const state = get();
+    const { past, future } = state;
+    if (past.length === 0) return;
+
+    // Restore the state saved before the last change and keep the current one for redo
+    const entry = past[past.length - 1];
+    set({
+      semesterPlans: entry.semesterPlans,
+      userInfo: entry.userInfo,
+      plans: entry.plans,
+      activePlanId: entry.activePlanId,
+      past: past.slice(0, -1),
+      future: [...future, { ...entry, ...takeSnapshot(state) }],
+      ...getErrorState(null)
+    });
+  },
+
+  // Action to re-apply the most recently undone change
+  redo: () => {
+    const state = get();
+    const { past, future } = state;
+    if (future.length === 0) return;
+
+    // Restore the state saved at undo time and move the change back onto the undo stack
+    const entry = future[future.length - 1];
+    set({
+      semesterPlans: entry.semesterPlans,
+      userInfo: entry.userInfo,
+      plans: entry.plans,
+      activePlanId: entry.activePlanId,
+      past: [...past, { ...entry, ...takeSnapshot(state) }],
+      future: future.slice(0, -1),
+      ...getErrorState(null)
     });
   }
+}), {
+  name: PLAN_STORAGE_KEY,
+  version: PLAN_SCHEMA_VERSION,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({
+    semesterPlans: state.semesterPlans,
+    userInfo: state.userInfo,
+    plans: getPlansWithActive(state),
+    activePlanId: state.activePlanId,
+    lastSavedAt: state.lastSavedAt
+  }),
+  migrate: migratePlanState
 }));
 
-// Export the store hook for use in components
-export { useDegreePlanStore };
+// Stamp the save time whenever the persisted plans or user info change
+// Changes made while loading from storage keep the saved timestamp
+useDegreePlanStore.subscribe((state, prevState) => {
+  if (!useDegreePlanStore.persist?.hasHydrated()) return;
+  if (
+    state.semesterPlans !== prevState.semesterPlans ||
+    state.userInfo !== prevState.userInfo ||
+    state.plans !== prevState.plans
+  ) {
+    useDegreePlanStore.setState({ lastSavedAt: Date.now() });
+  }
+});
+
+// Export the store hook for use in components, along with the corequisite helpers
+// used by the course picker to mirror the store's validation
+export {
+  useDegreePlanStore,
+  getMissingCorequisites,
+  formatCourseCode,
+  getPlansWithActive,
+  createPlansForUser,
+  explainUnmetPrerequisites,
+  simulateCourseFailure,
+  getCreditLimit
+};
+export type {
+  Course,
+  CourseSection,
+  Prerequisite,
+  SemesterPlan,
+  UserInfo,
+  NamedPlan,
+  HistoryEntry,
+  ImportedSemester,
+  FailureMove,
+  FailureSimulation,
+  PrerequisiteExplanation,
+  PrerequisiteOption,
+  PrerequisiteStep,
+  UnmetPrerequisiteGroup
+};